@@ -0,0 +1,61 @@
+import { boundsDiagonal, haversineDistance } from '../../src/geo/distance';
+import { isLatLng } from '../../src/geo/types';
+import { scoreRound } from '../../src/game/scoring';
+import { GuessRequest, GuessResponse, LEADERBOARD_API, RANKED_DIFFICULTY, RANKED_MOVEMENT, RANKED_SCORING } from '../../src/leaderboard/protocol';
+import { REGIONS } from '../../src/regions';
+import { errorResponse, json, readJson } from '../lib/http';
+import { leaderboardStore } from '../lib/store';
+import { openRoundToken, sealToken } from '../lib/tokens';
+import { parseHints } from '../lib/validation';
+
+// Scores a ranked guess against the location sealed in its round token.
+// Each round can be guessed once.
+
+export default async (request: Request): Promise<Response> => {
+    if (request.method !== 'POST') {
+        return errorResponse('Method not allowed', 405);
+    }
+    const body = await readJson<GuessRequest>(request);
+    const round = body && typeof body.token === 'string' ? openRoundToken(body.token) : null;
+    if (!body || !round) {
+        return errorResponse('This round has expired or is invalid.');
+    }
+    if (body.guess !== null && !isLatLng(body.guess)) {
+        return errorResponse('Invalid guess.');
+    }
+
+    const now = Date.now();
+    const firstGuess = await leaderboardStore.update((data) => {
+        if (data.usedRounds[round.id]) {
+            return false;
+        }
+        data.usedRounds[round.id] = now;
+        return true;
+    });
+    if (!firstGuess) {
+        return errorResponse('This round has already been guessed.', 409);
+    }
+
+    const distance = body.guess ? haversineDistance(round.position, body.guess) : null;
+    const points = distance === null ? 0 : scoreRound({
+        distance,
+        timeTaken: now - round.issuedAt,
+        hints: parseHints(body.hints),
+        regionDiagonal: boundsDiagonal(REGIONS[round.region].bounds),
+        movement: RANKED_MOVEMENT,
+        difficulty: RANKED_DIFFICULTY,
+    }, RANKED_SCORING).total;
+
+    const result = sealToken({
+        kind: 'result',
+        roundId: round.id,
+        gameId: round.gameId,
+        region: round.region,
+        mode: round.mode,
+        points,
+        issuedAt: now,
+    });
+    return json({ points, distance, actual: round.position, result } satisfies GuessResponse);
+};
+
+export const config = { path: `${LEADERBOARD_API}/guess` };
@@ -0,0 +1,93 @@
+import { randomUUID } from 'node:crypto';
+import {
+    LEADERBOARD_API,
+    LEADERBOARD_ROUNDS,
+    LeaderboardEntry,
+    LeaderboardResponse,
+    ScoreSubmission,
+    ScoreSubmissionResponse,
+} from '../../src/leaderboard/protocol';
+import { errorResponse, json, readJson } from '../lib/http';
+import { boardEntries, topEntries } from '../lib/leaderboard';
+import { leaderboardStore } from '../lib/store';
+import { ResultToken, openResultToken } from '../lib/tokens';
+import { isLeaderboardMode, isLeaderboardPeriod, isRankedRegion } from '../lib/validation';
+
+// GET: a leaderboard, e.g. ?region=calgary&mode=daily&period=weekly
+// POST: a finished game's signed round results, which are totalled here
+
+const MAX_NAME_LENGTH = 20;
+
+const listBoard = async (url: URL): Promise<Response> => {
+    const region = url.searchParams.get('region');
+    const mode = url.searchParams.get('mode') ?? 'classic';
+    const period = url.searchParams.get('period') ?? 'all-time';
+    if (!isRankedRegion(region) || !isLeaderboardMode(mode) || !isLeaderboardPeriod(period)) {
+        return errorResponse('Unknown leaderboard.');
+    }
+    const { entries } = await leaderboardStore.read();
+    return json({ period, entries: topEntries(entries, region, mode, period) } satisfies LeaderboardResponse);
+};
+
+const submitScore = async (request: Request): Promise<Response> => {
+    const body = await readJson<ScoreSubmission>(request);
+    if (!body || !Array.isArray(body.results) || body.results.length !== LEADERBOARD_ROUNDS) {
+        return errorResponse(`Ranked games have ${LEADERBOARD_ROUNDS} rounds.`);
+    }
+    const results = body.results.map(result => typeof result === 'string' ? openResultToken(result) : null);
+    if (results.some(result => result === null)) {
+        return errorResponse('Some round results have expired or are invalid.');
+    }
+    const [first, ...rest] = results as ResultToken[];
+    const roundIds = new Set(results.map(result => result?.roundId));
+    if (roundIds.size !== results.length || rest.some(result =>
+        result.gameId !== first.gameId || result.region !== first.region || result.mode !== first.mode
+    )) {
+        return errorResponse("These results aren't from a single game.");
+    }
+
+    const name = typeof body.name === 'string' ? body.name.trim().slice(0, MAX_NAME_LENGTH) : '';
+    const entry: LeaderboardEntry = {
+        id: randomUUID(),
+        name: name || 'Anonymous',
+        region: first.region,
+        mode: first.mode,
+        score: (results as ResultToken[]).reduce((total, result) => total + result.points, 0),
+        submittedAt: Date.now(),
+    };
+    const outcome = await leaderboardStore.update((data): { rank: number } | { error: string; status: number } => {
+        // Exactly the rounds the server issued for this game, so a player can't
+        // play extra rounds and keep their best ones
+        const game = data.rankedGames[first.gameId];
+        if (!game || game.rounds.length !== LEADERBOARD_ROUNDS || game.rounds.some(round => !roundIds.has(round.id))) {
+            return { error: "These results don't match the rounds of this game.", status: 400 };
+        }
+        if (data.submittedGames[first.gameId]) {
+            return { error: 'This game is already on the leaderboard.', status: 409 };
+        }
+        data.submittedGames[first.gameId] = entry.submittedAt;
+        data.entries.push(entry);
+        return { rank: boardEntries(data.entries, entry.region, entry.mode, 'all-time').findIndex(other => other.id === entry.id) + 1 };
+    });
+    if ('error' in outcome) {
+        return errorResponse(outcome.error, outcome.status);
+    }
+    return json({ entry, rank: outcome.rank } satisfies ScoreSubmissionResponse);
+};
+
+export default async (request: Request): Promise<Response> => {
+    try {
+        if (request.method === 'GET') {
+            return await listBoard(new URL(request.url));
+        }
+        if (request.method === 'POST') {
+            return await submitScore(request);
+        }
+        return errorResponse('Method not allowed', 405);
+    } catch (error) {
+        console.error('Leaderboard request failed:', error);
+        return errorResponse('The leaderboard is unavailable right now.', 500);
+    }
+};
+
+export const config = { path: `${LEADERBOARD_API}/leaderboard` };
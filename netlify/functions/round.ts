@@ -0,0 +1,125 @@
+import { randomUUID } from 'node:crypto';
+import { dailyDate, dailySeed } from '../../src/game/daily';
+import { LEADERBOARD_API, LEADERBOARD_ROUNDS, RankedRegionId, RoundTokenRequest, RoundTokenResponse } from '../../src/leaderboard/protocol';
+import { REGIONS, regionKey } from '../../src/regions';
+import { PanoramaResult } from '../../src/streetview/lookup';
+import { errorResponse, json, readJson } from '../lib/http';
+import { pickRankedRounds } from '../lib/panorama';
+import { RankedGameRecord, leaderboardStore } from '../lib/store';
+import { sealToken } from '../lib/tokens';
+import { isLeaderboardMode, isRankedRegion, isShortString } from '../lib/validation';
+
+// Starts the next round of a ranked game: issues the next of the rounds
+// picked when the game started and seals its location into a token. A game
+// gets LEADERBOARD_ROUNDS rounds and no more, and a player one ranked daily
+// per region and day.
+
+// A day's daily rounds for a region, from the same seed the browser uses for
+// the Daily Challenge. Picked on the first request of the day and kept.
+const dailyRounds = async (region: RankedRegionId, date: string, seed: string): Promise<PanoramaResult[]> => {
+    const key = `${date}:${region}`;
+    const stored = (await leaderboardStore.read()).dailyRounds[key];
+    if (stored) {
+        return stored;
+    }
+    const rounds = await pickRankedRounds(region, seed);
+    // Another request may have picked them first; everyone keeps the first copy
+    return leaderboardStore.update((data) => {
+        data.dailyRounds[key] = data.dailyRounds[key] ?? rounds;
+        return data.dailyRounds[key];
+    });
+};
+
+// A new game, with its rounds picked. The daily's seed is the browser's
+// Daily Challenge seed; any other game gets a fresh one.
+const startGame = async (body: RoundTokenRequest, now: number): Promise<RankedGameRecord> => {
+    const date = dailyDate(new Date(now));
+    const seed = body.mode === 'daily' ? dailySeed(date, regionKey(REGIONS[body.region])) : randomUUID();
+    const locations = body.mode === 'daily'
+        ? await dailyRounds(body.region, date, seed)
+        : await pickRankedRounds(body.region, seed);
+    return { region: body.region, mode: body.mode, seed, locations, rounds: [], startedAt: now };
+};
+
+const dailyPlayerKey = (game: RankedGameRecord, playerId: string): string =>
+    `${dailyDate(new Date(game.startedAt))}:${game.region}:${playerId}`;
+
+export default async (request: Request): Promise<Response> => {
+    if (request.method !== 'POST') {
+        return errorResponse('Method not allowed', 405);
+    }
+    const body = await readJson<RoundTokenRequest>(request);
+    if (
+        !body ||
+        (body.gameId !== null && !isShortString(body.gameId, 64)) ||
+        (body.gameId === null && (!isRankedRegion(body.region) || !isLeaderboardMode(body.mode) || !isShortString(body.playerId, 64)))
+    ) {
+        return errorResponse('Invalid round request.');
+    }
+
+    const now = Date.now();
+    const gameId = body.gameId ?? randomUUID();
+    const existing: RankedGameRecord | undefined = body.gameId === null
+        ? undefined
+        : (await leaderboardStore.read()).rankedGames[body.gameId];
+    if (body.gameId !== null && !existing) {
+        return errorResponse('This ranked game has expired or is invalid.');
+    }
+    if (existing && existing.rounds.length >= LEADERBOARD_ROUNDS) {
+        return errorResponse(`Ranked games have ${LEADERBOARD_ROUNDS} rounds.`, 409);
+    }
+
+    let game: RankedGameRecord;
+    try {
+        // Region, mode and rounds come from the game the server started, not the request
+        game = existing ?? await startGame(body, now);
+    } catch (error) {
+        console.error('Picking ranked panoramas failed:', error);
+        return errorResponse("Couldn't find panoramas for this game.", 502);
+    }
+    const location = game.locations[game.rounds.length];
+
+    const roundId = randomUUID();
+    // Checked again under the store's lock, in case two rounds were requested at once
+    const refused = await leaderboardStore.update((data): string | null => {
+        if (!existing) {
+            if (game.mode === 'daily') {
+                const key = dailyPlayerKey(game, body.playerId);
+                if (data.dailyPlayers[key]) {
+                    return "You've already played today's ranked Daily Challenge.";
+                }
+                data.dailyPlayers[key] = now;
+            }
+            data.rankedGames[gameId] = game;
+        }
+        const current = data.rankedGames[gameId];
+        if (!current || current.rounds.length !== game.rounds.length) {
+            return 'This round has already been started.';
+        }
+        current.rounds = [...current.rounds, { id: roundId, pano: location.pano }];
+        return null;
+    });
+    if (refused) {
+        return errorResponse(refused, 409);
+    }
+
+    const token = sealToken({
+        kind: 'round',
+        id: roundId,
+        gameId,
+        region: game.region,
+        mode: game.mode,
+        pano: location.pano,
+        position: location.position,
+        issuedAt: now,
+    });
+    // The answer stays in the token until the guess is in
+    return json({
+        gameId,
+        seed: game.seed,
+        token,
+        location: { pano: location.pano, heading: location.heading },
+    } satisfies RoundTokenResponse);
+};
+
+export const config = { path: `${LEADERBOARD_API}/round` };
@@ -0,0 +1,18 @@
+// Small helpers shared by the leaderboard functions
+
+export const json = (body: unknown, status: number = 200): Response =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' },
+    });
+
+export const errorResponse = (message: string, status: number = 400): Response => json({ error: message }, status);
+
+// Null when the body isn't JSON
+export const readJson = async <T>(request: Request): Promise<T | null> => {
+    try {
+        return await request.json() as T;
+    } catch {
+        return null;
+    }
+};
@@ -0,0 +1,28 @@
+import {
+    LEADERBOARD_SIZE,
+    LeaderboardEntry,
+    LeaderboardMode,
+    LeaderboardPeriod,
+    RankedRegionId,
+    periodStart,
+} from '../../src/leaderboard/protocol';
+
+// Best first; ties go to whoever got there first
+const compareEntries = (a: LeaderboardEntry, b: LeaderboardEntry): number =>
+    b.score - a.score || a.submittedAt - b.submittedAt;
+
+export const boardEntries = (
+    entries: LeaderboardEntry[],
+    region: RankedRegionId,
+    mode: LeaderboardMode,
+    period: LeaderboardPeriod,
+    now: number = Date.now()
+): LeaderboardEntry[] => {
+    const since = periodStart(period, now);
+    return entries
+        .filter(entry => entry.region === region && entry.mode === mode && entry.submittedAt >= since)
+        .sort(compareEntries);
+};
+
+export const topEntries = (...args: Parameters<typeof boardEntries>): LeaderboardEntry[] =>
+    boardEntries(...args).slice(0, LEADERBOARD_SIZE);
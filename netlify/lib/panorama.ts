@@ -0,0 +1,63 @@
+import { createSeededRandom } from '../../src/game/random';
+import { LEADERBOARD_ROUNDS, RankedRegionId } from '../../src/leaderboard/protocol';
+import { REGIONS, getRegionSampler } from '../../src/regions';
+import { createSeededLocationSource } from '../../src/streetview/locationSource';
+import { PanoramaLookup, PanoramaResult } from '../../src/streetview/lookup';
+import { DEFAULT_PANORAMA_FILTER, passesPanoramaFilter } from '../../src/streetview/panoramaFilter';
+
+const METADATA_URL = 'https://maps.googleapis.com/maps/api/streetview/metadata';
+
+interface MetadataResponse {
+    status: string;
+    location?: { lat: number; lng: number };
+    pano_id?: string;
+    copyright?: string;
+    date?: string;
+}
+
+// Street View lookups through the metadata API, held to the same default
+// filter as the browser's. Needs GOOGLE_MAPS_SERVER_KEY (a key without
+// referrer restrictions).
+export const createMetadataLookup = (): PanoramaLookup => {
+    const key = process.env.GOOGLE_MAPS_SERVER_KEY;
+    if (!key) {
+        throw new Error('GOOGLE_MAPS_SERVER_KEY is not set');
+    }
+    return async ({ location, radius }) => {
+        const params = new URLSearchParams({
+            location: `${location.lat},${location.lng}`,
+            radius: String(radius),
+            source: 'outdoor',
+            key,
+        });
+        const response = await fetch(`${METADATA_URL}?${params}`);
+        if (!response.ok) {
+            throw new Error(`Street View metadata request failed: ${response.status}`);
+        }
+        const metadata = await response.json() as MetadataResponse;
+        if (metadata.status !== 'OK' || !metadata.pano_id || !metadata.location) {
+            return null;
+        }
+        if (!passesPanoramaFilter({ copyright: metadata.copyright, imageDate: metadata.date }, DEFAULT_PANORAMA_FILTER)) {
+            return null;
+        }
+        return { pano: metadata.pano_id, position: { lat: metadata.location.lat, lng: metadata.location.lng }, imageDate: metadata.date };
+    };
+};
+
+// A ranked game's rounds, from the same seeded location source and region
+// sampler the browser uses. The browser plays the seed itself, so both
+// sides end up with the same panoramas as long as Google answers them alike.
+export const pickRankedRounds = async (region: RankedRegionId, seed: string): Promise<PanoramaResult[]> => {
+    const source = createSeededLocationSource({
+        lookup: createMetadataLookup(),
+        sampler: getRegionSampler(REGIONS[region]),
+        random: createSeededRandom(seed),
+        prefetch: 0,
+    });
+    const rounds: PanoramaResult[] = [];
+    while (rounds.length < LEADERBOARD_ROUNDS) {
+        rounds.push(await source.next());
+    }
+    return rounds;
+};
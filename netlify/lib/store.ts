@@ -0,0 +1,104 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname, resolve } from 'node:path';
+import { LeaderboardEntry, LeaderboardMode, RankedRegionId } from '../../src/leaderboard/protocol';
+import { PanoramaResult } from '../../src/streetview/lookup';
+import { TOKEN_TTL } from './tokens';
+
+// Leaderboard storage. The file store keeps everything in one JSON file,
+// which is all local development needs; anything implementing
+// LeaderboardStore (a database, Netlify Blobs) can replace it in production.
+
+// A ranked game the server started: the rounds picked from its seed, and
+// every round issued for it so far
+export interface RankedGameRecord {
+    region: RankedRegionId;
+    mode: LeaderboardMode;
+    seed: string;
+    locations: PanoramaResult[];
+    rounds: { id: string; pano: string }[];
+    startedAt: number;
+}
+
+export interface LeaderboardData {
+    entries: LeaderboardEntry[];
+    rankedGames: Record<string, RankedGameRecord>;
+    // Each day's ranked daily rounds, keyed by date and region, so every player gets the same ones
+    dailyRounds: Record<string, PanoramaResult[]>;
+    // Players who started a ranked daily, keyed by date, region and player id
+    dailyPlayers: Record<string, number>;
+    // Round ids that have been guessed, and when, so a round can't be retried
+    usedRounds: Record<string, number>;
+    // Games already on the board, so results can't be submitted twice
+    submittedGames: Record<string, number>;
+}
+
+export interface LeaderboardStore {
+    read: () => Promise<LeaderboardData>;
+    // Read-modify-write; updates are applied one at a time
+    update: <T>(change: (data: LeaderboardData) => T) => Promise<T>;
+}
+
+const emptyData = (): LeaderboardData => ({ entries: [], rankedGames: {}, dailyRounds: {}, dailyPlayers: {}, usedRounds: {}, submittedGames: {} });
+
+// Used round ids and started games only matter while their tokens could
+// still be played, and daily rounds and players only for the day they're played
+const pruneExpired = (data: LeaderboardData, now: number) => {
+    Object.entries(data.usedRounds).forEach(([id, usedAt]) => {
+        if (now - usedAt > TOKEN_TTL) {
+            delete data.usedRounds[id];
+        }
+    });
+    Object.entries(data.rankedGames).forEach(([id, game]) => {
+        if (now - game.startedAt > TOKEN_TTL) {
+            delete data.rankedGames[id];
+        }
+    });
+    [data.dailyRounds, data.dailyPlayers].forEach((byDate) => {
+        Object.keys(byDate).forEach((key) => {
+            if (now - Date.parse(key.slice(0, 10)) > 2 * TOKEN_TTL) {
+                delete byDate[key];
+            }
+        });
+    });
+};
+
+export const createFileStore = (path: string): LeaderboardStore => {
+    let queue: Promise<unknown> = Promise.resolve();
+
+    const read = async (): Promise<LeaderboardData> => {
+        try {
+            return { ...emptyData(), ...JSON.parse(await readFile(path, 'utf8')) as Partial<LeaderboardData> };
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                return emptyData();
+            }
+            throw error;
+        }
+    };
+
+    const write = async (data: LeaderboardData) => {
+        await mkdir(dirname(path), { recursive: true });
+        // Write then rename, so a crash never leaves half a file behind
+        const temporary = `${path}.tmp`;
+        await writeFile(temporary, JSON.stringify(data));
+        await rename(temporary, path);
+    };
+
+    const update = <T>(change: (data: LeaderboardData) => T): Promise<T> => {
+        const next = queue.then(async () => {
+            const data = await read();
+            const result = change(data);
+            pruneExpired(data, Date.now());
+            await write(data);
+            return result;
+        });
+        queue = next.catch(() => undefined);
+        return next;
+    };
+
+    return { read, update };
+};
+
+export const leaderboardStore = createFileStore(
+    resolve(process.env.LEADERBOARD_STORE_PATH || '.netlify/leaderboard.json')
+);
@@ -0,0 +1,80 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'node:crypto';
+import { LatLng } from '../../src/geo/types';
+import { LeaderboardMode, RankedRegionId } from '../../src/leaderboard/protocol';
+
+// Round and result tokens are sealed with AES-256-GCM: the client can't read
+// the true location out of a round token, and can't forge or edit either kind.
+
+export interface RoundToken {
+    kind: 'round';
+    id: string;
+    gameId: string;
+    region: RankedRegionId;
+    mode: LeaderboardMode;
+    pano: string;
+    position: LatLng;
+    issuedAt: number;
+}
+
+export interface ResultToken {
+    kind: 'result';
+    roundId: string;
+    gameId: string;
+    region: RankedRegionId;
+    mode: LeaderboardMode;
+    points: number;
+    issuedAt: number;
+}
+
+type Token = RoundToken | ResultToken;
+
+// Tokens older than this are refused, which also bounds how long used round
+// ids need to be remembered
+export const TOKEN_TTL = 24 * 60 * 60 * 1000;
+
+const IV_LENGTH = 12;
+const TAG_LENGTH = 16;
+
+const DEV_SECRET = 'neighbourguessr-local-development';
+
+// Netlify sets NETLIFY_DEV when running `netlify dev`
+export const isLocalDev = (): boolean => process.env.NETLIFY_DEV === 'true';
+
+const tokenKey = (): Buffer => {
+    const secret = process.env.LEADERBOARD_SECRET || (isLocalDev() ? DEV_SECRET : '');
+    if (!secret) {
+        throw new Error('LEADERBOARD_SECRET is not set');
+    }
+    return createHash('sha256').update(secret).digest();
+};
+
+export const sealToken = (token: Token): string => {
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv('aes-256-gcm', tokenKey(), iv);
+    const body = Buffer.concat([cipher.update(JSON.stringify(token), 'utf8'), cipher.final()]);
+    return Buffer.concat([iv, cipher.getAuthTag(), body]).toString('base64url');
+};
+
+// Null for anything tampered with or expired
+const openToken = (sealed: string, now: number): Token | null => {
+    try {
+        const raw = Buffer.from(sealed, 'base64url');
+        const decipher = createDecipheriv('aes-256-gcm', tokenKey(), raw.subarray(0, IV_LENGTH));
+        decipher.setAuthTag(raw.subarray(IV_LENGTH, IV_LENGTH + TAG_LENGTH));
+        const json = Buffer.concat([decipher.update(raw.subarray(IV_LENGTH + TAG_LENGTH)), decipher.final()]).toString('utf8');
+        const token = JSON.parse(json) as Token;
+        return now - token.issuedAt <= TOKEN_TTL ? token : null;
+    } catch {
+        return null;
+    }
+};
+
+export const openRoundToken = (sealed: string, now: number = Date.now()): RoundToken | null => {
+    const token = openToken(sealed, now);
+    return token?.kind === 'round' ? token : null;
+};
+
+export const openResultToken = (sealed: string, now: number = Date.now()): ResultToken | null => {
+    const token = openToken(sealed, now);
+    return token?.kind === 'result' ? token : null;
+};
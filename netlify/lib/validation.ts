@@ -0,0 +1,23 @@
+import { HINT_TIERS, HintTier } from '../../src/game/hints';
+import { LEADERBOARD_MODES, LEADERBOARD_PERIODS, LeaderboardMode, LeaderboardPeriod, RankedRegionId } from '../../src/leaderboard/protocol';
+import { REGIONS } from '../../src/regions';
+
+// Narrowing for values that arrive in request bodies and query strings
+
+export const isRankedRegion = (value: unknown): value is RankedRegionId =>
+    typeof value === 'string' && Object.prototype.hasOwnProperty.call(REGIONS, value);
+
+export const isLeaderboardMode = (value: unknown): value is LeaderboardMode =>
+    LEADERBOARD_MODES.some(mode => mode.id === value);
+
+export const isLeaderboardPeriod = (value: unknown): value is LeaderboardPeriod =>
+    LEADERBOARD_PERIODS.some(period => period.id === value);
+
+// Known tiers only, each counted once
+export const parseHints = (value: unknown): HintTier[] =>
+    Array.isArray(value)
+        ? HINT_TIERS.map(tier => tier.id).filter(tier => value.includes(tier))
+        : [];
+
+export const isShortString = (value: unknown, maxLength: number): value is string =>
+    typeof value === 'string' && value.length > 0 && value.length <= maxLength;
@@ -0,0 +1,169 @@
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { createSeededRandom } from '../src/game/random';
+import { GuessResponse, LeaderboardMode, RoundTokenResponse, ScoreSubmissionResponse } from '../src/leaderboard/protocol';
+import { REGIONS, getRegionSampler } from '../src/regions';
+import { createSeededLocationSource } from '../src/streetview/locationSource';
+import { PanoramaLookup } from '../src/streetview/lookup';
+
+// Plays ranked games through the round, guess and leaderboard functions, with
+// a file store in a temporary directory and a fake Street View metadata API.
+// Kept out of netlify/functions, where every file is deployed as a function.
+
+type Handler = (request: Request) => Promise<Response>;
+
+let directory: string;
+let round: Handler;
+let guess: Handler;
+let leaderboard: Handler;
+
+const post = async <T>(handler: Handler, body: unknown): Promise<{ status: number; body: T & { error?: string } }> => {
+    const response = await handler(new Request('http://localhost/api', { method: 'POST', body: JSON.stringify(body) }));
+    return { status: response.status, body: await response.json() };
+};
+
+// Every candidate point has a panorama of its own, right where it was asked for
+const panoramaAt = (lat: number, lng: number) => ({ pano: `pano:${lat.toFixed(6)},${lng.toFixed(6)}`, position: { lat, lng } });
+
+const fakeMetadata = async (url: string): Promise<Response> => {
+    const [lat, lng] = (new URL(url).searchParams.get('location') ?? '').split(',').map(Number);
+    const { pano, position } = panoramaAt(lat, lng);
+    return new Response(JSON.stringify({ status: 'OK', pano_id: pano, location: position, copyright: '© Google' }));
+};
+
+// The same answers as the fake metadata API, as the browser's lookup would give them
+const fakeLookup: PanoramaLookup = async ({ location }) => panoramaAt(location.lat, location.lng);
+
+let players = 0;
+
+const startGame = async (mode: LeaderboardMode = 'classic', playerId: string = `player-${++players}`) => {
+    const rounds: RoundTokenResponse[] = [];
+    let gameId: string | null = null;
+    for (let index = 0; index < 5; index++) {
+        const response: { status: number; body: RoundTokenResponse } = await post(round, { gameId, region: 'calgary', mode, playerId });
+        expect(response.status).toBe(200);
+        gameId = response.body.gameId;
+        rounds.push(response.body);
+    }
+    return { gameId: gameId as string, rounds };
+};
+
+// Guesses the middle of Calgary every round, not knowing the answers
+const guessAll = async (rounds: RoundTokenResponse[]): Promise<GuessResponse[]> => {
+    const responses: GuessResponse[] = [];
+    for (const { token } of rounds) {
+        const response = await post<GuessResponse>(guess, { token, guess: { lat: 51.05, lng: -114.07 }, hints: [] });
+        expect(response.status).toBe(200);
+        responses.push(response.body);
+    }
+    return responses;
+};
+
+beforeAll(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'neighbourguessr-'));
+    vi.stubEnv('LEADERBOARD_STORE_PATH', join(directory, 'leaderboard.json'));
+    vi.stubEnv('NETLIFY_DEV', 'true');
+    vi.stubEnv('GOOGLE_MAPS_SERVER_KEY', 'test-key');
+    vi.stubGlobal('fetch', fakeMetadata);
+    // The store reads its path on import
+    round = (await import('./functions/round')).default;
+    guess = (await import('./functions/guess')).default;
+    leaderboard = (await import('./functions/leaderboard')).default;
+});
+
+afterAll(async () => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    await rm(directory, { recursive: true, force: true });
+});
+
+describe('ranked games', () => {
+    it('picks every location on the server and only reveals it after the guess', async () => {
+        const { rounds } = await startGame();
+        expect(rounds.every(({ location }) => !('position' in location))).toBe(true);
+        expect(new Set(rounds.map(({ location }) => location.pano)).size).toBe(5);
+
+        const sampler = getRegionSampler(REGIONS.calgary);
+        const guesses = await guessAll(rounds);
+        expect(guesses.every(({ actual }) => sampler.contains(actual))).toBe(true);
+        expect(guesses.map(({ actual }) => panoramaAt(actual.lat, actual.lng).pano)).toEqual(rounds.map(({ location }) => location.pano));
+    });
+
+    it('picks the same rounds as the browser plays from the game seed', async () => {
+        const { rounds } = await startGame();
+        const source = createSeededLocationSource({
+            lookup: fakeLookup,
+            sampler: getRegionSampler(REGIONS.calgary),
+            random: createSeededRandom(rounds[0].seed),
+        });
+        const played: string[] = [];
+        for (let index = 0; index < 5; index++) {
+            played.push((await source.next()).pano);
+        }
+        expect(played).toEqual(rounds.map(({ location }) => location.pano));
+    });
+
+    it('ignores locations and modes sent with later rounds', async () => {
+        const first = await post<RoundTokenResponse>(round, { gameId: null, region: 'calgary', mode: 'classic', playerId: 'player-x' });
+        const second = await post<RoundTokenResponse>(round, {
+            gameId: first.body.gameId,
+            region: 'vancouver',
+            mode: 'daily',
+            pano: 'known-pano',
+            position: { lat: 49.25, lng: -123.1 },
+        });
+        expect(second.body.location.pano).not.toBe('known-pano');
+        expect(second.body.seed).toBe(first.body.seed);
+    });
+
+    it('issues five rounds per game and no more', async () => {
+        const { gameId } = await startGame();
+        const extra = await post(round, { gameId, region: 'calgary', mode: 'classic' });
+        expect(extra.status).toBe(409);
+    });
+
+    it('refuses rounds for games it never started', async () => {
+        const response = await post(round, { gameId: 'made-up', region: 'calgary', mode: 'classic', playerId: 'player-x' });
+        expect(response.status).toBe(400);
+    });
+
+    it('gives every daily game the same rounds', async () => {
+        const first = await startGame('daily');
+        const second = await startGame('daily');
+        expect(second.rounds.map(({ location }) => location.pano)).toEqual(first.rounds.map(({ location }) => location.pano));
+        expect(first.rounds[0].seed).toMatch(/^daily:\d{4}-\d{2}-\d{2}:calgary$/);
+    });
+
+    it('gives each player one ranked daily a day', async () => {
+        await startGame('daily', 'player-daily');
+        const again = await post(round, { gameId: null, region: 'calgary', mode: 'daily', playerId: 'player-daily' });
+        expect(again.status).toBe(409);
+        const classic = await post(round, { gameId: null, region: 'calgary', mode: 'classic', playerId: 'player-daily' });
+        expect(classic.status).toBe(200);
+    });
+
+    it('records a game with exactly its issued rounds, once', async () => {
+        const { rounds } = await startGame();
+        const guesses = await guessAll(rounds);
+        const results = guesses.map(({ result }) => result);
+        const submitted = await post<ScoreSubmissionResponse>(leaderboard, { name: 'Tester', results });
+        expect(submitted.status).toBe(200);
+        expect(submitted.body.entry).toMatchObject({
+            region: 'calgary',
+            mode: 'classic',
+            score: guesses.reduce((total, { points }) => total + points, 0),
+        });
+
+        const again = await post(leaderboard, { name: 'Tester', results });
+        expect(again.status).toBe(409);
+    });
+
+    it('rejects results that repeat a round', async () => {
+        const { rounds } = await startGame();
+        const results = (await guessAll(rounds)).map(({ result }) => result);
+        const response = await post(leaderboard, { name: 'Tester', results: [...results.slice(0, 4), results[0]] });
+        expect(response.status).toBe(400);
+    });
+});
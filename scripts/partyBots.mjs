@@ -0,0 +1,96 @@
+// Headless party players for trying out the party server without a browser.
+//
+//   npm run party:bots                  host a game with three bots and print the results
+//   npm run party:bots -- --join ABCD   add three bots to an existing room
+//
+// Options: --url ws://localhost:3000/party, --bots N, --join CODE
+// The dev server (`npm run dev`) must already be running.
+
+import { WebSocket } from 'ws';
+
+const args = process.argv.slice(2);
+const option = (name, fallback) => {
+    const index = args.indexOf(`--${name}`);
+    return index >= 0 && args[index + 1] ? args[index + 1] : fallback;
+};
+
+const url = option('url', 'ws://localhost:3000/party');
+const botCount = Number(option('bots', '3'));
+const joinCode = option('join', null);
+
+// Calgary, roughly; hosted games use fake panoramas inside it
+const BOUNDS = { north: 51.2124, south: 50.8428, east: -113.8597, west: -114.3157 };
+const SETTINGS = {
+    rounds: 3,
+    scoring: { curve: 'exponential', timeBonus: 500 },
+    movement: 'no-move',
+    timers: { viewTime: 2, guessTime: 5, revealTime: null },
+};
+
+const randomPoint = () => ({
+    lat: BOUNDS.south + Math.random() * (BOUNDS.north - BOUNDS.south),
+    lng: BOUNDS.west + Math.random() * (BOUNDS.east - BOUNDS.west),
+});
+
+const connect = (name, onMessage) => new Promise((resolve, reject) => {
+    const socket = new WebSocket(url);
+    const send = message => socket.send(JSON.stringify(message));
+    socket.on('open', () => resolve(send));
+    socket.on('error', reject);
+    socket.on('message', data => onMessage(JSON.parse(data.toString()), send));
+    socket.on('close', () => console.log(`${name}: disconnected`));
+});
+
+// Locks in a random guess a moment after each round starts
+const bot = (name, code) => connect(name, (message, send) => {
+    if (message.type === 'round') {
+        setTimeout(() => send({ type: 'guess', guess: randomPoint() }), 500 + Math.random() * 2000);
+    } else if (message.type === 'error') {
+        console.log(`${name}: ${message.message}`);
+    }
+}).then(send => {
+    send({ type: 'join', code, name });
+    return send;
+});
+
+const host = async () => {
+    let code = null;
+    const names = new Map();
+    const send = await connect('Host', (message, reply) => {
+        if (message.type === 'welcome') {
+            code = message.room.code;
+            console.log(`Room ${code} created`);
+            Array.from({ length: botCount }, (_, i) => bot(`Bot ${i + 1}`, code));
+        } else if (message.type === 'room') {
+            message.room.players.forEach(player => names.set(player.id, player.name));
+            if (message.room.stage === 'lobby' && message.room.players.length === botCount + 1) {
+                reply({ type: 'next', location: { pano: 'bot-round-1', position: randomPoint() } });
+            }
+            if (message.room.stage === 'finished') {
+                console.log('Final scores:');
+                message.room.players.forEach(player => console.log(`  ${player.name}: ${player.total}`));
+                process.exit(0);
+            }
+        } else if (message.type === 'round') {
+            console.log(`Round ${message.round.index + 1} started (${message.round.timeLimit / 1000} s)`);
+            // The host doesn't guess, so rounds end when the timer runs out
+        } else if (message.type === 'reveal') {
+            message.results.forEach(result => console.log(
+                `  ${names.get(result.playerId)}: ${result.distance === null ? 'no guess' : `${Math.round(result.distance)} m`}, ${result.points} points`
+            ));
+            setTimeout(() => reply({ type: 'next', location: { pano: `bot-round-${message.index + 2}`, position: randomPoint() } }), 500);
+        } else if (message.type === 'error') {
+            console.log(`Host: ${message.message}`);
+        }
+    });
+    send({ type: 'create', name: 'Host', region: { id: 'calgary' }, bounds: BOUNDS, settings: SETTINGS });
+};
+
+if (joinCode) {
+    Array.from({ length: botCount }, (_, i) => bot(`Bot ${i + 1}`, joinCode.toUpperCase()));
+} else {
+    host().catch((error) => {
+        console.error(`Couldn't reach the party server at ${url}. Is \`npm run dev\` running?`, error.message);
+        process.exit(1);
+    });
+}
@@ -0,0 +1,185 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_GAME_SETTINGS } from '../src/game/settings';
+import { eliminationSettings } from '../src/game/elimination';
+import { PartyServerMessage, partyRoundLimit } from '../src/party/protocol';
+import { REGIONS } from '../src/regions';
+import { PartyRoom, createPartyRoom } from './partyRoom';
+
+// A connection that keeps everything the server sent it
+interface FakeClient {
+    playerId: string;
+    messages: PartyServerMessage[];
+    last: <T extends PartyServerMessage['type']>(type: T) => Extract<PartyServerMessage, { type: T }> | undefined;
+}
+
+const LOCATION = { pano: 'pano-1', position: { lat: 51.05, lng: -114.07 } };
+
+let clock = 0;
+
+const createRoom = (settings = DEFAULT_GAME_SETTINGS): PartyRoom => createPartyRoom({
+    code: 'ABCD',
+    region: { id: 'calgary' },
+    bounds: REGIONS.calgary.bounds,
+    settings,
+    now: () => clock,
+});
+
+const connect = (room: PartyRoom, name: string): FakeClient => {
+    const messages: PartyServerMessage[] = [];
+    const joined = room.join({ send: message => messages.push(message) }, name);
+    if ('error' in joined) {
+        throw new Error(joined.error);
+    }
+    return {
+        playerId: joined.playerId,
+        messages,
+        last: type => messages.filter(message => message.type === type).pop() as never,
+    };
+};
+
+beforeEach(() => {
+    vi.useFakeTimers();
+    clock = 0;
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('createPartyRoom', () => {
+    it('plays a round from join to reveal', () => {
+        const room = createRoom({ ...DEFAULT_GAME_SETTINGS, rounds: 2 });
+        const host = connect(room, 'Host');
+        const guest = connect(room, '  Guest  ');
+        expect(host.last('welcome')?.room.hostId).toBe(host.playerId);
+        expect(guest.last('room')?.room.players.map(player => player.name)).toEqual(['Host', 'Guest']);
+
+        room.handle(guest.playerId, { type: 'next', location: LOCATION });
+        expect(guest.last('error')?.message).toMatch(/host/);
+
+        room.handle(host.playerId, { type: 'next', location: LOCATION });
+        expect(guest.last('round')?.round).toMatchObject({ index: 0, pano: 'pano-1' });
+
+        clock = 4000;
+        room.handle(host.playerId, { type: 'guess', guess: LOCATION.position });
+        expect(guest.last('room')?.room.locked).toEqual([host.playerId]);
+        expect(guest.last('reveal')).toBeUndefined();
+
+        clock = 6000;
+        room.handle(guest.playerId, { type: 'guess', guess: { lat: 51.1, lng: -114.07 } });
+        const reveal = guest.last('reveal');
+        expect(reveal?.actual).toEqual(LOCATION.position);
+        expect(reveal?.results[0]).toMatchObject({ playerId: host.playerId, distance: 0, points: 5000, timeTaken: 4000 });
+        expect(reveal?.results[1].distance).toBeGreaterThan(5000);
+        expect(reveal?.results[1].points).toBeLessThan(5000);
+        expect(host.last('room')?.room).toMatchObject({ stage: 'revealed', round: 1 });
+    });
+
+    it('only counts the first guess each round', () => {
+        const room = createRoom();
+        const host = connect(room, 'Host');
+        const guest = connect(room, 'Guest');
+        connect(room, 'Third');
+        room.handle(host.playerId, { type: 'next', location: LOCATION });
+        room.handle(guest.playerId, { type: 'guess', guess: { lat: 51.2, lng: -114.07 } });
+        room.handle(guest.playerId, { type: 'guess', guess: LOCATION.position });
+        room.handle(host.playerId, { type: 'guess', guess: LOCATION.position });
+        vi.advanceTimersByTime(partyRoundLimit(DEFAULT_GAME_SETTINGS.timers));
+        expect(host.last('reveal')?.results[1].distance).toBeGreaterThan(10000);
+    });
+
+    it('reveals when the clock runs out, scoring missing guesses as zero', () => {
+        const room = createRoom();
+        const host = connect(room, 'Host');
+        const guest = connect(room, 'Guest');
+        room.handle(host.playerId, { type: 'next', location: LOCATION });
+        room.handle(host.playerId, { type: 'guess', guess: LOCATION.position });
+
+        vi.advanceTimersByTime(partyRoundLimit(DEFAULT_GAME_SETTINGS.timers) - 1);
+        expect(guest.last('reveal')).toBeUndefined();
+        vi.advanceTimersByTime(1);
+        expect(guest.last('reveal')?.results[1]).toMatchObject({ guess: null, distance: null, points: 0 });
+    });
+
+    it('finishes after the last round', () => {
+        const room = createRoom({ ...DEFAULT_GAME_SETTINGS, rounds: 1 });
+        const host = connect(room, 'Host');
+        const guest = connect(room, 'Guest');
+        room.handle(host.playerId, { type: 'next', location: LOCATION });
+        room.handle(host.playerId, { type: 'guess', guess: LOCATION.position });
+        room.handle(guest.playerId, { type: 'guess', guess: LOCATION.position });
+        expect(guest.last('room')?.room.stage).toBe('finished');
+        room.handle(host.playerId, { type: 'next', location: LOCATION });
+        expect(guest.last('round')?.round.index).toBe(0);
+    });
+
+    it('hands the host role on and stops waiting for players who leave', () => {
+        const room = createRoom();
+        const host = connect(room, 'Host');
+        const guest = connect(room, 'Guest');
+        const third = connect(room, 'Third');
+        room.handle(host.playerId, { type: 'next', location: LOCATION });
+        room.handle(guest.playerId, { type: 'guess', guess: LOCATION.position });
+        room.handle(third.playerId, { type: 'guess', guess: LOCATION.position });
+
+        room.handle(host.playerId, { type: 'leave' });
+        expect(guest.last('reveal')).toBeDefined();
+        const state = guest.last('room')?.room;
+        expect(state?.hostId).toBe(guest.playerId);
+        // Their score stays on the board
+        expect(state?.players.find(player => player.id === host.playerId)?.connected).toBe(false);
+
+        room.leave(guest.playerId);
+        room.leave(third.playerId);
+        expect(room.isEmpty()).toBe(true);
+    });
+
+    it('holds the host settings to what the start screen offers', () => {
+        const room = createRoom({
+            ...DEFAULT_GAME_SETTINGS,
+            rounds: 500,
+            timers: { viewTime: 1, guessTime: 86400, revealTime: null },
+            scoring: { ...DEFAULT_GAME_SETTINGS.scoring, maxPoints: 1e9, hintPenalties: { ...DEFAULT_GAME_SETTINGS.scoring.hintPenalties, street: -5000 } },
+            lives: 99,
+        });
+        const host = connect(room, 'Host');
+        const settings = host.last('welcome')?.room.settings;
+        expect(settings?.rounds).toBe(15);
+        expect(settings?.timers).toEqual({ viewTime: DEFAULT_GAME_SETTINGS.timers.viewTime, guessTime: null, revealTime: null });
+        expect(settings?.scoring.maxPoints).toBe(DEFAULT_GAME_SETTINGS.scoring.maxPoints);
+        expect(settings?.scoring.hintPenalties.street).toBe(0);
+        expect(settings?.lives).toBe(3);
+    });
+
+    it('frees the seat of a player who leaves the lobby', () => {
+        const room = createRoom();
+        const host = connect(room, 'Host');
+        const guest = connect(room, 'Guest');
+        room.leave(guest.playerId);
+        expect(host.last('room')?.room.players).toHaveLength(1);
+        room.handle(host.playerId, { type: 'next', location: LOCATION });
+        expect(host.last('error')?.message).toMatch(/at least/);
+    });
+
+    it('turns late joiners away once the game has started', () => {
+        const room = createRoom();
+        const host = connect(room, 'Host');
+        connect(room, 'Guest');
+        room.handle(host.playerId, { type: 'next', location: LOCATION });
+        expect(() => connect(room, 'Late')).toThrow(/already started/);
+    });
+
+    it('takes lives in battle royale rooms and ends with the last player standing', () => {
+        const room = createRoom(eliminationSettings(DEFAULT_GAME_SETTINGS));
+        const host = connect(room, 'Host');
+        const guest = connect(room, 'Guest');
+        for (let index = 0; index < 3; index++) {
+            room.handle(host.playerId, { type: 'next', location: LOCATION });
+            room.handle(host.playerId, { type: 'guess', guess: LOCATION.position });
+            room.handle(guest.playerId, { type: 'guess', guess: { lat: 52, lng: -114.07 } });
+        }
+        const state = host.last('room')?.room;
+        expect(state?.players.map(player => player.lives)).toEqual([3, 0]);
+        expect(state?.stage).toBe('finished');
+    });
+});
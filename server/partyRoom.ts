@@ -0,0 +1,293 @@
+import { randomUUID } from 'node:crypto';
+import { boundsDiagonal, haversineDistance } from '../src/geo/distance';
+import { Bounds, LatLng, isLatLng } from '../src/geo/types';
+import { DEFAULT_SCORING, SCORING_CURVES, TIME_BONUS_POINTS, scoreRound } from '../src/game/scoring';
+import { DEFAULT_GAME_SETTINGS, GameSettings, ROUND_COUNT_OPTIONS, normalizeGameSettings } from '../src/game/settings';
+import { DEFAULT_TIMERS, GUESS_TIME_OPTIONS, REVEAL_TIME_OPTIONS, VIEW_TIME_OPTIONS } from '../src/game/roundFlow';
+import { DEFAULT_MOVEMENT, MOVEMENT_MODES } from '../src/game/movement';
+import { DEFAULT_DIFFICULTY, DIFFICULTY_PRESETS } from '../src/game/difficulty';
+import { HINT_TIERS } from '../src/game/hints';
+import { ELIMINATION_LIVES, costsLife } from '../src/game/elimination';
+import { PLAYER_COLORS } from '../src/game/hotseat';
+import { StoredRegion } from '../src/regions';
+import { LocationTrivia, PanoramaResult } from '../src/streetview/lookup';
+import {
+    MAX_PARTY_PLAYERS,
+    MIN_PARTY_PLAYERS,
+    PartyClientMessage,
+    PartyPlayer,
+    PartyResult,
+    PartyRoomState,
+    PartyServerMessage,
+    partyRoundLimit,
+} from '../src/party/protocol';
+
+// One party room. Knows nothing about sockets, so it can be driven by fake
+// connections as easily as real ones.
+
+export interface PartyConnection {
+    send: (message: PartyServerMessage) => void;
+}
+
+export interface PartyRoomOptions {
+    code: string;
+    region: StoredRegion;
+    bounds: Bounds;
+    settings: GameSettings;
+    now?: () => number;
+}
+
+export interface PartyRoom {
+    code: string;
+    // Adds a player and returns their id, or an error message
+    join: (connection: PartyConnection, name: string) => { playerId: string } | { error: string };
+    handle: (playerId: string, message: PartyClientMessage) => void;
+    leave: (playerId: string) => void;
+    // True once everyone has left; the room can then be dropped
+    isEmpty: () => boolean;
+    dispose: () => void;
+}
+
+interface ActiveRound {
+    index: number;
+    location: PanoramaResult;
+    startedAt: number;
+    guesses: Map<string, { guess: LatLng; at: number }>;
+    timer: ReturnType<typeof setTimeout>;
+}
+
+const MAX_NAME_LENGTH = 20;
+const MAX_TRIVIA_TITLE_LENGTH = 100;
+const MAX_TRIVIA_TEXT_LENGTH = 500;
+
+// Location pack trivia comes from the host's client, so only keep well-formed strings
+const readTrivia = (value: unknown): LocationTrivia | undefined => {
+    const trivia = value as Partial<LocationTrivia> | undefined;
+    return typeof trivia?.title === 'string' && typeof trivia.text === 'string'
+        ? { title: trivia.title.slice(0, MAX_TRIVIA_TITLE_LENGTH), text: trivia.text.slice(0, MAX_TRIVIA_TEXT_LENGTH) }
+        : undefined;
+};
+
+const oneOf = <T>(value: T, options: readonly T[], fallback: T): T =>
+    options.includes(value) ? value : fallback;
+
+const clamp = (value: unknown, min: number, max: number, fallback: number): number =>
+    typeof value === 'number' && Number.isFinite(value) ? Math.min(max, Math.max(min, Math.round(value))) : fallback;
+
+// The host's settings, held to what the start screen offers: preset timers,
+// difficulties and movement modes, and only the scoring rules players can
+// change. Everything else is the default.
+const readSettings = (value: unknown): GameSettings => {
+    const settings = normalizeGameSettings(value && typeof value === 'object' ? value as Partial<GameSettings> : {});
+    const preset = DIFFICULTY_PRESETS.find(option => option.id === settings.difficulty.preset);
+    return {
+        rounds: clamp(settings.rounds, 1, Math.max(...ROUND_COUNT_OPTIONS), DEFAULT_GAME_SETTINGS.rounds),
+        scoring: {
+            ...DEFAULT_SCORING,
+            curve: oneOf(settings.scoring.curve, SCORING_CURVES.map(option => option.id), DEFAULT_SCORING.curve),
+            timeBonus: oneOf(settings.scoring.timeBonus, [0, TIME_BONUS_POINTS], DEFAULT_SCORING.timeBonus),
+            hintPenalties: Object.fromEntries(HINT_TIERS.map(({ id }) => [
+                id,
+                clamp(settings.scoring.hintPenalties[id], 0, DEFAULT_SCORING.maxPoints, DEFAULT_SCORING.hintPenalties[id]),
+            ])) as GameSettings['scoring']['hintPenalties'],
+        },
+        movement: oneOf(settings.movement, MOVEMENT_MODES.map(option => option.id), DEFAULT_MOVEMENT),
+        timers: {
+            viewTime: oneOf(settings.timers.viewTime, VIEW_TIME_OPTIONS, DEFAULT_TIMERS.viewTime),
+            guessTime: oneOf(settings.timers.guessTime, GUESS_TIME_OPTIONS, DEFAULT_TIMERS.guessTime),
+            revealTime: oneOf(settings.timers.revealTime, REVEAL_TIME_OPTIONS, DEFAULT_TIMERS.revealTime),
+        },
+        difficulty: preset ? { preset: preset.id, ...preset.difficulty } : DEFAULT_DIFFICULTY,
+        lives: settings.lives === null ? null : ELIMINATION_LIVES,
+    };
+};
+
+export const createPartyRoom = ({ code, region, bounds, settings: rawSettings, now = Date.now }: PartyRoomOptions): PartyRoom => {
+    const settings = readSettings(rawSettings);
+    const regionDiagonal = boundsDiagonal(bounds);
+    const connections = new Map<string, PartyConnection>();
+    const players: PartyPlayer[] = [];
+    let hostId = '';
+    let stage: PartyRoomState['stage'] = 'lobby';
+    let roundCount = 0;
+    let round: ActiveRound | null = null;
+
+    const snapshot = (): PartyRoomState => ({
+        code,
+        hostId,
+        region,
+        settings,
+        players: players.map(player => ({ ...player })),
+        stage,
+        round: roundCount,
+        locked: round && stage === 'playing' ? [...round.guesses.keys()] : [],
+    });
+
+    const broadcast = (message: PartyServerMessage) => {
+        connections.forEach(connection => connection.send(message));
+    };
+
+    const sendTo = (playerId: string, message: PartyServerMessage) => {
+        connections.get(playerId)?.send(message);
+    };
+
+    const connected = () => players.filter(player => player.connected);
+
+    // Battle royale players with no lives left watch the remaining rounds
+    const isOut = (player: PartyPlayer) => player.lives === 0;
+
+    const reveal = () => {
+        if (!round || stage !== 'playing') {
+            return;
+        }
+        clearTimeout(round.timer);
+        const { location, startedAt, guesses, index: roundIndex } = round;
+        const results: PartyResult[] = players.map((player) => {
+            const entry = guesses.get(player.id);
+            if (!entry) {
+                return { playerId: player.id, guess: null, distance: null, points: 0, timeTaken: 0 };
+            }
+            const distance = haversineDistance(location.position, entry.guess);
+            const timeTaken = entry.at - startedAt;
+            const { total } = scoreRound({
+                distance,
+                timeTaken,
+                hints: [],
+                regionDiagonal,
+                movement: settings.movement,
+                difficulty: settings.difficulty.preset,
+            }, settings.scoring);
+            return { playerId: player.id, guess: entry.guess, distance, points: total, timeTaken };
+        });
+        results.forEach((result, index) => {
+            const player = players[index];
+            player.total += result.points;
+            if (player.lives && costsLife(result.distance, roundIndex)) {
+                player.lives -= 1;
+            }
+        });
+        // Battle royale rooms play on until at most one player is left (none, when playing alone)
+        const standing = players.filter(player => !isOut(player)).length;
+        const over = settings.lives === null
+            ? roundCount >= settings.rounds
+            : standing <= (players.length > 1 ? 1 : 0);
+        stage = over ? 'finished' : 'revealed';
+        broadcast({ type: 'reveal', index: round.index, actual: location.position, results, trivia: location.trivia });
+        broadcast({ type: 'room', room: snapshot() });
+    };
+
+    // Reveal early once every connected player has locked in
+    const revealIfAllLocked = () => {
+        if (round && stage === 'playing' && connected().every(player => isOut(player) || round?.guesses.has(player.id))) {
+            reveal();
+        }
+    };
+
+    const startRound = (location: PanoramaResult) => {
+        const timeLimit = partyRoundLimit(settings.timers);
+        round = {
+            index: roundCount,
+            location,
+            startedAt: now(),
+            guesses: new Map(),
+            timer: setTimeout(reveal, timeLimit),
+        };
+        roundCount += 1;
+        stage = 'playing';
+        broadcast({ type: 'round', round: { index: round.index, pano: location.pano, heading: location.heading, timeLimit } });
+        broadcast({ type: 'room', room: snapshot() });
+    };
+
+    const join: PartyRoom['join'] = (connection, name) => {
+        if (stage !== 'lobby') {
+            return { error: 'This game has already started.' };
+        }
+        if (players.length >= MAX_PARTY_PLAYERS) {
+            return { error: `This room is full (${MAX_PARTY_PLAYERS} players).` };
+        }
+        const playerId = randomUUID();
+        const trimmed = name.trim().slice(0, MAX_NAME_LENGTH);
+        players.push({
+            id: playerId,
+            name: trimmed || `Player ${players.length + 1}`,
+            color: PLAYER_COLORS[players.length],
+            total: 0,
+            connected: true,
+            ...(settings.lives !== null ? { lives: settings.lives } : {}),
+        });
+        connections.set(playerId, connection);
+        if (!hostId) {
+            hostId = playerId;
+        }
+        sendTo(playerId, { type: 'welcome', playerId, room: snapshot() });
+        broadcast({ type: 'room', room: snapshot() });
+        return { playerId };
+    };
+
+    const handle: PartyRoom['handle'] = (playerId, message) => {
+        switch (message.type) {
+            case 'next':
+                if (playerId !== hostId) {
+                    sendTo(playerId, { type: 'error', message: 'Only the host can start a round.' });
+                } else if (stage === 'lobby' && connected().length < MIN_PARTY_PLAYERS) {
+                    sendTo(playerId, { type: 'error', message: `Waiting for at least ${MIN_PARTY_PLAYERS} players.` });
+                } else if ((stage === 'lobby' || stage === 'revealed') && typeof message.location?.pano === 'string' && isLatLng(message.location.position)) {
+                    const { pano, position, heading, trivia } = message.location;
+                    startRound({ pano, position, heading: Number.isFinite(heading) ? heading : undefined, trivia: readTrivia(trivia) });
+                }
+                return;
+            case 'guess':
+                // Guesses are final; only the first one each round counts
+                if (round && stage === 'playing' && isLatLng(message.guess) && !round.guesses.has(playerId) && !players.some(player => player.id === playerId && isOut(player))) {
+                    round.guesses.set(playerId, { guess: { lat: message.guess.lat, lng: message.guess.lng }, at: now() });
+                    broadcast({ type: 'room', room: snapshot() });
+                    revealIfAllLocked();
+                }
+                return;
+            case 'leave':
+                leave(playerId);
+                return;
+            default:
+                // 'create' and 'join' are handled before a player has a room
+                return;
+        }
+    };
+
+    const leave: PartyRoom['leave'] = (playerId) => {
+        if (!connections.delete(playerId)) {
+            return;
+        }
+        const index = players.findIndex(player => player.id === playerId);
+        if (stage === 'lobby') {
+            players.splice(index, 1);
+            // Keep seat colours in join order
+            players.forEach((player, seat) => {
+                player.color = PLAYER_COLORS[seat];
+            });
+        } else if (index >= 0) {
+            // Keep their scores on the board
+            players[index].connected = false;
+        }
+        if (playerId === hostId) {
+            hostId = connected()[0]?.id ?? '';
+        }
+        broadcast({ type: 'room', room: snapshot() });
+        revealIfAllLocked();
+    };
+
+    const dispose = () => {
+        if (round) {
+            clearTimeout(round.timer);
+        }
+        connections.clear();
+    };
+
+    return {
+        code,
+        join,
+        handle,
+        leave,
+        isEmpty: () => connections.size === 0,
+        dispose,
+    };
+};
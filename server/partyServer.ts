@@ -0,0 +1,137 @@
+import { IncomingMessage, Server } from 'node:http';
+import { Duplex } from 'node:stream';
+import { Plugin } from 'vite';
+import { WebSocket, WebSocketServer } from 'ws';
+import { isValidBounds } from '../src/regions';
+import {
+    PARTY_PATH,
+    PartyClientMessage,
+    PartyServerMessage,
+    ROOM_CODE_PATTERN,
+    normalizeRoomCode,
+} from '../src/party/protocol';
+import { PartyRoom, createPartyRoom } from './partyRoom';
+
+// Party rooms over WebSockets, sharing the HTTP server of `vite` (dev) or
+// `vite preview`, so `npm run dev` is all it takes to play locally.
+
+const ROOM_CODE_LETTERS = 'ABCDEFGHJKLMNPQRSTUVWXYZ';
+
+const send = (socket: WebSocket, message: PartyServerMessage) => {
+    if (socket.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify(message));
+    }
+};
+
+const parseMessage = (data: WebSocket.RawData): PartyClientMessage | null => {
+    try {
+        const message = JSON.parse(data.toString()) as PartyClientMessage;
+        return typeof message === 'object' && message !== null && typeof message.type === 'string' ? message : null;
+    } catch {
+        return null;
+    }
+};
+
+export const attachPartyServer = (httpServer: Server) => {
+    const rooms = new Map<string, PartyRoom>();
+    const wss = new WebSocketServer({ noServer: true });
+
+    const newRoomCode = (): string => {
+        let code: string;
+        do {
+            code = Array.from({ length: 4 }, () => ROOM_CODE_LETTERS[Math.floor(Math.random() * ROOM_CODE_LETTERS.length)]).join('');
+        } while (rooms.has(code));
+        return code;
+    };
+
+    wss.on('connection', (socket: WebSocket) => {
+        // Each connection is in at most one room at a time
+        let membership: { room: PartyRoom; playerId: string } | null = null;
+
+        const leaveRoom = () => {
+            if (!membership) {
+                return;
+            }
+            const { room, playerId } = membership;
+            membership = null;
+            room.leave(playerId);
+            if (room.isEmpty()) {
+                room.dispose();
+                rooms.delete(room.code);
+            }
+        };
+
+        const enter = (room: PartyRoom, name: string) => {
+            const joined = room.join({ send: message => send(socket, message) }, typeof name === 'string' ? name : '');
+            if ('error' in joined) {
+                send(socket, { type: 'error', message: joined.error });
+                return;
+            }
+            membership = { room, playerId: joined.playerId };
+        };
+
+        socket.on('message', (data) => {
+            const message = parseMessage(data);
+            if (!message) {
+                send(socket, { type: 'error', message: 'Malformed message.' });
+                return;
+            }
+            if (message.type === 'create') {
+                if (!message.bounds || !isValidBounds(message.bounds) || !message.region || !message.settings) {
+                    send(socket, { type: 'error', message: 'Invalid room settings.' });
+                    return;
+                }
+                leaveRoom();
+                const room = createPartyRoom({
+                    code: newRoomCode(),
+                    region: message.region,
+                    bounds: message.bounds,
+                    settings: message.settings,
+                });
+                rooms.set(room.code, room);
+                enter(room, message.name);
+            } else if (message.type === 'join') {
+                const code = normalizeRoomCode(String(message.code));
+                const room = ROOM_CODE_PATTERN.test(code) ? rooms.get(code) : undefined;
+                if (!room) {
+                    send(socket, { type: 'error', message: `There's no room with the code ${code}.` });
+                    return;
+                }
+                leaveRoom();
+                enter(room, message.name);
+            } else if (message.type === 'leave') {
+                leaveRoom();
+            } else if (membership) {
+                membership.room.handle(membership.playerId, message);
+            }
+        });
+
+        socket.on('close', leaveRoom);
+    });
+
+    httpServer.on('upgrade', (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+        // Everything else (e.g. Vite's HMR socket) is left alone
+        if (new URL(request.url ?? '/', 'http://localhost').pathname !== PARTY_PATH) {
+            return;
+        }
+        wss.handleUpgrade(request, socket, head, (client) => wss.emit('connection', client, request));
+    });
+
+    httpServer.on('close', () => {
+        rooms.forEach(room => room.dispose());
+        rooms.clear();
+        wss.close();
+    });
+};
+
+export const partyServerPlugin = (): Plugin => ({
+    name: 'neighbourguessr-party-server',
+    configureServer(server) {
+        if (server.httpServer) {
+            attachPartyServer(server.httpServer as Server);
+        }
+    },
+    configurePreviewServer(server) {
+        attachPartyServer(server.httpServer as Server);
+    },
+});
@@ -1,328 +1,991 @@
-import React, { useState, useCallback, useEffect, useRef } from 'react';
-import { GoogleMap, LoadScript, Marker, Polyline } from '@react-google-maps/api';
+import React, { useState, useCallback, useEffect, useMemo, useReducer, useRef } from 'react';
 // import AdSense from './components/AdSense';
-
-// Calgary city boundaries (approximate)
-const CALGARY_BOUNDS = {
-    north: 51.2,
-    south: 50.9,
-    west: -114.3,
-    east: -113.8,
-};
-
-// Map bounds for Calgary with some padding
-const calgaryBounds = {
-    north: CALGARY_BOUNDS.north + 0.1,
-    south: CALGARY_BOUNDS.south - 0.1,
-    west: CALGARY_BOUNDS.west - 0.1,
-    east: CALGARY_BOUNDS.east + 0.1,
-};
+import StartScreen from './components/StartScreen';
+import SummaryScreen from './components/SummaryScreen';
+import StatsScreen from './components/StatsScreen';
+import PodiumScreen from './components/PodiumScreen';
+import PartyLobby from './components/PartyLobby';
+import LeaderboardScreen from './components/LeaderboardScreen';
+import LocationSetEditor from './components/LocationSetEditor';
+import AchievementsScreen from './components/AchievementsScreen';
+import AchievementToasts from './components/AchievementToasts';
+import { AchievementRule, recordAchievements } from './game/achievements';
+import { LocationSet, deleteLocationSet, loadLocationSets, saveLocationSet } from './game/locationSets';
+import { RankedGame, createRankedLocationSource, startRankedGame } from './leaderboard/rankedGame';
+import { saveGame, saveRound } from './history/historyDb';
+import { GameMode, GameSession, addRound, createSession, isSessionComplete, sessionLength, sessionTotal } from './game/session';
+import { DAILY_SETTINGS, dailyDate, dailySeed, finishDailyAttempt, hasPlayedDaily, parseDailySeed, startDailyAttempt } from './game/daily';
+import { createSeededRandom } from './game/random';
+import { Challenge, challengeFromSession, challengeUrl, decodeChallenge, encodeChallenge, readChallengeToken } from './game/challenge';
+import { GameSettings, loadGameSettings, saveGameSettings } from './game/settings';
+import { ResultCopy, ScoreBreakdown, TIMEOUT_RESULT, describeBreakdown, describeCommunityResult, describeResult, formatDistance, maxRoundPoints, scoreCommunityGuess, scoreRound } from './game/scoring';
+import { hasExpired, initialRoundFlow, isActivePhase, roundFlowReducer, secondsLeft } from './game/roundFlow';
+import { Community, communityChoices, findCommunity, getCommunitySet, judgeCommunityGuess } from './game/communities';
+import { createSampler } from './geo/sampling';
+import { geometryPaths } from './geo/polygon';
+import { LatLng } from './geo/types';
+import { AccessibilitySettings, COUNTDOWN_MILESTONES, loadAccessibilitySettings, saveAccessibilitySettings } from './game/accessibility';
+import { describeOffset, movePin, readKeyCommand } from './game/keyboard';
+import { PackSelection, createPackLocationSource, loadPackSelection, savePackSelection, selectedPacks } from './game/packs';
+import { PlayerTurn, createPlayers, loadPlayerNames, playerTotals, roundWinner, savePlayerNames } from './game/hotseat';
+import { DEFAULT_MOVEMENT, movementLabel } from './game/movement';
+import { DEFAULT_DIFFICULTY } from './game/difficulty';
+import { costsLife, describeEliminationResult, describeEliminationRound, eliminationSettings, eliminationThreshold, formatLives, sessionLives } from './game/elimination';
+import { boundsDiagonal, circlePath, haversineDistance } from './geo/distance';
+import { Hint, hintLabel, nextHintTier, resolveOfflineHint } from './game/hints';
+import { DEFAULT_REGION, Region, createSetRegion, deserializeRegion, formatStreetHint, getRegionSampler, loadActiveRegion, regionCenter, regionKey, saveActiveRegion, serializeRegion } from './regions';
+import { createLocationPool } from './streetview/locationPool';
+import { LocationTrivia, PanoramaResult } from './streetview/lookup';
+import { LocationSource, createFixedLocationSource, createMixedLocationSource, createPinLocationSource, createSeededLocationSource } from './streetview/locationSource';
+import { QUOTA_APIS, QUOTA_LABELS, QuotaApi, formatWait, quota, quotaWaits } from './quota/quotaManager';
+import { PartyClient, PartyEvent, connectParty } from './party/partyClient';
+import { PartyRoomState, PartyRound, PartyServerMessage } from './party/protocol';
+import { PanoramaFilter, loadPanoramaFilter, passesPanoramaFilter, randomPov, savePanoramaFilter } from './streetview/panoramaFilter';
+import { isDemoMode, mapProvider } from './maps';
+import { MapArea, MapLine, MapMarker, PanoramaPov, PanoramaView } from './maps/types';
 
 const containerStyle = {
     width: '100%',
     height: '100vh'
 };
 
-const defaultCenter = {
-    lat: (CALGARY_BOUNDS.north + CALGARY_BOUNDS.south) / 2,
-    lng: (CALGARY_BOUNDS.east + CALGARY_BOUNDS.west) / 2
-};
+// Demo mode only has panoramas in Calgary
+const startingRegion = (): Region => isDemoMode ? DEFAULT_REGION : loadActiveRegion();
 
-// Define libraries array outside component
-const GOOGLE_MAPS_LIBRARIES: ("geometry" | "places" | "drawing" | "visualization")[] = ["geometry"];
+// Pin sets, and providers that only know a few panoramas, deal rounds from a
+// fixed list rather than sampling the region
+const fixedPins = (region: Region): PanoramaResult[] | null =>
+    region.locationSet?.pins.length ? region.locationSet.pins : mapProvider.fixedLocations ?? null;
+
+// Appended to reveal announcements
+const describeTrivia = (trivia: LocationTrivia | null): string => trivia ? ` ${trivia.title}. ${trivia.text}` : '';
+
+const TriviaNote: React.FC<{ trivia: LocationTrivia }> = ({ trivia }) => (
+    <div className="mt-3 pt-3 border-t border-current text-left max-w-sm">
+        <p className="font-semibold">{trivia.title}</p>
+        <p className="text-sm">{trivia.text}</p>
+    </div>
+);
 
 const App: React.FC = () => {
-    const [position, setPosition] = useState<google.maps.LatLngLiteral | null>(null);
-    const [guessPosition, setGuessPosition] = useState<google.maps.LatLngLiteral | null>(null);
-    const [score, setScore] = useState<number>(0);
-    const [gameStarted, setGameStarted] = useState<boolean>(false);
+    const [region, setRegion] = useState<Region>(startingRegion);
+    const [panoramaFilter, setPanoramaFilter] = useState<PanoramaFilter>(loadPanoramaFilter);
+    const [packSelection, setPackSelection] = useState<PackSelection>(loadPackSelection);
+    const [position, setPosition] = useState<LatLng | null>(null);
+    const [panoId, setPanoId] = useState<string | null>(null);
+    const [guessPosition, setGuessPosition] = useState<LatLng | null>(null);
+    const [gameSettings, setGameSettings] = useState<GameSettings>(loadGameSettings);
+    const [accessibility, setAccessibility] = useState<AccessibilitySettings>(loadAccessibilitySettings);
+    const [session, setSession] = useState<GameSession | null>(null);
+    const [challenge, setChallenge] = useState<Challenge | null>(null);
+    const [showStats, setShowStats] = useState<boolean>(false);
+    const [showLeaderboard, setShowLeaderboard] = useState<boolean>(false);
+    const [showAchievements, setShowAchievements] = useState<boolean>(false);
+    // Badges unlocked this session that are still showing a toast
+    const [unlockedToasts, setUnlockedToasts] = useState<AchievementRule[]>([]);
+    // Location set open in the editor
+    const [editingSet, setEditingSet] = useState<LocationSet | null>(null);
+    // Server-side scoring for the leaderboards, when this game is ranked
+    const rankedRef = useRef<RankedGame | null>(null);
+    const [flow, dispatchFlow] = useReducer(roundFlowReducer, initialRoundFlow);
+    const gameStarted = flow.phase !== 'idle';
+    const isLoadingRound = flow.phase === 'loading';
+    const showStreetView = flow.phase === 'loading' || flow.phase === 'viewing';
+    const mapVisible = flow.phase === 'guessing' || flow.phase === 'revealed';
+    const roundComplete = flow.phase === 'revealed' || flow.phase === 'summary';
+    const showAnswer = flow.phase === 'revealed';
+    const showSummary = flow.phase === 'summary';
+    const timeLeft = secondsLeft(flow);
     const [isLoaded, setIsLoaded] = useState<boolean>(false);
     const [error, setError] = useState<string | null>(null);
-    const [countdown, setCountdown] = useState<number>(10);
-    const [showStreetView, setShowStreetView] = useState<boolean>(true);
-    const [roundComplete, setRoundComplete] = useState<boolean>(false);
-    const [mapVisible, setMapVisible] = useState<boolean>(false);
-    const [showAnswer, setShowAnswer] = useState<boolean>(false);
-    const [showCongrats, setShowCongrats] = useState<boolean>(false);
-    const [showFailed, setShowFailed] = useState<boolean>(false);
+    const [roundScore, setRoundScore] = useState<ScoreBreakdown | null>(null);
+    const [resultCopy, setResultCopy] = useState<ResultCopy | null>(null);
+    const [guessedCommunity, setGuessedCommunity] = useState<Community | null>(null);
+    // About the current location, when it came from a location pack
+    const [trivia, setTrivia] = useState<LocationTrivia | null>(null);
+    // Metres walked from the starting panorama in Moving games
+    const [travelled, setTravelled] = useState<number>(0);
+    const travelledRef = useRef<number>(0);
+    const lastPanoPositionRef = useRef<LatLng | null>(null);
     const [distance, setDistance] = useState<number>(0);
+    // Battle royale rounds are judged by their threshold rather than the success radius
+    const showCongrats = showAnswer && roundScore !== null && (session && session.settings.lives !== null
+        ? !costsLife(distance, session.rounds.length - 1)
+        : roundScore.isSuccess);
+    const showFailed = showAnswer && !showCongrats;
     const [showLine, setShowLine] = useState<boolean>(false);
-    const [linePath, setLinePath] = useState<google.maps.LatLngLiteral[]>([]);
-    const panoramaRef = useRef<google.maps.StreetViewPanorama | null>(null);
-    const countdownRef = useRef<number | null>(null);
-    const mapRef = useRef<google.maps.Map | null>(null);
-    const answerTimeoutRef = useRef<number | null>(null);
-    const lineRef = useRef<google.maps.Polyline | null>(null);
+    const [linePath, setLinePath] = useState<LatLng[]>([]);
+    const panoramaRef = useRef<PanoramaView | null>(null);
+    const locationPoolRef = useRef<LocationSource | null>(null);
+    // Where the current game's rounds come from: the pool, or a seeded sequence
+    const roundSourceRef = useRef<LocationSource | null>(null);
+    const roundIdRef = useRef<number>(0);
     const [mapKey, setMapKey] = useState<number>(0);
-    const [showHint, setShowHint] = useState<boolean>(false);
-    const [hintText, setHintText] = useState<string>('');
-    const [hintUsed, setHintUsed] = useState<boolean>(false);
-    const [isRateLimited, setIsRateLimited] = useState<boolean>(false);
-    const [rateLimitMessage, setRateLimitMessage] = useState<string>('');
-    const lastApiCallRef = useRef<number>(0);
-    const apiCallCountRef = useRef<number>(0);
-    const rateLimitResetTimeoutRef = useRef<number | null>(null);
-
-    // Constants for rate limiting
-    const RATE_LIMIT_WINDOW = 60000; // 1 minute in milliseconds
-    const MAX_API_CALLS = 10; // Maximum API calls per minute
-    const RATE_LIMIT_DURATION = 300000; // 5 minutes in milliseconds
-
-    // Add geocoder service
-    const geocoder = useRef<google.maps.Geocoder | null>(null);
-
-    // Debug API key
+    // Points the guess map should bring into view, e.g. the answer and guesses
+    const [mapFocus, setMapFocus] = useState<LatLng[] | null>(null);
+    // Hints taken this round, from the vaguest up
+    const [hints, setHints] = useState<Hint[]>([]);
+    const [hintMessage, setHintMessage] = useState<string | null>(null);
+    const hintTiers = hints.map(hint => hint.tier);
+    const hintUsed = hints.length > 0;
+    // Milliseconds until each API's quota allows another request
+    const [waits, setWaits] = useState<Record<QuotaApi, number>>(() => quotaWaits(quota));
+    const playBlockedFor = Math.max(waits.streetView, waits.mapLoad);
+    const [playerNames, setPlayerNames] = useState<string[]>(loadPlayerNames);
+    // Hot-seat: turns taken so far this round, in player order
+    const [turns, setTurns] = useState<PlayerTurn[]>([]);
+    // Every player starts facing the same way
+    const startPovRef = useRef<PanoramaPov | null>(null);
+    // Preferred starting direction of the next panorama, if it has one
+    const startHeadingRef = useRef<number | null>(null);
+    // Online party room, while in one
+    const partyRef = useRef<PartyClient | null>(null);
+    // Set while this client hosts the room: new locations go to the server
+    // rather than straight to the panorama
+    const partyHostRef = useRef<PartyClient | null>(null);
+    const partyHandlerRef = useRef<(event: PartyEvent) => void>(() => undefined);
+    const [partyRoom, setPartyRoom] = useState<PartyRoomState | null>(null);
+    const [partyPlayerId, setPartyPlayerId] = useState<string | null>(null);
+    const [partyMessage, setPartyMessage] = useState<string | null>(null);
+    // Local time at which the server reveals the current round
+    const [partyDeadline, setPartyDeadline] = useState<number | null>(null);
+    const partyTimeLeft = partyDeadline === null ? null : Math.max(0, Math.ceil((partyDeadline - Date.now()) / 1000));
+    // This player's seat in the party, for battle royale lives
+    const ownPlayerIndex = partyRoom ? partyRoom.players.findIndex(player => player.id === partyPlayerId) : 0;
+    // Locked in this round, or knocked out of a battle royale
+    const partyLocked = partyRoom !== null && partyPlayerId !== null && (
+        partyRoom.locked.includes(partyPlayerId)
+        || partyRoom.players.some(player => player.id === partyPlayerId && player.lives === 0)
+    );
+    // Crosshair moved with the arrow keys while guessing
+    const [keyboardCursor, setKeyboardCursor] = useState<LatLng | null>(null);
+    // Read out by screen readers through the live region
+    const [announcement, setAnnouncement] = useState<string>('');
+    const keyHandlerRef = useRef<(event: KeyboardEvent) => void>(() => undefined);
+    // Controls that take focus as the round moves between phases
+    const goToMapRef = useRef<HTMLButtonElement | null>(null);
+    const guessMapRef = useRef<HTMLDivElement | null>(null);
+    const nextRoundRef = useRef<HTMLButtonElement | null>(null);
+    const handoffRef = useRef<HTMLButtonElement | null>(null);
+    const resumeRef = useRef<HTMLButtonElement | null>(null);
+
+    // Pick up a challenge link (/c/<token>) on first load
     useEffect(() => {
-        const apiKey = import.meta.env.VITE_GOOGLE_MAPS_API_KEY || 'YOUR_DEVELOPMENT_API_KEY';
-        if (!apiKey) {
-            setError('Configuration error. Please contact support.');
+        const token = readChallengeToken(window.location.pathname);
+        if (!token) {
+            return;
+        }
+        const decoded = decodeChallenge(token);
+        if (decoded && deserializeRegion(decoded.region)) {
+            setChallenge(decoded);
+        } else {
+            setError('This challenge link is invalid or has been modified.');
+            window.history.replaceState(null, '', '/');
         }
     }, []);
 
-    const generateRandomLocation = useCallback(() => {
-        const lat = CALGARY_BOUNDS.south + Math.random() * (CALGARY_BOUNDS.north - CALGARY_BOUNDS.south);
-        const lng = CALGARY_BOUNDS.west + Math.random() * (CALGARY_BOUNDS.east - CALGARY_BOUNDS.west);
-        return { lat, lng };
+    // Keep the quota countdowns fresh, re-rendering only when a whole second changes
+    useEffect(() => {
+        const refresh = () => setWaits(prev => {
+            const next = quotaWaits(quota);
+            return QUOTA_APIS.every(api => Math.ceil(prev[api] / 1000) === Math.ceil(next[api] / 1000)) ? prev : next;
+        });
+        const unsubscribe = quota.subscribe(refresh);
+        const interval = window.setInterval(refresh, 1000);
+        return () => {
+            unsubscribe();
+            clearInterval(interval);
+        };
     }, []);
 
-    const checkRateLimit = useCallback(() => {
-        const now = Date.now();
-        const timeSinceLastCall = now - lastApiCallRef.current;
+    // Clear everything left over from the previous round
+    const clearRound = useCallback(() => {
+        // Clear the line first and ensure it's completely removed
+        setShowLine(false);
+        setLinePath([]);
+
+        // Force a complete map re-render
+        setMapKey(prev => prev + 1);
+        setMapFocus(null);
 
-        // Reset count if window has passed
-        if (timeSinceLastCall > RATE_LIMIT_WINDOW) {
-            apiCallCountRef.current = 0;
+        // Then update other states
+        dispatchFlow({ type: 'load' });
+        setGuessPosition(null);
+        setError(null);
+        setDistance(0);
+        setRoundScore(null);
+        setResultCopy(null);
+        setGuessedCommunity(null);
+        setTrivia(null);
+        setTravelled(0);
+        travelledRef.current = 0;
+        lastPanoPositionRef.current = null;
+        setHints([]);
+        setHintMessage(null);
+        setTurns([]);
+        setKeyboardCursor(null);
+    }, []);
+
+    const startNewRound = useCallback(async () => {
+        const roundSource = roundSourceRef.current;
+        if (!roundSource) {
+            return;
         }
+        clearRound();
 
-        // Check if we're over the limit
-        if (apiCallCountRef.current >= MAX_API_CALLS) {
-            setIsRateLimited(true);
-            setRateLimitMessage('Rate limit reached. Please wait a few minutes before trying again.');
+        // Usually resolves straight away from the prefetched pool
+        const roundId = ++roundIdRef.current;
+        let location;
+        try {
+            // Each round remounts the guess map, which is billed as a map load
+            await quota.whenAvailable('mapLoad');
+            location = await roundSource.next();
+        } catch (error) {
+            if (roundId !== roundIdRef.current) {
+                return;
+            }
+            console.error('Failed to load round location:', error);
+            setError('Unable to load the next location. Skip to try again.');
+            return;
+        }
+        if (roundId !== roundIdRef.current) {
+            // A newer round was started while we were waiting
+            return;
+        }
+        if (partyHostRef.current) {
+            // Everyone starts together once the server sends the round back
+            partyHostRef.current.send({ type: 'next', location });
+            return;
+        }
+        console.log('Starting new round with position:', location.position);
+        setPosition(location.position);
+        setTrivia(location.trivia ?? null);
+        startHeadingRef.current = location.heading ?? null;
+        setPanoId(location.pano);
+        dispatchFlow({ type: 'loaded' });
+    }, [clearRound]);
 
-            // Set timeout to reset rate limit
-            if (rateLimitResetTimeoutRef.current) {
-                clearTimeout(rateLimitResetTimeoutRef.current);
+    const movement = session?.settings.movement ?? DEFAULT_MOVEMENT;
+    const difficulty = session?.settings.difficulty ?? DEFAULT_DIFFICULTY;
+    // Easier games show the guess map in a corner while looking around
+    const mapPeeking = flow.phase === 'viewing' && difficulty.mapWhileViewing;
+    const players = session?.players ?? null;
+    const inParty = session?.mode === 'party';
+    // Whose turn it is in a hot-seat game; null once everyone has guessed
+    const currentPlayer = players && session?.mode === 'hotseat' && turns.length < players.length ? players[turns.length] : null;
+
+    const communitySet = region.communities ? getCommunitySet(region.communities, region.area) : null;
+    const answerCommunity = session?.mode === 'community' && communitySet && position
+        ? findCommunity(communitySet, position)
+        : null;
+    const communityOptions = useMemo(
+        () => communitySet && answerCommunity ? communityChoices(communitySet, answerCommunity.id) : [],
+        [communitySet, answerCommunity]
+    );
+
+    // Swap the game's location source, disposing any game-specific one
+    const setRoundSource = (source: LocationSource | null) => {
+        const previous = roundSourceRef.current;
+        if (previous && previous !== locationPoolRef.current) {
+            previous.dispose?.();
+        }
+        roundSourceRef.current = source;
+    };
+
+    // Same rounds for everyone with the seed: seeded pin order for fixed pins, seeded sampling otherwise
+    const seededSource = (seedRegion: Region, seed: string): LocationSource => {
+        const pins = fixedPins(seedRegion);
+        return pins
+            ? createPinLocationSource(pins, createSeededRandom(seed))
+            : createSeededLocationSource({
+                lookup: mapProvider.createLookup(),
+                sampler: getRegionSampler(seedRegion),
+                random: createSeededRandom(seed),
+            });
+    };
+
+    // Ranked games play the seed the server picked their rounds from, so no
+    // pack rounds are mixed in. `fallback` only plays if the server never
+    // starts the game.
+    const rankedSource = (game: GameSession, fallback: LocationSource | null): LocationSource | null => {
+        // Demo panoramas aren't Street View, so those games stay off the leaderboards
+        const ranked = isDemoMode ? null : startRankedGame(game, region);
+        rankedRef.current = ranked;
+        return ranked && fallback
+            ? createRankedLocationSource(ranked, seed => seededSource(region, seed), fallback)
+            : null;
+    };
+
+    // Mixes rounds from the selected location packs into a random source.
+    // Demo panoramas can't stand in for pack locations, so demo games skip them.
+    const withPacks = (source: LocationSource | null): LocationSource | null => {
+        const packs = selectedPacks(region, packSelection);
+        if (!source || isDemoMode || packs.length === 0) {
+            return source;
+        }
+        return createMixedLocationSource(
+            source,
+            createPackLocationSource(packs, mapProvider.createLookup(panoramaFilter)),
+            packSelection.share
+        );
+    };
+
+    const startGame = (mode: GameMode = 'classic') => {
+        rankedRef.current = null;
+        let nextSession: GameSession;
+        if (mode === 'daily') {
+            const date = dailyDate();
+            const key = regionKey(region);
+            if (hasPlayedDaily(date, key)) {
+                return;
+            }
+            const seed = dailySeed(date, key);
+            startDailyAttempt(date, key);
+            nextSession = createSession(region, DAILY_SETTINGS, { mode, seed });
+            const source = seededSource(region, seed);
+            setRoundSource(rankedSource(nextSession, source) ?? source);
+        } else if (mode === 'challenge') {
+            const challengeRegion = challenge && deserializeRegion(challenge.region);
+            if (!challenge || !challengeRegion) {
+                return;
             }
-            rateLimitResetTimeoutRef.current = window.setTimeout(() => {
-                setIsRateLimited(false);
-                setRateLimitMessage('');
-                apiCallCountRef.current = 0;
-            }, RATE_LIMIT_DURATION);
+            // Play in the challenge's region without changing the saved preference
+            setRegion(challengeRegion);
+            setRoundSource(challenge.seed
+                ? seededSource(challengeRegion, challenge.seed)
+                : createFixedLocationSource(challenge.locations ?? []));
+            nextSession = createSession(challengeRegion, challenge.settings, { mode, seed: challenge.seed });
+        } else if (mode === 'community') {
+            if (!communitySet) {
+                return;
+            }
+            // Only sample where there is a community to name
+            const sampler = createSampler(communitySet.area);
+            const pins = fixedPins(region)?.filter(pin => sampler.contains(pin.position));
+            setRoundSource(pins?.length ? createPinLocationSource(pins) : createLocationPool({
+                cacheKey: `${regionKey(region)}:communities`,
+                lookup: mapProvider.createLookup(panoramaFilter),
+                sample: () => sampler.sample(),
+                contains: sampler.contains,
+                accepts: (location) => passesPanoramaFilter(location, panoramaFilter),
+            }));
+            nextSession = createSession(region, gameSettings, { mode });
+        } else if (mode === 'elimination') {
+            setRoundSource(withPacks(locationPoolRef.current));
+            nextSession = createSession(region, eliminationSettings(gameSettings), { mode });
+        } else if (mode === 'hotseat') {
+            setRoundSource(withPacks(locationPoolRef.current));
+            nextSession = createSession(region, gameSettings, { mode, players: createPlayers(playerNames) });
+        } else {
+            nextSession = createSession(region, gameSettings);
+            setRoundSource(rankedSource(nextSession, locationPoolRef.current) ?? withPacks(locationPoolRef.current));
+        }
+        setSession(nextSession);
+        dispatchFlow({ type: 'start', timers: nextSession.settings.timers, passAndPlay: mode === 'hotseat' });
+        startNewRound();
+    };
 
-            return true;
+    // Either move on to the next round or end the game once every round is played
+    const advanceRound = useCallback((currentSession: GameSession) => {
+        if (isSessionComplete(currentSession)) {
+            const daily = currentSession.mode === 'daily' && currentSession.seed ? parseDailySeed(currentSession.seed) : null;
+            if (daily) {
+                finishDailyAttempt(daily.date, daily.regionKey, sessionTotal(currentSession));
+            }
+            dispatchFlow({ type: 'finish' });
+        } else {
+            startNewRound();
         }
+    }, [startNewRound]);
 
-        // Update counters
-        apiCallCountRef.current++;
-        lastApiCallRef.current = now;
-        return false;
-    }, []);
+    // Persist each round as it is played, and the game once it's over
+    const recordRound = (updatedSession: GameSession) => {
+        setSession(updatedSession);
+        const note = describeEliminationRound(updatedSession, Math.max(0, ownPlayerIndex));
+        if (note) {
+            setAnnouncement(prev => `${prev} ${note}`);
+        }
+        // Multiplayer games are shared between players, so they stay out of personal history
+        if (updatedSession.players) {
+            return;
+        }
+        saveRound(updatedSession, updatedSession.rounds.length - 1)
+            .catch(error => console.error('Failed to save round:', error));
+        if (isSessionComplete(updatedSession)) {
+            saveGame(updatedSession).catch(error => console.error('Failed to save game:', error));
+        }
+        const unlocked = recordAchievements(updatedSession);
+        if (unlocked.length > 0) {
+            setUnlockedToasts(prev => [...prev, ...unlocked]);
+            // Follows the round's result in the live region
+            setAnnouncement(prev => `${prev} ${unlocked.map(rule => `Achievement unlocked: ${rule.title}.`).join(' ')}`);
+        }
+    };
 
-    const startNewRound = useCallback(() => {
-        if (isRateLimited) {
+    const skipRound = () => {
+        // While loading, skipping only retries a location that failed to load.
+        // Party rounds end on the server's clock.
+        if (!session || (isLoadingRound && !error) || inParty) {
+            return;
+        }
+        const inRound = flow.phase === 'viewing' || flow.phase === 'guessing' || (players !== null && flow.phase === 'handoff');
+        if (!inRound || !position || !panoId) {
+            advanceRound(session);
+            return;
+        }
+        if (players) {
+            // Everyone still to play scores nothing
+            finishHotseatRound(turns, false);
             return;
         }
+        // Skipped rounds still count towards the game length
+        rankedRef.current?.guess(null, hintTiers);
+        const updatedSession = addRound(session, {
+            pano: panoId,
+            actual: position,
+            guess: null,
+            distance: null,
+            points: 0,
+            timeTaken: flow.roundElapsed,
+            hintUsed,
+            hints: hintTiers,
+            movement,
+            travelled: movement === 'moving' ? travelledRef.current : undefined,
+            community: answerCommunity ? {
+                answerId: answerCommunity.id,
+                answerName: answerCommunity.name,
+                guessId: null,
+                guessName: null,
+                result: 'miss',
+            } : undefined,
+        });
+        recordRound(updatedSession);
+        advanceRound(updatedSession);
+    };
+
+    const returnToStart = () => {
+        if (challenge) {
+            setChallenge(null);
+            setRegion(startingRegion());
+            window.history.replaceState(null, '', '/');
+        }
+        leaveParty();
+        rankedRef.current = null;
+        setSession(null);
+        dispatchFlow({ type: 'reset' });
+    };
+
+    const handleGameSettingsChange = (nextSettings: GameSettings) => {
+        setGameSettings(nextSettings);
+        saveGameSettings(nextSettings);
+    };
+
+    const handleAccessibilityChange = (nextSettings: AccessibilitySettings) => {
+        setAccessibility(nextSettings);
+        saveAccessibilitySettings(nextSettings);
+    };
 
-        if (checkRateLimit()) {
+    // Clicks place (or move) the pin; the guess is only made on submit
+    const handleMapClick = (guess: LatLng) => {
+        if (flow.phase !== 'guessing' || flow.paused || partyLocked) {
             return;
         }
+        if (session?.mode === 'community' && communitySet) {
+            // Clicks outside every community don't count as a guess
+            const community = findCommunity(communitySet, guess);
+            if (community) {
+                setGuessPosition(guess);
+                setGuessedCommunity(community);
+            }
+            return;
+        }
+        setGuessPosition(guess);
+    };
 
-        // Clear the line first and ensure it's completely removed
-        setShowLine(false);
-        setLinePath([]);
+    const submitGuess = (guess: LatLng, community: Community | null = null) => {
+        if (!session || flow.phase !== 'guessing' || flow.paused) {
+            return;
+        }
+        if (inParty) {
+            // Locked in; the server scores it when the round ends
+            partyRef.current?.send({ type: 'guess', guess });
+            return;
+        }
 
-        // Force a complete map re-render
-        setMapKey(prev => prev + 1);
+        revealRound(guess, community);
+    };
 
-        const newPosition = generateRandomLocation();
-        console.log('Starting new round with position:', newPosition);
+    // Score the round and show the answer. A null guess (the guess timer ran
+    // out before a pin was placed) scores nothing.
+    const revealRound = (guess: LatLng | null, community: Community | null) => {
+        if (!session || !position) {
+            return;
+        }
 
-        // Then update other states
-        setPosition(newPosition);
-        setGuessPosition(null);
-        setGameStarted(true);
-        setError(null);
-        setCountdown(10);
-        setShowStreetView(true);
-        setMapVisible(false);
-        setRoundComplete(false);
-        setShowAnswer(false);
-        setShowCongrats(false);
-        setShowFailed(false);
-        setDistance(0);
-        setShowHint(false);
-        setHintText('');
-        setHintUsed(false);
-
-        // Clear any existing timeouts
-        if (countdownRef.current) {
-            clearInterval(countdownRef.current);
-        }
-        if (answerTimeoutRef.current) {
-            clearTimeout(answerTimeoutRef.current);
-        }
-
-        // Start new countdown
-        countdownRef.current = setInterval(() => {
-            setCountdown((prev) => {
-                if (prev <= 1) {
-                    clearInterval(countdownRef.current!);
-                    setShowStreetView(false);
-                    setMapVisible(true);
-                    return 0;
-                }
-                return prev - 1;
-            });
-        }, 1000);
-    }, [isRateLimited, checkRateLimit, generateRandomLocation]);
+        const timeTaken = flow.roundElapsed;
+        const communityResult = communitySet && answerCommunity
+            ? judgeCommunityGuess(communitySet, answerCommunity.id, community?.id ?? null)
+            : null;
+        let calculatedDistance: number | null = null;
+        let breakdown: ScoreBreakdown | null = null;
+        if (guess) {
+            calculatedDistance = mapProvider.distance(position, guess);
+            breakdown = communityResult
+                ? scoreCommunityGuess(communityResult, { timeTaken, hints: hintTiers, movement, difficulty: difficulty.preset }, session.settings.scoring)
+                : scoreRound({
+                    distance: calculatedDistance,
+                    timeTaken,
+                    hints: hintTiers,
+                    regionDiagonal: boundsDiagonal(region.bounds),
+                    movement,
+                    difficulty: difficulty.preset,
+                }, session.settings.scoring);
+        }
 
-    const handleMapClick = (e: google.maps.MapMouseEvent) => {
-        if (!gameStarted || showStreetView || roundComplete || isRateLimited) {
+        if (players && session.mode === 'hotseat') {
+            const nextTurns = [...turns, {
+                player: turns.length,
+                guess,
+                distance: calculatedDistance,
+                points: breakdown?.total ?? 0,
+                timeTaken,
+                hints: hintTiers,
+            }];
+            if (nextTurns.length < players.length) {
+                // Hide this pin and hand the device to the next player
+                setTurns(nextTurns);
+                setAnnouncement(`Pass to ${players[nextTurns.length].name}.`);
+                resetTurn();
+                dispatchFlow({ type: 'handoff' });
+            } else {
+                finishHotseatRound(nextTurns);
+            }
             return;
         }
 
-        if (checkRateLimit()) {
+        rankedRef.current?.guess(guess, hintTiers);
+
+        setGuessPosition(guess);
+        setGuessedCommunity(community);
+        setDistance(calculatedDistance ?? 0);
+        setRoundScore(breakdown);
+        const copy = !breakdown
+            ? TIMEOUT_RESULT
+            : session.settings.lives !== null && calculatedDistance !== null
+                ? describeEliminationResult(calculatedDistance, session.rounds.length)
+                : communityResult && answerCommunity
+                ? describeCommunityResult(communityResult, answerCommunity.name, session.settings.scoring)
+                : describeResult(breakdown, session.settings.scoring);
+        setResultCopy(copy);
+        setAnnouncement((breakdown && calculatedDistance !== null
+            ? `${copy.title} ${copy.message} ${formatDistance(calculatedDistance)} away, ${breakdown.total} points.`
+            : `${copy.title} ${copy.message}`) + describeTrivia(trivia));
+        recordRound(addRound(session, {
+            pano: panoId ?? '',
+            actual: position,
+            guess,
+            distance: calculatedDistance,
+            points: breakdown?.total ?? 0,
+            timeTaken,
+            hintUsed,
+            hints: hintTiers,
+            movement,
+            travelled: movement === 'moving' ? travelledRef.current : undefined,
+            community: communityResult && answerCommunity ? {
+                answerId: answerCommunity.id,
+                answerName: answerCommunity.name,
+                guessId: community?.id ?? null,
+                guessName: community?.name ?? null,
+                result: communityResult,
+            } : undefined,
+        }));
+        dispatchFlow({ type: 'reveal' });
+
+        if (!guess) {
+            setMapFocus([position]);
             return;
         }
 
-        if (e.latLng) {
-            const guess = {
-                lat: e.latLng.lat(),
-                lng: e.latLng.lng(),
-            };
-            setGuessPosition(guess);
-
-            // Calculate score based on distance
-            if (position) {
-                const calculatedDistance = google.maps.geometry.spherical.computeDistanceBetween(
-                    new google.maps.LatLng(position.lat, position.lng),
-                    new google.maps.LatLng(guess.lat, guess.lng)
-                );
-                setDistance(calculatedDistance);
-                const points = Math.max(0, 5000 - Math.floor(calculatedDistance));
-                setScore(prev => prev + points);
-
-                // Set the line path
-                setLinePath([guess, position]);
-                setShowLine(true);
-
-                // Ensure these states are set in the correct order
-                setRoundComplete(true);
-                setShowAnswer(true);
-                setShowCongrats(calculatedDistance <= 3000);
-                setShowFailed(calculatedDistance > 3000);
-
-                // Animate to show both locations
-                if (mapRef.current) {
-                    // Calculate the center point between the two locations
-                    const center = {
-                        lat: (position.lat + guess.lat) / 2,
-                        lng: (position.lng + guess.lng) / 2
-                    };
-
-                    // Create bounds to include both markers
-                    const bounds = new google.maps.LatLngBounds();
-                    bounds.extend(position);
-                    bounds.extend(guess);
-
-                    // Add padding to ensure both points are visible
-                    const padding = {
-                        top: 100,
-                        right: 100,
-                        bottom: 100,
-                        left: 100
-                    };
-
-                    // First fit bounds to show both points
-                    mapRef.current.fitBounds(bounds, padding);
-
-                    // Then pan to the center point after a short delay
-                    setTimeout(() => {
-                        if (mapRef.current) {
-                            mapRef.current.panTo(center);
-
-                            // Ensure we don't zoom in too close
-                            const listener = google.maps.event.addListener(mapRef.current, 'bounds_changed', () => {
-                                if (mapRef.current) {
-                                    const currentZoom = mapRef.current.getZoom();
-                                    if (currentZoom && currentZoom > 15) {
-                                        mapRef.current.setZoom(15);
-                                    }
-                                }
-                                google.maps.event.removeListener(listener);
-                            });
-                        }
-                    }, 100);
-                }
+        // Set the line path
+        setLinePath([guess, position]);
+        setShowLine(true);
+        setMapFocus([position, guess]);
+    };
 
-                // Start next round after 5 seconds
-                answerTimeoutRef.current = setTimeout(() => {
-                    startNewRound();
-                }, 5000);
+    // Clear the board for the next hot-seat player, back at the starting view
+    const resetTurn = () => {
+        setGuessPosition(null);
+        setKeyboardCursor(null);
+        setHints([]);
+        setHintMessage(null);
+        setTravelled(0);
+        travelledRef.current = 0;
+        lastPanoPositionRef.current = null;
+        if (panoramaRef.current && panoId) {
+            panoramaRef.current.setPano(panoId);
+            if (startPovRef.current) {
+                panoramaRef.current.setPov(startPovRef.current);
             }
         }
     };
 
-    const onMapLoad = (map: google.maps.Map) => {
-        mapRef.current = map;
-        // Set the map bounds to Calgary
-        const bounds = new google.maps.LatLngBounds(
-            { lat: calgaryBounds.south, lng: calgaryBounds.west },
-            { lat: calgaryBounds.north, lng: calgaryBounds.east }
-        );
-        map.fitBounds(bounds);
+    // Reads out a multiplayer round's results, best first
+    const announceTurns = (roundTurns: PlayerTurn[], roster: { name: string }[], roundTrivia: LocationTrivia | null) => {
+        setAnnouncement(`Round results. ${[...roundTurns].sort((a, b) => b.points - a.points).map(turn =>
+            `${roster[turn.player]?.name}: ${turn.distance === null ? 'no guess' : formatDistance(turn.distance)}, ${turn.points} points.`
+        ).join(' ')}${describeTrivia(roundTrivia)}`);
     };
 
-    useEffect(() => {
-        if (position && isLoaded) {
-            const streetViewService = new google.maps.StreetViewService();
-            streetViewService.getPanorama({ location: position, radius: 50 }, (data, status) => {
-                if (status === 'OK' && data?.location?.pano) {
-                    if (!panoramaRef.current) {
-                        const panorama = new google.maps.StreetViewPanorama(
-                            document.getElementById('street-view') as HTMLElement,
-                            {
-                                pano: data.location.pano,
-                                visible: true,
-                                addressControl: false,
-                                showRoadLabels: false,
-                                zoomControl: false,
-                                fullscreenControl: false,
-                                motionTracking: false,
-                                motionTrackingControl: false,
-                                panControl: false,
-                                scrollwheel: false,
-                                linksControl: false,
-                                enableCloseButton: false,
-                                clickToGo: false
-                            }
-                        );
-                        panoramaRef.current = panorama;
-                    } else {
-                        panoramaRef.current.setPano(data.location.pano);
+    // Score a hot-seat round once every player has had a turn, or once it's
+    // skipped. Players who didn't get a turn score nothing.
+    const finishHotseatRound = (takenTurns: PlayerTurn[], reveal: boolean = true) => {
+        if (!session || !players || !position) {
+            return;
+        }
+        const allTurns = players.map((_, index) => takenTurns[index] ?? {
+            player: index,
+            guess: null,
+            distance: null,
+            points: 0,
+            timeTaken: 0,
+            hints: [],
+        });
+        const winner = roundWinner(allTurns);
+        setTurns(allTurns);
+        setGuessPosition(null);
+        setRoundScore(null);
+        setResultCopy(null);
+        setHints([]);
+        const updatedSession = addRound(session, {
+            pano: panoId ?? '',
+            actual: position,
+            guess: winner?.guess ?? null,
+            distance: winner?.distance ?? null,
+            points: winner?.points ?? 0,
+            timeTaken: winner?.timeTaken ?? 0,
+            hintUsed: (winner?.hints.length ?? 0) > 0,
+            hints: winner?.hints ?? [],
+            movement,
+            turns: allTurns,
+        });
+        recordRound(updatedSession);
+        if (!reveal) {
+            advanceRound(updatedSession);
+            return;
+        }
+        dispatchFlow({ type: 'reveal' });
+        setMapFocus([position, ...allTurns.flatMap(turn => turn.guess ? [turn.guess] : [])]);
+        announceTurns(allTurns, players, trivia);
+    };
+
+    const joinPartyRoom = (message: { type: 'create'; name: string } | { type: 'join'; code: string; name: string }, battleRoyale: boolean = false) => {
+        leaveParty();
+        setPartyMessage(null);
+        const client = connectParty();
+        client.subscribe(event => partyHandlerRef.current(event));
+        partyRef.current = client;
+        client.send(message.type === 'create'
+            ? { ...message, region: serializeRegion(region), bounds: region.bounds, settings: battleRoyale ? eliminationSettings(gameSettings) : gameSettings }
+            : message);
+    };
+
+    const leaveParty = () => {
+        if (partyRef.current) {
+            setRegion(startingRegion());
+        }
+        partyRef.current?.close();
+        partyRef.current = null;
+        partyHostRef.current = null;
+        setPartyRoom(null);
+        setPartyPlayerId(null);
+        setPartyDeadline(null);
+    };
+
+    // Host only: fetch the first location, which starts the game for everyone
+    const startPartyGame = () => {
+        setRoundSource(withPacks(locationPoolRef.current));
+        startNewRound();
+    };
+
+    const startPartyRound = (round: PartyRound) => {
+        if (!partyRoom) {
+            return;
+        }
+        if (round.index === 0 || !session) {
+            const { settings } = partyRoom;
+            setSession(createSession(region, settings, {
+                mode: 'party',
+                players: partyRoom.players.map(({ name, color }) => ({ name, color })),
+            }));
+            // The server's clock ends the round, and only the host moves it on
+            dispatchFlow({
+                type: 'start',
+                timers: { ...settings.timers, guessTime: null, revealTime: partyHostRef.current ? settings.timers.revealTime : null },
+            });
+        }
+        clearRound();
+        dispatchFlow({ type: 'load' });
+        setPosition(null);
+        startHeadingRef.current = round.heading ?? null;
+        setPanoId(round.pano);
+        setPartyDeadline(Date.now() + round.timeLimit);
+        dispatchFlow({ type: 'loaded' });
+    };
+
+    const revealPartyRound = ({ actual, results, trivia: roundTrivia }: Extract<PartyServerMessage, { type: 'reveal' }>) => {
+        if (!session || !partyRoom) {
+            return;
+        }
+        const roundTurns: PlayerTurn[] = results.map(result => ({
+            player: partyRoom.players.findIndex(player => player.id === result.playerId),
+            guess: result.guess,
+            distance: result.distance,
+            points: result.points,
+            timeTaken: result.timeTaken,
+            hints: [],
+        }));
+        const own = results.find(result => result.playerId === partyPlayerId);
+        // Announced first so the battle royale note from recordRound follows it
+        announceTurns(roundTurns, partyRoom.players, roundTrivia ?? null);
+        setPosition(actual);
+        setTrivia(roundTrivia ?? null);
+        setTurns(roundTurns);
+        setGuessPosition(null);
+        setPartyDeadline(null);
+        recordRound(addRound(session, {
+            pano: panoId ?? '',
+            actual,
+            guess: own?.guess ?? null,
+            distance: own?.distance ?? null,
+            points: own?.points ?? 0,
+            timeTaken: own?.timeTaken ?? 0,
+            hintUsed: false,
+            hints: [],
+            movement,
+            turns: roundTurns,
+        }));
+        dispatchFlow({ type: 'reveal' });
+        setMapFocus([actual, ...roundTurns.flatMap(turn => turn.guess ? [turn.guess] : [])]);
+    };
+
+    const handlePartyEvent = (event: PartyEvent) => {
+        switch (event.type) {
+            case 'welcome':
+            case 'room': {
+                const { room } = event;
+                const playerId = event.type === 'welcome' ? event.playerId : partyPlayerId;
+                if (event.type === 'welcome') {
+                    setPartyPlayerId(event.playerId);
+                    // Play in the room's region without changing the saved preference
+                    const roomRegion = deserializeRegion(room.region);
+                    if (roomRegion) {
+                        setRegion(roomRegion);
                     }
+                }
+                // The host role moves on if the host leaves
+                partyHostRef.current = room.hostId === playerId ? partyRef.current : null;
+                setPartyRoom(room);
+                return;
+            }
+            case 'round':
+                startPartyRound(event.round);
+                return;
+            case 'reveal':
+                revealPartyRound(event);
+                return;
+            case 'error':
+                if (gameStarted) {
+                    setError(event.message);
                 } else {
-                    setError('Unable to load street view. Please try again.');
-                    startNewRound();
+                    setPartyMessage(event.message);
                 }
-            });
+                return;
+            case 'disconnected':
+                leaveParty();
+                if (gameStarted && !showSummary) {
+                    setError('Lost the connection to the party room.');
+                } else {
+                    setPartyMessage('Lost the connection to the party server.');
+                }
+                return;
         }
-    }, [position, isLoaded, startNewRound]);
+    };
+    partyHandlerRef.current = handlePartyEvent;
 
     useEffect(() => {
-        // Start a new round when the component mounts
-        startNewRound();
+        const listener = (event: KeyboardEvent) => keyHandlerRef.current(event);
+        window.addEventListener('keydown', listener);
+        return () => window.removeEventListener('keydown', listener);
+    }, []);
+
+    // Move focus to the main control of each phase, and say what to do next
+    useEffect(() => {
+        if (flow.paused) {
+            resumeRef.current?.focus();
+            return;
+        }
+        if (flow.phase === 'viewing') {
+            goToMapRef.current?.focus();
+            setAnnouncement(session
+                ? `Round ${session.rounds.length + 1}${sessionLength(session) !== null ? ` of ${sessionLength(session)}` : ''}. Look around, then press M for the map.`
+                : '');
+        } else if (flow.phase === 'guessing') {
+            guessMapRef.current?.focus();
+            setAnnouncement(session?.mode === 'community'
+                ? 'Map open. Move the pin with the arrow keys and press Enter, or press 1 to 4 to pick a community.'
+                : 'Map open. Move the pin with the arrow keys, holding Shift for bigger steps, and press Enter to guess.');
+        } else if (flow.phase === 'handoff') {
+            handoffRef.current?.focus();
+        } else if (flow.phase === 'revealed') {
+            nextRoundRef.current?.focus();
+        }
+    }, [flow.phase, flow.paused]);
+
+    // Read out the countdown as it passes each milestone
+    const countdown = timeLeft ?? partyTimeLeft;
+    useEffect(() => {
+        if (countdown !== null && COUNTDOWN_MILESTONES.includes(countdown) && (flow.phase === 'viewing' || flow.phase === 'guessing')) {
+            setAnnouncement(`${countdown} seconds left`);
+        }
+    }, [countdown]);
+
+    // Drive the round timers; pausing simply stops the ticks
+    useEffect(() => {
+        if (flow.paused || !isActivePhase(flow.phase)) {
+            return;
+        }
+        let last = Date.now();
+        const interval = window.setInterval(() => {
+            const now = Date.now();
+            dispatchFlow({ type: 'tick', elapsed: now - last });
+            last = now;
+        }, 250);
+        return () => clearInterval(interval);
+    }, [flow.phase, flow.paused]);
+
+    // Guess and reveal timers need the game to act when they run out
+    useEffect(() => {
+        if (!hasExpired(flow)) {
+            return;
+        }
+        if (flow.phase === 'guessing') {
+            // Whatever pin is on the map counts as the guess
+            revealRound(guessPosition, guessedCommunity);
+        } else if (session) {
+            advanceRound(session);
+        }
+    }, [flow]);
+
+    // Keep a pool of validated panoramas for the active region. Pin sets
+    // were checked in the editor, so their pins are dealt straight out.
+    useEffect(() => {
+        if (!isLoaded) {
+            return;
+        }
+        const pins = fixedPins(region);
+        if (pins) {
+            locationPoolRef.current = createPinLocationSource(pins);
+            return;
+        }
+        const sampler = getRegionSampler(region);
+        const pool = createLocationPool({
+            cacheKey: regionKey(region),
+            lookup: mapProvider.createLookup(panoramaFilter),
+            sample: () => sampler.sample(),
+            contains: sampler.contains,
+            // An edited set's area may no longer cover panoramas cached for it
+            accepts: (location) => sampler.contains(location.position) && passesPanoramaFilter(location, panoramaFilter),
+        });
+        locationPoolRef.current = pool;
 
-        // Cleanup timeouts on unmount
         return () => {
-            if (countdownRef.current) {
-                clearInterval(countdownRef.current);
+            pool.dispose();
+            if (locationPoolRef.current === pool) {
+                locationPoolRef.current = null;
+            }
+        };
+    }, [isLoaded, region, panoramaFilter]);
+
+    useEffect(() => {
+        if (!panoId || !isLoaded) {
+            return;
+        }
+        const pov = startHeadingRef.current === null ? randomPov() : { heading: startHeadingRef.current, pitch: 0 };
+        startPovRef.current = pov;
+        if (!panoramaRef.current) {
+            panoramaRef.current = mapProvider.createPanorama(
+                document.getElementById('street-view') as HTMLElement,
+                { pano: panoId, pov, movement }
+            );
+        } else {
+            panoramaRef.current.setMovement(movement);
+            panoramaRef.current.setPano(panoId);
+            panoramaRef.current.setPov(pov);
+        }
+
+        // Cached pano IDs can expire; drop them and quietly move on
+        const panorama = panoramaRef.current;
+        const removeErrorListener = panorama.onError((pano) => {
+            if (pano === panoId) {
+                roundSourceRef.current?.forget?.(panoId);
+                startNewRound();
             }
-            if (answerTimeoutRef.current) {
-                clearTimeout(answerTimeoutRef.current);
+        });
+        const removeMoveListener = panorama.onMove((current) => {
+            if (lastPanoPositionRef.current) {
+                travelledRef.current += haversineDistance(lastPanoPositionRef.current, current);
+                setTravelled(travelledRef.current);
             }
+            lastPanoPositionRef.current = current;
+        });
+        return () => {
+            removeErrorListener();
+            removeMoveListener();
         };
-    }, []);
+    }, [panoId, isLoaded, startNewRound, movement]);
+
+    const returnToStartPano = () => {
+        if (panoramaRef.current && panoId) {
+            // Jumping back doesn't count towards the distance walked
+            lastPanoPositionRef.current = null;
+            panoramaRef.current.setPano(panoId);
+        }
+    };
+
+    const handleRegionChange = (nextRegion: Region) => {
+        setRegion(nextRegion);
+        saveActiveRegion(nextRegion);
+        setMapKey(prev => prev + 1);
+    };
+
+    const handleSaveSet = (set: LocationSet) => {
+        saveLocationSet(set);
+        handleRegionChange(createSetRegion(set));
+        setEditingSet(null);
+    };
+
+    const handleDeleteSet = (id: string) => {
+        deleteLocationSet(id);
+        if (region.locationSet?.id === id) {
+            handleRegionChange(DEFAULT_REGION);
+        }
+        setEditingSet(null);
+    };
+
+    const handlePlayerNamesChange = (names: string[]) => {
+        setPlayerNames(names);
+        savePlayerNames(names);
+    };
+
+    const handlePanoramaFilterChange = (nextFilter: PanoramaFilter) => {
+        setPanoramaFilter(nextFilter);
+        savePanoramaFilter(nextFilter);
+    };
+
+    const handlePackSelectionChange = (nextSelection: PackSelection) => {
+        setPackSelection(nextSelection);
+        savePackSelection(nextSelection);
+    };
 
     // Add cleanup effect
     useEffect(() => {
@@ -341,112 +1004,391 @@ const App: React.FC = () => {
         }
     }, [roundComplete]);
 
-    // Function to get quadrant from coordinates
-    const getQuadrant = (lat: number, lng: number): string => {
-        const centerLat = (CALGARY_BOUNDS.north + CALGARY_BOUNDS.south) / 2;
-        const centerLng = (CALGARY_BOUNDS.east + CALGARY_BOUNDS.west) / 2;
+    // The community tier would give the answer away in "Guess the community"
+    const nextHint = position
+        ? nextHintTier(region, position, hintTiers, session?.mode === 'community' ? ['community'] : [])
+        : null;
 
-        if (lat > centerLat && lng > centerLng) return "Northeast";
-        if (lat > centerLat && lng < centerLng) return "Northwest";
-        if (lat < centerLat && lng > centerLng) return "Southeast";
-        return "Southwest";
-    };
-
-    // Function to get address hint
-    const getAddressHint = useCallback(async (position: google.maps.LatLngLiteral) => {
-        if (isRateLimited) {
+    // Climb one rung of the hint ladder. Only the street tier calls an API; it
+    // isn't charged for if the lookup fails.
+    const takeHint = useCallback(async () => {
+        if (!position || !nextHint) {
             return;
         }
+        setHintMessage(null);
 
-        if (checkRateLimit()) {
+        const offline = resolveOfflineHint(region, nextHint, position);
+        if (offline) {
+            setHints(prev => [...prev, { tier: nextHint, text: offline }]);
+            setAnnouncement(`${hintLabel(nextHint)}: ${offline}`);
             return;
         }
 
-        if (!geocoder.current) {
-            geocoder.current = new google.maps.Geocoder();
+        // Only Google's Geocoder is billed; the demo provider looks streets up locally
+        if (mapProvider.id === 'google' && !quota.tryConsume('geocoding')) {
+            setHintMessage(`Street hints are rate limited; try again in ${formatWait(quota.waitTime('geocoding'))}.`);
+            return;
         }
 
         try {
-            const result = await geocoder.current.geocode({ location: position });
-            if (result.results[0]) {
-                const address = result.results[0].formatted_address;
-                const quadrant = getQuadrant(position.lat, position.lng);
-
-                // Extract just the street address (first line of the address)
-                const streetAddress = address.split(',')[0];
-                setHintText(`Near ${streetAddress} ${quadrant}`);
+            const street = await mapProvider.streetName(position);
+            if (!street) {
+                throw new Error('No street found');
             }
+            const text = formatStreetHint(region, position, street);
+            setHints(prev => [...prev, { tier: nextHint, text }]);
+            setAnnouncement(`${hintLabel(nextHint)}: ${text}`);
         } catch (error) {
-            const quadrant = getQuadrant(position.lat, position.lng);
-            setHintText(`Location is in ${quadrant} Calgary`);
+            console.warn('Street hint lookup failed:', error);
+            setHintMessage("Couldn't look up the street name, so no points were taken.");
         }
-    }, [isRateLimited, checkRateLimit]);
+    }, [position, nextHint, region]);
 
-    if (!import.meta.env.VITE_GOOGLE_MAPS_API_KEY) {
-        return (
-            <div className="flex items-center justify-center h-screen bg-gray-100">
-                <div className="text-center p-8 bg-white rounded-lg shadow-lg">
-                    <h1 className="text-2xl font-bold text-red-600 mb-4">Configuration Error</h1>
-                    <p className="mb-4">Please contact support for assistance.</p>
-                </div>
-            </div>
-        );
+    // Arrow keys move the pin; letters stand in for the header buttons
+    const handleKeyDown = (event: KeyboardEvent) => {
+        const command = readKeyCommand(event);
+        if (!command || !session || flow.phase === 'summary') {
+            return;
+        }
+        const guessing = flow.phase === 'guessing' && !flow.paused && !partyLocked;
+        if (command.type === 'move') {
+            if (!guessing) {
+                return;
+            }
+            event.preventDefault();
+            const from = keyboardCursor ?? guessPosition ?? regionCenter(region);
+            const next = movePin(from, command.direction, command.coarse, region.bounds, region.restriction);
+            setKeyboardCursor(next);
+            handleMapClick(next);
+            setMapFocus([next]);
+            const community = communitySet ? findCommunity(communitySet, next) : null;
+            setAnnouncement(community ? `Pin in ${community.name}` : `Pin ${describeOffset(next, regionCenter(region))}`);
+            return;
+        }
+        if (command.type === 'option') {
+            const option = communityOptions[command.index];
+            if (guessing && session.mode === 'community' && option) {
+                submitGuess(option.centroid, option);
+            }
+            return;
+        }
+        switch (command.action) {
+            case 'map':
+                if (flow.phase === 'viewing' && !flow.paused) {
+                    dispatchFlow({ type: 'guess' });
+                }
+                return;
+            case 'guess':
+                if (guessing && guessPosition) {
+                    event.preventDefault();
+                    submitGuess(guessPosition, guessedCommunity);
+                }
+                return;
+            case 'hint':
+                if (guessing && nextHint) {
+                    takeHint();
+                }
+                return;
+            case 'skip':
+                if (!inParty && !flow.paused) {
+                    skipRound();
+                }
+                return;
+            case 'next':
+                // Same conditions as the "Next Round" button
+                if (showAnswer && timeLeft === null && !(inParty && !partyHostRef.current && !isSessionComplete(session))) {
+                    advanceRound(session);
+                }
+                return;
+            case 'pause':
+                if (isActivePhase(flow.phase) && !inParty) {
+                    dispatchFlow({ type: flow.paused ? 'resume' : 'pause' });
+                }
+                return;
+        }
+    };
+    keyHandlerRef.current = handleKeyDown;
+
+    // Battle royale: each player's lives, and the current round's threshold
+    const livesByPlayer = session ? sessionLives(session) : null;
+    const eliminationRadius = session && livesByPlayer
+        ? eliminationThreshold(Math.max(0, session.rounds.length - (roundComplete ? 1 : 0)))
+        : null;
+    const eliminationNote = session && showAnswer ? describeEliminationRound(session, Math.max(0, ownPlayerIndex)) : null;
+    const mapAreas: MapArea[] = session?.mode === 'community' && communitySet
+        ? communitySet.communities.map((community) => {
+            const isAnswer = roundComplete && community.id === answerCommunity?.id;
+            const isWrongGuess = roundComplete && !isAnswer && community.id === guessedCommunity?.id;
+            const isPicked = !roundComplete && community.id === guessedCommunity?.id;
+            return {
+                id: community.id,
+                paths: geometryPaths(community.geometry),
+                color: isAnswer ? '#16A34A' : isWrongGuess ? '#DC2626' : '#2563EB',
+                strokeWeight: isAnswer || isWrongGuess || isPicked ? 3 : 1,
+                fillOpacity: isAnswer || isWrongGuess || isPicked ? 0.35 : 0.05,
+            };
+        })
+        : [];
+    if (eliminationRadius !== null && showAnswer && position) {
+        // Guesses outside this circle cost a life
+        mapAreas.push({
+            id: 'elimination-threshold',
+            paths: [circlePath(position, eliminationRadius)],
+            color: accessibility.highContrast ? '#000000' : '#F59E0B',
+            strokeWeight: accessibility.highContrast ? 4 : 2,
+            fillOpacity: 0.1,
+        });
+    }
+    const mapMarkers: MapMarker[] = [];
+    const mapLines: MapLine[] = [];
+    if (keyboardCursor && flow.phase === 'guessing') {
+        mapMarkers.push({ id: 'cursor', position: keyboardCursor, kind: 'cursor' });
+    }
+    if (guessPosition) {
+        // Hot-seat pins are dots in the player's colour
+        mapMarkers.push(currentPlayer
+            ? { id: 'guess', position: guessPosition, color: currentPlayer.color }
+            : { id: 'guess', position: guessPosition, kind: 'guess' });
+    }
+    if (showAnswer && players && position) {
+        turns.forEach((turn) => {
+            if (turn.guess) {
+                const { name, color } = players[turn.player];
+                mapMarkers.push({ id: `turn-${turn.player}`, position: turn.guess, color, title: name });
+                mapLines.push({ id: `turn-${turn.player}`, path: [turn.guess, position], color });
+            }
+        });
+    }
+    if (showAnswer && position) {
+        mapMarkers.push({ id: 'answer', position, kind: 'answer' });
+    }
+    if (showLine && linePath.length === 2 && !showStreetView && roundComplete) {
+        mapLines.push({ id: 'guess-line', path: linePath, color: '#FF0000', arrow: true });
     }
 
     return (
         <div className="flex flex-col h-screen">
+            <div className="sr-only" role="status" aria-live="polite">{announcement}</div>
+
+            {showLeaderboard && (
+                <LeaderboardScreen region={region} onClose={() => setShowLeaderboard(false)} />
+            )}
+
+            {showAchievements && (
+                <AchievementsScreen onClose={() => setShowAchievements(false)} />
+            )}
+
+            <AchievementToasts
+                achievements={unlockedToasts}
+                onDismiss={(id) => setUnlockedToasts(prev => prev.filter(rule => rule.id !== id))}
+                highContrast={accessibility.highContrast}
+            />
+
+            {!gameStarted && !showStats && !showLeaderboard && !showAchievements && !editingSet && partyRoom && (
+                <PartyLobby
+                    room={partyRoom}
+                    playerId={partyPlayerId}
+                    message={partyMessage}
+                    onStart={startPartyGame}
+                    onLeave={leaveParty}
+                />
+            )}
+
+            {!gameStarted && !showStats && !showLeaderboard && !showAchievements && !editingSet && !partyRoom && (
+                <StartScreen
+                    region={region}
+                    ready={isLoaded}
+                    onRegionChange={handleRegionChange}
+                    onEditSet={setEditingSet}
+                    panoramaFilter={panoramaFilter}
+                    onPanoramaFilterChange={handlePanoramaFilterChange}
+                    packSelection={packSelection}
+                    onPackSelectionChange={handlePackSelectionChange}
+                    settings={gameSettings}
+                    challenge={challenge}
+                    onShowStats={() => setShowStats(true)}
+                    onShowLeaderboard={() => setShowLeaderboard(true)}
+                    onShowAchievements={() => setShowAchievements(true)}
+                    playerNames={playerNames}
+                    onPlayerNamesChange={handlePlayerNamesChange}
+                    onCreateParty={(name, battleRoyale) => joinPartyRoom({ type: 'create', name }, battleRoyale)}
+                    onJoinParty={(code, name) => joinPartyRoom({ type: 'join', code, name })}
+                    partyMessage={partyMessage}
+                    onSettingsChange={handleGameSettingsChange}
+                    accessibility={accessibility}
+                    onAccessibilityChange={handleAccessibilityChange}
+                    onStart={startGame}
+                />
+            )}
+
             <div className="bg-blue-600 text-white p-2 fixed top-0 left-0 right-0 z-50">
-                <h1 className="text-xl font-bold">NeibourGuessr</h1>
+                <h1 className="text-xl font-bold">NeibourGuessr <span className="text-sm font-normal">{region.name}</span></h1>
                 <div className="flex justify-between items-center text-sm">
                     <div>
-                        <p>Score: {score}</p>
-                        {showStreetView && <p>Time remaining: {countdown} seconds</p>}
-                        {!showStreetView && !roundComplete && (
+                        <p>
+                            {players
+                                ? currentPlayer ? `${currentPlayer.name}'s turn` : partyRoom ? `Room ${partyRoom.code}` : 'Round results'
+                                : `Score: ${session ? sessionTotal(session) : 0}`}
+                            {session && <span> &middot; Round {Math.min(session.rounds.length + (roundComplete ? 0 : 1), sessionLength(session) ?? Infinity)}{sessionLength(session) !== null && ` / ${sessionLength(session)}`}</span>}
+                        </p>
+                        {eliminationRadius !== null && session && session.settings.lives !== null && livesByPlayer && (
+                            <p>
+                                {!players && (
+                                    <span aria-label={`${livesByPlayer[0]} lives left`}>{formatLives(livesByPlayer[0], session.settings.lives)} &middot; </span>
+                                )}
+                                Stay within {formatDistance(eliminationRadius)}
+                            </p>
+                        )}
+                        {players && session && (
+                            <p className="flex flex-wrap gap-x-3">
+                                {playerTotals(session).map((total, index) => (
+                                    <span key={index}>
+                                        <span style={{ color: players[index].color }}>●</span> {players[index].name}: {total}
+                                        {livesByPlayer && session.settings.lives !== null && (
+                                            <span aria-label={`${livesByPlayer[index]} lives`}> {formatLives(livesByPlayer[index], session.settings.lives)}</span>
+                                        )}
+                                    </span>
+                                ))}
+                            </p>
+                        )}
+                        {isLoadingRound && <p>Finding a location...</p>}
+                        {flow.phase === 'viewing' && (
                             <div className="flex items-center gap-2">
-                                <p>Click on the map to make your guess!</p>
-                                {!hintUsed && (
+                                <p>
+                                    {timeLeft === null ? 'No time limit' : `Time remaining: ${timeLeft} seconds`} &middot; {movementLabel(movement)}
+                                </p>
+                                <button
+                                    ref={goToMapRef}
+                                    onClick={() => dispatchFlow({ type: 'guess' })}
+                                    aria-keyshortcuts="M"
+                                    className="bg-white text-blue-600 px-2 py-1 rounded text-xs hover:bg-blue-100"
+                                >
+                                    Go to Map
+                                </button>
+                                {movement === 'moving' && (
+                                    <>
+                                        <p>Walked {formatDistance(travelled)}</p>
+                                        <button
+                                            onClick={returnToStartPano}
+                                            className="bg-white text-blue-600 px-2 py-1 rounded text-xs hover:bg-blue-100"
+                                        >
+                                            Return to Start
+                                        </button>
+                                    </>
+                                )}
+                            </div>
+                        )}
+                        {flow.phase === 'guessing' && (
+                            <div className="flex items-center gap-2">
+                                <p>
+                                    {(timeLeft ?? partyTimeLeft) !== null && `${timeLeft ?? partyTimeLeft}s · `}
+                                    {partyLocked && partyRoom
+                                        ? `Locked in · waiting for ${partyRoom.players.filter(player => player.connected && !partyRoom.locked.includes(player.id)).length} more`
+                                        : session?.mode === 'community'
+                                            ? 'Click the community on the map, or pick one:'
+                                            : 'Click on the map to place your pin'}
+                                </p>
+                                {!partyLocked && (
+                                    <button
+                                        onClick={() => guessPosition && submitGuess(guessPosition, guessedCommunity)}
+                                        disabled={!guessPosition}
+                                        aria-keyshortcuts="Enter"
+                                        className="bg-green-500 text-white px-2 py-1 rounded text-xs hover:bg-green-600 disabled:opacity-50"
+                                    >
+                                        {inParty ? 'Lock In Guess' : 'Guess'}
+                                    </button>
+                                )}
+                                {session?.mode === 'community' && communityOptions.map((option, index) => (
+                                    <button
+                                        key={option.id}
+                                        onClick={() => submitGuess(option.centroid, option)}
+                                        aria-keyshortcuts={String(index + 1)}
+                                        className="bg-white text-blue-600 px-2 py-1 rounded text-xs hover:bg-blue-100"
+                                    >
+                                        {option.name}
+                                    </button>
+                                ))}
+                                {nextHint && session && (
                                     <button
-                                        onClick={() => {
-                                            if (position) {
-                                                getAddressHint(position);
-                                                setShowHint(true);
-                                                setHintUsed(true);
-                                            }
-                                        }}
-                                        className="bg-yellow-500 text-white px-2 py-1 rounded text-xs hover:bg-yellow-600"
+                                        onClick={takeHint}
+                                        disabled={nextHint === 'street' && waits.geocoding > 0}
+                                        aria-keyshortcuts="H"
+                                        className="bg-yellow-500 text-white px-2 py-1 rounded text-xs hover:bg-yellow-600 disabled:opacity-50"
                                     >
-                                        Get Hint
+                                        Hint: {hintLabel(nextHint)}
+                                        {session.settings.scoring.hintPenalties[nextHint] > 0 && ` (-${session.settings.scoring.hintPenalties[nextHint]})`}
+                                        {nextHint === 'street' && waits.geocoding > 0 && ` · ${formatWait(waits.geocoding)}`}
                                     </button>
                                 )}
                             </div>
                         )}
                         {showAnswer && (
                             <div>
-                                <p>Next round starting in {Math.ceil((answerTimeoutRef.current ? 5000 - (Date.now() - (answerTimeoutRef.current - 5000)) : 0) / 1000)} seconds...</p>
-                                <p>Distance: {(distance / 1000).toFixed(2)} km</p>
+                                {timeLeft !== null ? (
+                                    <p>{session && isSessionComplete(session) ? 'Results in' : 'Next round starting in'} {timeLeft} seconds...</p>
+                                ) : inParty && !partyHostRef.current && session && !isSessionComplete(session) ? (
+                                    <p>Waiting for the host to start the next round...</p>
+                                ) : (
+                                    <button
+                                        ref={nextRoundRef}
+                                        onClick={() => session && advanceRound(session)}
+                                        aria-keyshortcuts="N"
+                                        className="bg-white text-blue-600 px-2 py-1 rounded text-xs hover:bg-blue-100"
+                                    >
+                                        {session && isSessionComplete(session) ? 'See Results' : 'Next Round'}
+                                    </button>
+                                )}
+                                {roundScore && <p>Distance: {formatDistance(distance)} &middot; {describeBreakdown(roundScore)}</p>}
                             </div>
                         )}
                     </div>
-                    <button
-                        onClick={startNewRound}
-                        className="bg-white text-blue-600 px-3 py-1 rounded hover:bg-blue-100 text-sm"
-                    >
-                        Skip to Next Round
-                    </button>
+                    <div className="flex gap-2">
+                        {isActivePhase(flow.phase) && !inParty && (
+                            <button
+                                onClick={() => dispatchFlow({ type: flow.paused ? 'resume' : 'pause' })}
+                                aria-keyshortcuts="P"
+                                className="bg-white text-blue-600 px-3 py-1 rounded hover:bg-blue-100 text-sm"
+                            >
+                                {flow.paused ? 'Resume' : 'Pause'}
+                            </button>
+                        )}
+                        {inParty ? (
+                            <button
+                                onClick={returnToStart}
+                                className="bg-white text-blue-600 px-3 py-1 rounded hover:bg-blue-100 text-sm"
+                            >
+                                Leave Room
+                            </button>
+                        ) : (
+                            <button
+                                onClick={skipRound}
+                                aria-keyshortcuts="S"
+                                className="bg-white text-blue-600 px-3 py-1 rounded hover:bg-blue-100 text-sm"
+                            >
+                                Skip to Next Round
+                            </button>
+                        )}
+                    </div>
                 </div>
-                {isRateLimited && (
-                    <div className="bg-red-500 text-white px-4 py-2 rounded mt-2">
-                        {rateLimitMessage}
+                {playBlockedFor > 0 && (
+                    <div className="bg-yellow-500 text-white px-4 py-2 rounded mt-2">
+                        {waits.streetView >= waits.mapLoad ? QUOTA_LABELS.streetView : QUOTA_LABELS.mapLoad} usage limit reached.
+                        Play resumes in {formatWait(playBlockedFor)}.
                     </div>
                 )}
             </div>
 
             {/* Add padding to account for fixed header */}
             <div className="pt-20">
-                {/* Show hint if available */}
-                {showHint && hintText && (
+                {/* Show hints taken so far */}
+                {(hints.length > 0 || hintMessage) && (
                     <div className="bg-yellow-100 border border-yellow-400 text-yellow-700 px-4 py-2 rounded relative mx-4 my-2" role="alert">
-                        <span className="block sm:inline">{hintText}</span>
+                        {hints.map(hint => (
+                            <span key={hint.tier} className="block">
+                                <span className="font-semibold">{hintLabel(hint.tier)}:</span> {hint.text}
+                            </span>
+                        ))}
+                        {hintMessage && <span className="block italic">{hintMessage}</span>}
                     </div>
                 )}
 
@@ -471,27 +1413,89 @@ const App: React.FC = () => {
                     </div>
                 )}
 
-                {showCongrats && (
-                    <div className="fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-green-500 text-white p-6 rounded-lg shadow-xl z-50 text-center">
-                        <h2 className="text-3xl font-bold mb-2">🎉 Congratulations! 🎉</h2>
-                        <p className="text-xl">You were within 3km of the location!</p>
-                        <p className="text-lg mt-2">Distance: {(distance / 1000).toFixed(2)} km</p>
+                {showCongrats && roundScore && resultCopy && (
+                    <div className={`fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 text-white p-6 rounded-lg shadow-xl z-50 text-center ${accessibility.highContrast ? 'bg-black border-4 border-green-400' : 'bg-green-500'}`}>
+                        <h2 className="text-3xl font-bold mb-2">{resultCopy.title}</h2>
+                        <p className="text-xl">{resultCopy.message}</p>
+                        <p className="text-lg mt-2">Distance: {formatDistance(distance)}</p>
+                        <p className="text-lg">{describeBreakdown(roundScore)}</p>
+                        {eliminationNote && <p className="text-lg font-semibold mt-2">{eliminationNote}</p>}
+                        {trivia && <TriviaNote trivia={trivia} />}
+                    </div>
+                )}
+
+                {showFailed && resultCopy && (
+                    <div className={`fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 text-white p-6 rounded-lg shadow-xl z-50 text-center ${accessibility.highContrast ? 'bg-black border-4 border-red-400' : 'bg-red-500'}`}>
+                        <h2 className="text-3xl font-bold mb-2">{resultCopy.title}</h2>
+                        <p className="text-xl">{resultCopy.message}</p>
+                        {roundScore && (
+                            <>
+                                <p className="text-lg mt-2">Distance: {formatDistance(distance)}</p>
+                                <p className="text-lg">{describeBreakdown(roundScore)}</p>
+                            </>
+                        )}
+                        {eliminationNote && <p className="text-lg font-semibold mt-2">{eliminationNote}</p>}
+                        {trivia && <TriviaNote trivia={trivia} />}
+                    </div>
+                )}
+
+                {showAnswer && players && (
+                    <div className={`fixed bottom-4 left-1/2 transform -translate-x-1/2 p-4 rounded-lg shadow-xl z-50 w-80 ${accessibility.highContrast ? 'bg-black text-white border-4 border-white' : 'bg-white text-gray-800'}`}>
+                        <h2 className="text-lg font-bold mb-2">Round results</h2>
+                        {[...turns].sort((a, b) => b.points - a.points).map((turn) => (
+                            <p key={turn.player} className="flex justify-between text-sm">
+                                <span>
+                                    <span style={{ color: players[turn.player].color }}>●</span> {players[turn.player].name}
+                                </span>
+                                <span>
+                                    {turn.distance === null ? 'No guess' : formatDistance(turn.distance)} &middot; {turn.points}
+                                </span>
+                            </p>
+                        ))}
+                        {eliminationNote && <p className="text-sm font-semibold mt-2">{eliminationNote}</p>}
+                        {trivia && <TriviaNote trivia={trivia} />}
                     </div>
                 )}
 
-                {showFailed && (
-                    <div className="fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-red-500 text-white p-6 rounded-lg shadow-xl z-50 text-center">
-                        <h2 className="text-3xl font-bold mb-2">❌ Try Again! ❌</h2>
-                        <p className="text-xl">You were more than 3km away from the location</p>
-                        <p className="text-lg mt-2">Distance: {(distance / 1000).toFixed(2)} km</p>
+                {flow.phase === 'handoff' && currentPlayer && (
+                    // Hides the last player's view while the device changes hands
+                    <div className="fixed inset-0 z-40 flex items-center justify-center bg-gray-900/95 text-white">
+                        <div className="text-center">
+                            <h2 className="text-3xl font-bold mb-2">
+                                Pass to <span style={{ color: currentPlayer.color }}>{currentPlayer.name}</span>
+                            </h2>
+                            <p className="mb-4 text-gray-300">Everyone else, look away!</p>
+                            <button
+                                ref={handoffRef}
+                                onClick={() => dispatchFlow({ type: 'ready' })}
+                                className="px-4 py-2 rounded font-semibold hover:opacity-90"
+                                style={{ backgroundColor: currentPlayer.color }}
+                            >
+                                I'm {currentPlayer.name}, start my turn
+                            </button>
+                        </div>
                     </div>
                 )}
 
-                <LoadScript
-                    googleMapsApiKey={import.meta.env.VITE_GOOGLE_MAPS_API_KEY}
-                    libraries={GOOGLE_MAPS_LIBRARIES}
+                {flow.paused && (
+                    // Covers the panorama and map so pausing can't be used to study them
+                    <div className="fixed inset-0 z-40 flex items-center justify-center bg-gray-900/95 text-white">
+                        <div className="text-center">
+                            <h2 className="text-3xl font-bold mb-4">Paused</h2>
+                            <button
+                                ref={resumeRef}
+                                onClick={() => dispatchFlow({ type: 'resume' })}
+                                className="bg-blue-600 px-4 py-2 rounded hover:bg-blue-700 font-semibold"
+                            >
+                                Resume
+                            </button>
+                        </div>
+                    </div>
+                )}
+
+                <mapProvider.Loader
                     onLoad={() => {
-                        console.log('Google Maps loaded successfully');
+                        console.log('Maps loaded successfully');
                         setIsLoaded(true);
                     }}
                     onError={(error) => {
@@ -499,6 +1503,37 @@ const App: React.FC = () => {
                         setError('Failed to load Google Maps. Please check your API key and console for details.');
                     }}
                 >
+                    {showStats && (
+                        <StatsScreen region={region} onClose={() => setShowStats(false)} />
+                    )}
+
+                    {editingSet && isLoaded && (
+                        <LocationSetEditor
+                            set={editingSet}
+                            region={region}
+                            onSave={handleSaveSet}
+                            onDelete={loadLocationSets().some(set => set.id === editingSet.id) ? handleDeleteSet : undefined}
+                            onClose={() => setEditingSet(null)}
+                        />
+                    )}
+
+                    {showSummary && session && players && (
+                        <PodiumScreen session={session} onPlayAgain={returnToStart} />
+                    )}
+
+                    {showSummary && session && !players && (
+                        <SummaryScreen
+                            session={session}
+                            maxRoundPoints={maxRoundPoints(session.settings.scoring, session.settings.movement, session.settings.difficulty.preset)}
+                            challenge={session.mode === 'challenge' ? challenge : null}
+                            createChallengeLink={(senderName) => challengeUrl(encodeChallenge(
+                                challengeFromSession(session, serializeRegion(region), senderName)
+                            ))}
+                            ranked={rankedRef.current}
+                            onPlayAgain={returnToStart}
+                        />
+                    )}
+
                     <div className="flex-1 relative" style={{ marginTop: 'auto' }}>
                         <div
                             id="street-view"
@@ -508,92 +1543,69 @@ const App: React.FC = () => {
                                 top: 0,
                                 left: 0,
                                 opacity: showStreetView ? 1 : 0,
-                                transition: 'opacity 0.5s ease-in-out',
+                                transition: accessibility.reducedMotion ? 'none' : 'opacity 0.5s ease-in-out',
                                 pointerEvents: showStreetView ? 'auto' : 'none',
                                 zIndex: showStreetView ? 1 : 0,
                                 height: 'calc(100vh - 80px)',
                                 display: showStreetView ? 'block' : 'none'
                             }}
                         />
+                        {showStreetView && movement === 'nmpz' && (
+                            // Swallows drags and clicks so the view can't be turned
+                            <div
+                                style={{
+                                    position: 'absolute',
+                                    inset: 0,
+                                    zIndex: 2,
+                                    height: 'calc(100vh - 80px)'
+                                }}
+                            />
+                        )}
 
                         <div
-                            style={{
+                            ref={guessMapRef}
+                            tabIndex={-1}
+                            role="application"
+                            aria-label="Guess map. Arrow keys move the pin, Shift for bigger steps, Enter to guess."
+                            style={mapPeeking ? {
+                                position: 'absolute',
+                                right: 16,
+                                bottom: 16,
+                                width: 320,
+                                height: 240,
+                                zIndex: 3,
+                                overflow: 'hidden',
+                                borderRadius: 8,
+                                boxShadow: '0 4px 12px rgba(0, 0, 0, 0.3)',
+                            } : {
                                 ...containerStyle,
                                 position: 'absolute',
                                 top: 0,
                                 left: 0,
                                 opacity: mapVisible ? 1 : 0,
-                                transition: 'opacity 0.5s ease-in-out',
+                                transition: accessibility.reducedMotion ? 'none' : 'opacity 0.5s ease-in-out',
                                 pointerEvents: mapVisible ? 'auto' : 'none',
                                 zIndex: mapVisible ? 1 : 0,
                                 height: 'calc(100vh - 80px)'
                             }}
                         >
-                            <GoogleMap
+                            <mapProvider.MapView
                                 key={mapKey}
-                                mapContainerStyle={{
-                                    ...containerStyle,
-                                    height: 'calc(100vh - 80px)'
-                                }}
-                                center={guessPosition || position || defaultCenter}
-                                zoom={11}
+                                height={mapPeeking ? '240px' : 'calc(100vh - 80px)'}
+                                bounds={region.restriction}
+                                restriction={region.restriction}
+                                focus={mapFocus}
+                                markers={mapMarkers}
+                                lines={mapLines}
+                                areas={mapAreas}
                                 onClick={handleMapClick}
-                                onLoad={onMapLoad}
-                                options={{
-                                    streetViewControl: false,
-                                    mapTypeControl: false,
-                                    fullscreenControl: false,
-                                    zoomControl: true,
-                                    clickableIcons: false,
-                                    gestureHandling: 'greedy',
-                                    restriction: {
-                                        latLngBounds: calgaryBounds,
-                                        strictBounds: false
-                                    },
-                                    minZoom: 9,
-                                    maxZoom: 18
-                                }}
-                            >
-                                {guessPosition && (
-                                    <Marker
-                                        position={guessPosition}
-                                        icon={{
-                                            url: 'http://maps.google.com/mapfiles/ms/icons/blue-dot.png'
-                                        }}
-                                    />
-                                )}
-                                {showAnswer && position && (
-                                    <Marker
-                                        position={position}
-                                        icon={{
-                                            url: 'http://maps.google.com/mapfiles/ms/icons/red-dot.png'
-                                        }}
-                                    />
-                                )}
-                                {showLine && linePath.length === 2 && !showStreetView && roundComplete && (
-                                    <Polyline
-                                        key={`line-${linePath[0].lat}-${linePath[0].lng}-${linePath[1].lat}-${linePath[1].lng}`}
-                                        path={linePath}
-                                        options={{
-                                            strokeColor: '#FF0000',
-                                            strokeOpacity: 0.8,
-                                            strokeWeight: 3,
-                                            geodesic: true,
-                                            icons: [{
-                                                icon: {
-                                                    path: google.maps.SymbolPath.FORWARD_CLOSED_ARROW,
-                                                    scale: 3,
-                                                    strokeColor: '#FF0000',
-                                                },
-                                                offset: '50%',
-                                            }],
-                                        }}
-                                    />
-                                )}
-                            </GoogleMap>
+                                highContrast={accessibility.highContrast}
+                                reducedMotion={accessibility.reducedMotion}
+                                appearance={difficulty}
+                            />
                         </div>
                     </div>
-                </LoadScript>
+                </mapProvider.Loader>
             </div>
         </div>
     );
@@ -0,0 +1,46 @@
+import React, { useEffect } from 'react';
+import { AchievementRule } from '../game/achievements';
+
+interface AchievementToastsProps {
+    achievements: AchievementRule[];
+    onDismiss: (id: string) => void;
+    highContrast?: boolean;
+}
+
+const TOAST_DURATION = 5000;
+
+const AchievementToast: React.FC<{ achievement: AchievementRule; onDismiss: (id: string) => void; highContrast?: boolean }> = ({
+    achievement,
+    onDismiss,
+    highContrast,
+}) => {
+    useEffect(() => {
+        const timeout = window.setTimeout(() => onDismiss(achievement.id), TOAST_DURATION);
+        return () => clearTimeout(timeout);
+    }, [achievement.id]);
+
+    return (
+        <div className={`flex items-center gap-3 p-3 rounded-lg shadow-xl w-72 ${highContrast ? 'bg-black text-white border-4 border-yellow-300' : 'bg-white text-gray-800 border border-yellow-300'}`}>
+            <span className="text-3xl" aria-hidden="true">{achievement.icon}</span>
+            <div className="flex-1">
+                <p className="text-xs uppercase tracking-wide text-yellow-600">Achievement unlocked</p>
+                <p className="font-bold">{achievement.title}</p>
+                <p className="text-sm">{achievement.description}</p>
+            </div>
+            <button onClick={() => onDismiss(achievement.id)} className="self-start text-gray-400 hover:text-gray-600" aria-label="Dismiss">
+                ×
+            </button>
+        </div>
+    );
+};
+
+// Newly unlocked badges, stacked in the corner until they time out
+const AchievementToasts: React.FC<AchievementToastsProps> = ({ achievements, onDismiss, highContrast }) => (
+    <div className="fixed top-24 right-4 z-[70] flex flex-col gap-2">
+        {achievements.map(achievement => (
+            <AchievementToast key={achievement.id} achievement={achievement} onDismiss={onDismiss} highContrast={highContrast} />
+        ))}
+    </div>
+);
+
+export default AchievementToasts;
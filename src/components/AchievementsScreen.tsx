@@ -0,0 +1,58 @@
+import React, { useMemo } from 'react';
+import { ACHIEVEMENTS, achievementProgress, loadAchievements } from '../game/achievements';
+
+interface AchievementsScreenProps {
+    onClose: () => void;
+}
+
+const AchievementsScreen: React.FC<AchievementsScreenProps> = ({ onClose }) => {
+    const state = useMemo(loadAchievements, []);
+    const unlockedCount = ACHIEVEMENTS.filter(rule => state.unlocked[rule.id]).length;
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-start justify-center bg-gray-100 overflow-y-auto py-8">
+            <div className="p-8 bg-white rounded-lg shadow-lg max-w-md w-full">
+                <div className="flex justify-between items-center mb-1">
+                    <h1 className="text-2xl font-bold text-blue-600">Badges</h1>
+                    <button onClick={onClose} className="text-blue-600 hover:underline text-sm">Back</button>
+                </div>
+                <p className="text-gray-600 mb-4">{unlockedCount} of {ACHIEVEMENTS.length} unlocked. Multiplayer games don't count.</p>
+
+                <ul className="space-y-2">
+                    {ACHIEVEMENTS.map((rule) => {
+                        const unlockedAt = state.unlocked[rule.id];
+                        const progress = unlockedAt ? null : achievementProgress(rule, state);
+                        return (
+                            <li key={rule.id} className={`flex items-center gap-3 p-3 rounded border ${unlockedAt ? 'border-yellow-300 bg-yellow-50' : 'bg-gray-50'}`}>
+                                <span className={`text-3xl ${unlockedAt ? '' : 'grayscale opacity-40'}`} aria-hidden="true">{rule.icon}</span>
+                                <div className="flex-1">
+                                    <p className="font-semibold">
+                                        {rule.title}
+                                        {!unlockedAt && <span className="sr-only"> (locked)</span>}
+                                    </p>
+                                    <p className="text-sm text-gray-600">{rule.description}</p>
+                                    {unlockedAt && (
+                                        <p className="text-xs text-gray-500">Unlocked {new Date(unlockedAt).toLocaleDateString()}</p>
+                                    )}
+                                    {progress && (
+                                        <div className="flex items-center gap-2 mt-1 text-xs text-gray-500">
+                                            <div className="flex-1 bg-gray-200 rounded h-2">
+                                                <div
+                                                    className="bg-blue-500 h-2 rounded"
+                                                    style={{ width: `${Math.min(100, (progress.current / progress.target) * 100)}%` }}
+                                                />
+                                            </div>
+                                            <span>{progress.current} / {progress.target}</span>
+                                        </div>
+                                    )}
+                                </div>
+                            </li>
+                        );
+                    })}
+                </ul>
+            </div>
+        </div>
+    );
+};
+
+export default AchievementsScreen;
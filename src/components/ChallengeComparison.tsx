@@ -0,0 +1,53 @@
+import React from 'react';
+import { Challenge } from '../game/challenge';
+import { GameSession, sessionTotal } from '../game/session';
+
+interface ChallengeComparisonProps {
+    challenge: Challenge;
+    session: GameSession;
+}
+
+const ChallengeComparison: React.FC<ChallengeComparisonProps> = ({ challenge, session }) => {
+    const total = sessionTotal(session);
+    const { name, score, roundPoints } = challenge.sender;
+    const opponent = name || 'Your friend';
+    const verdict = total > score
+        ? `You beat ${opponent} by ${total - score} points!`
+        : total < score
+            ? `${opponent} wins by ${score - total} points.`
+            : `It's a tie!`;
+
+    return (
+        <div className="mb-6 p-3 rounded border border-blue-200 bg-blue-50 text-sm">
+            <p className="font-semibold mb-2">{verdict}</p>
+            <table className="w-full">
+                <thead>
+                    <tr className="text-left text-gray-500">
+                        <th className="py-1">Round</th>
+                        <th className="py-1 text-right">You</th>
+                        <th className="py-1 text-right">{opponent}</th>
+                    </tr>
+                </thead>
+                <tbody>
+                    {session.rounds.map((round, index) => {
+                        const theirs = roundPoints[index] ?? 0;
+                        return (
+                            <tr key={index} className="border-t border-blue-100">
+                                <td className="py-1">{index + 1}</td>
+                                <td className={`py-1 text-right ${round.points > theirs ? 'font-semibold text-green-700' : ''}`}>{round.points}</td>
+                                <td className={`py-1 text-right ${theirs > round.points ? 'font-semibold text-green-700' : ''}`}>{theirs}</td>
+                            </tr>
+                        );
+                    })}
+                    <tr className="border-t border-blue-200 font-semibold">
+                        <td className="py-1">Total</td>
+                        <td className="py-1 text-right">{total}</td>
+                        <td className="py-1 text-right">{score}</td>
+                    </tr>
+                </tbody>
+            </table>
+        </div>
+    );
+};
+
+export default ChallengeComparison;
@@ -0,0 +1,60 @@
+import React, { useState } from 'react';
+
+interface ChallengeLinkProps {
+    // Builds the shareable URL for the given sender name
+    createLink: (senderName: string) => string;
+}
+
+const ChallengeLink: React.FC<ChallengeLinkProps> = ({ createLink }) => {
+    const [name, setName] = useState<string>('');
+    const [link, setLink] = useState<string | null>(null);
+    const [copied, setCopied] = useState<boolean>(false);
+
+    const handleCreate = async () => {
+        const url = createLink(name.trim());
+        setLink(url);
+        try {
+            await navigator.clipboard.writeText(url);
+            setCopied(true);
+        } catch (error) {
+            // Clipboard access can be denied; the link is still shown for manual copying
+            setCopied(false);
+        }
+    };
+
+    return (
+        <div className="mb-6 text-sm">
+            <p className="font-semibold mb-1">Challenge a friend</p>
+            <div className="flex gap-2">
+                <input
+                    type="text"
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    placeholder="Your name"
+                    maxLength={24}
+                    className="flex-1 border rounded px-2 py-1"
+                />
+                <button
+                    onClick={handleCreate}
+                    className="bg-green-600 text-white px-3 py-1 rounded hover:bg-green-700"
+                >
+                    Copy link
+                </button>
+            </div>
+            {link && (
+                <>
+                    <input
+                        type="text"
+                        readOnly
+                        value={link}
+                        onFocus={(e) => e.target.select()}
+                        className="w-full border rounded px-2 py-1 mt-2 text-xs bg-gray-50"
+                    />
+                    {copied && <p className="text-green-700 mt-1">Copied to clipboard!</p>}
+                </>
+            )}
+        </div>
+    );
+};
+
+export default ChallengeLink;
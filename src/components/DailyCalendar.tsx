@@ -0,0 +1,38 @@
+import React from 'react';
+import { DailyResult } from '../game/daily';
+
+interface DailyCalendarProps {
+    today: string;
+    results: DailyResult[];
+    // Number of days to show, ending today
+    days?: number;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const DailyCalendar: React.FC<DailyCalendarProps> = ({ today, results, days = 28 }) => {
+    const byDate = new Map(results.map(result => [result.date, result]));
+    const end = new Date(`${today}T00:00:00Z`).getTime();
+    const dates = Array.from({ length: days }, (_, i) => new Date(end - (days - 1 - i) * DAY_MS).toISOString().slice(0, 10));
+
+    return (
+        <div className="grid grid-cols-7 gap-1 text-xs">
+            {dates.map((date) => {
+                const result = byDate.get(date);
+                const played = result !== undefined;
+                return (
+                    <div
+                        key={date}
+                        title={played ? `${date}: ${result.score ?? 'not finished'}` : date}
+                        className={`rounded p-1 text-center ${date === today ? 'ring-2 ring-blue-400' : ''} ${played ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-400'}`}
+                    >
+                        <div>{Number(date.slice(8))}</div>
+                        <div className="font-semibold">{played ? result.score ?? '–' : ''}</div>
+                    </div>
+                );
+            })}
+        </div>
+    );
+};
+
+export default DailyCalendar;
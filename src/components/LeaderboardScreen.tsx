@@ -0,0 +1,131 @@
+import React, { useEffect, useState } from 'react';
+import { Region } from '../regions';
+import { LeaderboardView, fetchLeaderboard, flushPendingScores } from '../leaderboard/leaderboardClient';
+import {
+    LEADERBOARD_MODES,
+    LEADERBOARD_PERIODS,
+    LEADERBOARD_ROUNDS,
+    LeaderboardMode,
+    LeaderboardPeriod,
+    RANKED_DIFFICULTY,
+    RANKED_MOVEMENT,
+} from '../leaderboard/protocol';
+import { difficultyLabel } from '../game/difficulty';
+import { movementLabel } from '../game/movement';
+
+interface LeaderboardScreenProps {
+    region: Region;
+    onClose: () => void;
+}
+
+const tabClass = (active: boolean): string =>
+    `px-3 py-1 rounded border text-sm ${active ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-blue-600 border-blue-300 hover:bg-blue-50'}`;
+
+const LeaderboardScreen: React.FC<LeaderboardScreenProps> = ({ region, onClose }) => {
+    const [mode, setMode] = useState<LeaderboardMode>('classic');
+    const [period, setPeriod] = useState<LeaderboardPeriod>('daily');
+    const [board, setBoard] = useState<LeaderboardView | null>(null);
+    const [loading, setLoading] = useState<boolean>(false);
+    const [message, setMessage] = useState<string | null>(null);
+    const rankedRegion = region.id === 'custom' ? null : region.id;
+
+    // Scores finished while offline get another try each time the boards are opened
+    useEffect(() => {
+        flushPendingScores()
+            .then(count => count > 0 && setMessage(`Submitted ${count} score${count === 1 ? '' : 's'} saved while offline.`))
+            .catch(error => console.warn('Failed to submit saved scores:', error));
+    }, []);
+
+    useEffect(() => {
+        if (!rankedRegion) {
+            return;
+        }
+        let cancelled = false;
+        setLoading(true);
+        fetchLeaderboard(rankedRegion, mode, period)
+            .then(result => !cancelled && setBoard(result))
+            .catch((error) => {
+                console.error('Failed to load leaderboard:', error);
+                if (!cancelled) {
+                    setBoard(null);
+                }
+            })
+            .finally(() => !cancelled && setLoading(false));
+        return () => {
+            cancelled = true;
+        };
+    }, [rankedRegion, mode, period]);
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-start justify-center bg-gray-100 overflow-y-auto py-8">
+            <div className="p-8 bg-white rounded-lg shadow-lg max-w-md w-full">
+                <div className="flex justify-between items-center mb-4">
+                    <h1 className="text-2xl font-bold text-blue-600">Leaderboards &middot; {region.name}</h1>
+                    <button onClick={onClose} className="text-blue-600 hover:underline text-sm">Back</button>
+                </div>
+
+                {message && <p className="text-sm bg-green-100 border border-green-300 rounded px-2 py-1 mb-4">{message}</p>}
+
+                {!rankedRegion ? (
+                    <p className="text-gray-600">Leaderboards are only kept for the built-in regions.</p>
+                ) : (
+                    <>
+                        <div className="flex gap-2 mb-2">
+                            {LEADERBOARD_MODES.map(option => (
+                                <button key={option.id} onClick={() => setMode(option.id)} className={tabClass(mode === option.id)}>
+                                    {option.label}
+                                </button>
+                            ))}
+                        </div>
+                        <div className="flex gap-2 mb-4">
+                            {LEADERBOARD_PERIODS.map(option => (
+                                <button key={option.id} onClick={() => setPeriod(option.id)} className={tabClass(period === option.id)}>
+                                    {option.label}
+                                </button>
+                            ))}
+                        </div>
+
+                        {board && !board.live && (
+                            <p className="text-sm bg-yellow-100 border border-yellow-300 rounded px-2 py-1 mb-4">
+                                The leaderboard is offline. Showing the copy from {new Date(board.fetchedAt).toLocaleString()}.
+                            </p>
+                        )}
+
+                        {loading && !board ? (
+                            <p className="text-gray-600">Loading...</p>
+                        ) : !board ? (
+                            <p className="text-gray-600">The leaderboard is offline right now. Your games still count towards your own stats.</p>
+                        ) : board.entries.length === 0 ? (
+                            <p className="text-gray-600">No scores yet. Finish a {LEADERBOARD_ROUNDS}-round game to get on the board.</p>
+                        ) : (
+                            <table className="w-full text-sm">
+                                <thead>
+                                    <tr className="text-left text-gray-500">
+                                        <th className="py-1">#</th>
+                                        <th className="py-1">Name</th>
+                                        <th className="py-1 text-right">Score</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {board.entries.map((entry, index) => (
+                                        <tr key={entry.id} className="border-t">
+                                            <td className="py-1">{index + 1}</td>
+                                            <td className="py-1">{entry.name}</td>
+                                            <td className="py-1 text-right">{entry.score}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                    </>
+                )}
+
+                <p className="text-xs text-gray-500 mt-4">
+                    Ranked games are {LEADERBOARD_ROUNDS} rounds of {movementLabel(RANKED_MOVEMENT)} at {difficultyLabel(RANKED_DIFFICULTY)} difficulty in a built-in region, played with the default scoring rules. The server picks the locations and scores every guess itself.
+                </p>
+            </div>
+        </div>
+    );
+};
+
+export default LeaderboardScreen;
@@ -0,0 +1,363 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { LatLng } from '../geo/types';
+import { Region, createSetRegion } from '../regions';
+import {
+    LocationSet,
+    LocationSetPin,
+    MAX_SET_DESCRIPTION,
+    MAX_SET_NAME,
+    MAX_SET_PINS,
+    areaFromPath,
+    areaPath,
+    exportFileName,
+    exportLocationSet,
+    validateLocationSet,
+} from '../game/locationSets';
+import { mapProvider } from '../maps';
+import { MapMarker, PanoramaView } from '../maps/types';
+
+interface LocationSetEditorProps {
+    set: LocationSet;
+    // Where to start the map for a new set
+    region: Region;
+    onSave: (set: LocationSet) => void;
+    // Only given for sets that have been saved before
+    onDelete?: (id: string) => void;
+    onClose: () => void;
+}
+
+type EditMode = 'area' | 'pins';
+
+// Dropped pins snap to the nearest panorama within this many metres
+const PIN_RADIUS = 50;
+
+const tabClass = (active: boolean): string =>
+    `px-3 py-1 rounded border text-sm ${active ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-blue-600 border-blue-300 hover:bg-blue-50'}`;
+
+const normalizeHeading = (heading: number): number => Math.round(((heading % 360) + 360) % 360) % 360;
+
+const LocationSetEditor: React.FC<LocationSetEditorProps> = ({ set, region, onSave, onDelete, onClose }) => {
+    const [name, setName] = useState<string>(set.name);
+    const [description, setDescription] = useState<string>(set.description);
+    const [mode, setMode] = useState<EditMode>(set.pins.length > 0 ? 'pins' : 'area');
+    const [path, setPath] = useState<LatLng[]>(set.area ? areaPath(set.area) : []);
+    const [pins, setPins] = useState<LocationSetPin[]>(set.pins);
+    const [selected, setSelected] = useState<number | null>(null);
+    // Pins whose panorama couldn't be found on the last check
+    const [missing, setMissing] = useState<string[]>([]);
+    const [checking, setChecking] = useState<boolean>(false);
+    const [message, setMessage] = useState<string | null>(null);
+    const [errors, setErrors] = useState<string[]>([]);
+    const lookupRef = useRef(mapProvider.createLookup());
+    const previewRef = useRef<HTMLDivElement | null>(null);
+    const panoramaRef = useRef<PanoramaView | null>(null);
+    const selectedPin = selected === null ? null : pins[selected] ?? null;
+
+    const draft = (): LocationSet => ({
+        id: set.id,
+        name: name.trim(),
+        description: description.trim(),
+        area: mode === 'area' ? areaFromPath(path) : null,
+        pins: mode === 'pins' ? pins : [],
+        updatedAt: Date.now(),
+    });
+
+    // Street View preview of the selected pin, turned to set its starting direction
+    useEffect(() => {
+        if (!selectedPin || !previewRef.current) {
+            return;
+        }
+        const pov = { heading: selectedPin.heading ?? 0, pitch: 0 };
+        if (!panoramaRef.current) {
+            panoramaRef.current = mapProvider.createPanorama(previewRef.current, { pano: selectedPin.pano, pov, preview: true });
+        } else {
+            panoramaRef.current.setPano(selectedPin.pano);
+            panoramaRef.current.setPov(pov);
+        }
+    }, [selectedPin?.pano]);
+
+    // The preview's container unmounts with the selection
+    useEffect(() => {
+        if (!selectedPin) {
+            panoramaRef.current = null;
+        }
+    }, [selectedPin]);
+
+    const addPin = async (point: LatLng) => {
+        if (pins.length >= MAX_SET_PINS) {
+            setMessage(`Sets can have up to ${MAX_SET_PINS} pins.`);
+            return;
+        }
+        setMessage('Looking for Street View...');
+        try {
+            const result = await lookupRef.current({ location: point, radius: PIN_RADIUS });
+            if (!result) {
+                setMessage(`No Street View within ${PIN_RADIUS} m of there.`);
+                return;
+            }
+            if (pins.some(pin => pin.pano === result.pano)) {
+                setMessage('That panorama is already in the set.');
+                return;
+            }
+            setPins(prev => [...prev, { pano: result.pano, position: result.position }]);
+            setSelected(pins.length);
+            setMessage(null);
+        } catch (error) {
+            console.error('Street View lookup failed:', error);
+            setMessage('Unable to check Street View there. Try again.');
+        }
+    };
+
+    const handleMapClick = (point: LatLng) => {
+        if (mode === 'area') {
+            setPath(prev => [...prev, point]);
+        } else {
+            addPin(point);
+        }
+    };
+
+    const updatePin = (index: number, changes: Partial<LocationSetPin>) =>
+        setPins(prev => prev.map((pin, i) => i === index ? { ...pin, ...changes } : pin));
+
+    const removePin = (index: number) => {
+        setPins(prev => prev.filter((_, i) => i !== index));
+        setSelected(null);
+    };
+
+    const keepCurrentHeading = () => {
+        const pov = panoramaRef.current?.getPov();
+        if (selected !== null && pov) {
+            updatePin(selected, { heading: normalizeHeading(pov.heading) });
+        }
+    };
+
+    // Panoramas get replaced over time, so imported pins are re-resolved near where they were
+    const checkPins = async () => {
+        setChecking(true);
+        setMessage(null);
+        const stillMissing: string[] = [];
+        const checked: LocationSetPin[] = [];
+        for (const pin of pins) {
+            try {
+                const result = await lookupRef.current({ location: pin.position, radius: PIN_RADIUS });
+                if (result) {
+                    checked.push({ ...pin, pano: result.pano, position: result.position });
+                } else {
+                    stillMissing.push(pin.pano);
+                    checked.push(pin);
+                }
+            } catch (error) {
+                console.warn('Street View lookup failed:', error);
+                checked.push(pin);
+            }
+        }
+        setPins(checked);
+        setMissing(stillMissing);
+        setSelected(null);
+        setChecking(false);
+        setMessage(stillMissing.length > 0
+            ? `${stillMissing.length} pin${stillMissing.length === 1 ? ' has' : 's have'} no Street View any more.`
+            : 'Every pin has Street View.');
+    };
+
+    const handleSave = () => {
+        const candidate = draft();
+        const problems = validateLocationSet(candidate);
+        setErrors(problems);
+        if (problems.length === 0) {
+            onSave(candidate);
+        }
+    };
+
+    const handleExport = () => {
+        const candidate = draft();
+        const problems = validateLocationSet(candidate);
+        setErrors(problems);
+        if (problems.length > 0) {
+            return;
+        }
+        const blob = new Blob([exportLocationSet(candidate)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = exportFileName(candidate);
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const markers: MapMarker[] = mode === 'area'
+        ? path.map((point, index) => ({ id: `corner-${index}`, position: point, label: String(index + 1) }))
+        : pins.map((pin, index) => ({
+            id: pin.pano,
+            position: pin.position,
+            label: String(index + 1),
+            opacity: selected === null || selected === index ? 1 : 0.6,
+            onClick: () => setSelected(index),
+        }));
+
+    return (
+        <div className="fixed inset-0 z-[60] flex flex-col md:flex-row bg-gray-100">
+            <div className="md:w-96 p-6 bg-white shadow-lg overflow-y-auto text-sm">
+                <div className="flex justify-between items-center mb-4">
+                    <h1 className="text-2xl font-bold text-blue-600">{set.name || 'New location set'}</h1>
+                    <button onClick={onClose} className="text-blue-600 hover:underline">Back</button>
+                </div>
+
+                <label className="block mb-2">
+                    Name
+                    <input
+                        type="text"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        maxLength={MAX_SET_NAME}
+                        placeholder="Stampede grounds"
+                        className="block w-full border rounded px-2 py-1 mt-1"
+                    />
+                </label>
+                <label className="block mb-4">
+                    Description
+                    <textarea
+                        value={description}
+                        onChange={(e) => setDescription(e.target.value)}
+                        maxLength={MAX_SET_DESCRIPTION}
+                        rows={2}
+                        className="block w-full border rounded px-2 py-1 mt-1"
+                    />
+                </label>
+
+                <div className="flex gap-2 mb-2">
+                    <button onClick={() => setMode('area')} className={tabClass(mode === 'area')}>Draw an area</button>
+                    <button onClick={() => setMode('pins')} className={tabClass(mode === 'pins')}>Drop pins</button>
+                </div>
+
+                {mode === 'area' ? (
+                    <div className="mb-4">
+                        <p className="text-gray-600 mb-2">
+                            Click the map to add corners. Rounds are picked at random inside the area.
+                        </p>
+                        <p className="mb-2">{path.length} corner{path.length === 1 ? '' : 's'}{path.length < 3 && ' (at least 3 needed)'}</p>
+                        <div className="flex gap-2">
+                            <button
+                                onClick={() => setPath(prev => prev.slice(0, -1))}
+                                disabled={path.length === 0}
+                                className="bg-white text-blue-600 border border-blue-300 px-3 py-1 rounded hover:bg-blue-50 disabled:opacity-50"
+                            >
+                                Undo corner
+                            </button>
+                            <button
+                                onClick={() => setPath([])}
+                                disabled={path.length === 0}
+                                className="bg-white text-blue-600 border border-blue-300 px-3 py-1 rounded hover:bg-blue-50 disabled:opacity-50"
+                            >
+                                Clear
+                            </button>
+                        </div>
+                    </div>
+                ) : (
+                    <div className="mb-4">
+                        <p className="text-gray-600 mb-2">
+                            Click the map to drop a pin on the nearest Street View. Rounds are drawn from these pins.
+                        </p>
+                        <ol className="mb-2 space-y-1">
+                            {pins.map((pin, index) => (
+                                <li key={pin.pano}>
+                                    <button
+                                        onClick={() => setSelected(index)}
+                                        className={`w-full text-left px-2 py-1 rounded border ${selected === index ? 'border-blue-600 bg-blue-50' : 'border-gray-200'}`}
+                                    >
+                                        {index + 1}. {pin.label || `${pin.position.lat.toFixed(5)}, ${pin.position.lng.toFixed(5)}`}
+                                        {pin.heading !== undefined && <span className="text-gray-500"> &middot; facing {pin.heading}°</span>}
+                                        {missing.includes(pin.pano) && <span className="text-red-600"> &middot; no Street View</span>}
+                                    </button>
+                                </li>
+                            ))}
+                        </ol>
+                        {pins.length > 0 && (
+                            <button
+                                onClick={checkPins}
+                                disabled={checking}
+                                className="bg-white text-blue-600 border border-blue-300 px-3 py-1 rounded hover:bg-blue-50 disabled:opacity-50"
+                            >
+                                {checking ? 'Checking...' : 'Check Street View'}
+                            </button>
+                        )}
+                        {selectedPin && selected !== null && (
+                            <div className="mt-3 p-3 border rounded bg-gray-50">
+                                <div ref={previewRef} className="w-full h-48 mb-2" />
+                                <label className="block mb-2">
+                                    Label
+                                    <input
+                                        type="text"
+                                        value={selectedPin.label ?? ''}
+                                        onChange={(e) => updatePin(selected, { label: e.target.value || undefined })}
+                                        maxLength={MAX_SET_NAME}
+                                        placeholder="Main entrance"
+                                        className="block w-full border rounded px-2 py-1 mt-1"
+                                    />
+                                </label>
+                                <div className="flex flex-wrap gap-2">
+                                    <button onClick={keepCurrentHeading} className="bg-blue-600 text-white px-3 py-1 rounded hover:bg-blue-700">
+                                        Start facing this way
+                                    </button>
+                                    {selectedPin.heading !== undefined && (
+                                        <button
+                                            onClick={() => updatePin(selected, { heading: undefined })}
+                                            className="bg-white text-blue-600 border border-blue-300 px-3 py-1 rounded hover:bg-blue-50"
+                                        >
+                                            Random direction
+                                        </button>
+                                    )}
+                                    <button
+                                        onClick={() => removePin(selected)}
+                                        className="bg-white text-red-600 border border-red-300 px-3 py-1 rounded hover:bg-red-50"
+                                    >
+                                        Remove
+                                    </button>
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                )}
+
+                {message && <p className="bg-yellow-100 border border-yellow-300 rounded px-2 py-1 mb-4">{message}</p>}
+                {errors.length > 0 && (
+                    <ul className="bg-red-100 border border-red-300 rounded px-2 py-1 mb-4 list-disc list-inside">
+                        {errors.map(error => <li key={error}>{error}</li>)}
+                    </ul>
+                )}
+
+                <div className="flex flex-wrap gap-2">
+                    <button onClick={handleSave} className="bg-green-600 text-white px-3 py-1 rounded hover:bg-green-700">
+                        Save and Select
+                    </button>
+                    <button onClick={handleExport} className="bg-white text-blue-600 border border-blue-300 px-3 py-1 rounded hover:bg-blue-50">
+                        Export JSON
+                    </button>
+                    {onDelete && (
+                        <button
+                            onClick={() => onDelete(set.id)}
+                            className="bg-white text-red-600 border border-red-300 px-3 py-1 rounded hover:bg-red-50"
+                        >
+                            Delete
+                        </button>
+                    )}
+                </div>
+            </div>
+
+            <div className="flex-1 min-h-[300px] relative">
+                <mapProvider.MapView
+                    height="100%"
+                    bounds={set.area || set.pins.length > 0 ? createSetRegion(set).bounds : region.restriction}
+                    onClick={handleMapClick}
+                    crosshair
+                    areas={mode === 'area' && path.length > 0
+                        ? [{ id: 'area', paths: [path], color: '#2563EB', fillOpacity: 0.15, strokeWeight: 2 }]
+                        : []}
+                    markers={markers}
+                />
+            </div>
+        </div>
+    );
+};
+
+export default LocationSetEditor;
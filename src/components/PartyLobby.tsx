@@ -0,0 +1,69 @@
+import React from 'react';
+import { MIN_PARTY_PLAYERS, PartyRoomState } from '../party/protocol';
+import { deserializeRegion } from '../regions';
+import { movementLabel } from '../game/movement';
+
+interface PartyLobbyProps {
+    room: PartyRoomState;
+    playerId: string | null;
+    // Last error from the server, if any
+    message: string | null;
+    onStart: () => void;
+    onLeave: () => void;
+}
+
+const PartyLobby: React.FC<PartyLobbyProps> = ({ room, playerId, message, onStart, onLeave }) => {
+    const isHost = room.hostId === playerId;
+    const connected = room.players.filter(player => player.connected);
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-start justify-center bg-gray-100 overflow-y-auto py-8">
+            <div className="p-8 bg-white rounded-lg shadow-lg max-w-md w-full">
+                <h1 className="text-2xl font-bold text-blue-600 mb-1 text-center">Party Room</h1>
+                <p className="text-5xl font-mono font-bold tracking-widest text-center my-4">{room.code}</p>
+                <p className="text-gray-600 mb-6 text-center text-sm">
+                    Share this code with your friends.
+                    {' '}{deserializeRegion(room.region)?.name} &middot; {room.settings.lives !== null ? 'Battle Royale' : `${room.settings.rounds} rounds`} &middot; {movementLabel(room.settings.movement)}
+                </p>
+
+                <p className="font-semibold mb-1">Players ({connected.length})</p>
+                <ul className="mb-6 text-sm">
+                    {room.players.map((player) => (
+                        <li key={player.id} className="flex items-center gap-2 py-1">
+                            <span className="w-3 h-3 rounded-full" style={{ backgroundColor: player.color }} />
+                            {player.name}
+                            {player.id === room.hostId && <span className="text-gray-500">(host)</span>}
+                            {player.id === playerId && <span className="text-gray-500">(you)</span>}
+                        </li>
+                    ))}
+                </ul>
+
+                {message && (
+                    <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-2 rounded mb-4 text-sm" role="alert">
+                        {message}
+                    </div>
+                )}
+
+                {isHost ? (
+                    <button
+                        onClick={onStart}
+                        disabled={connected.length < MIN_PARTY_PLAYERS}
+                        className="w-full bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 font-semibold disabled:opacity-50"
+                    >
+                        {connected.length < MIN_PARTY_PLAYERS ? 'Waiting for players...' : 'Start Game'}
+                    </button>
+                ) : (
+                    <p className="text-center text-gray-600">Waiting for the host to start...</p>
+                )}
+                <button
+                    onClick={onLeave}
+                    className="mt-2 w-full bg-white text-blue-600 border border-blue-300 px-4 py-2 rounded hover:bg-blue-50"
+                >
+                    Leave Room
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default PartyLobby;
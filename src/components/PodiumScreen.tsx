@@ -0,0 +1,86 @@
+import React from 'react';
+import { GameSession } from '../game/session';
+import { standings } from '../game/hotseat';
+import { movementLabel } from '../game/movement';
+import { difficultyLabel } from '../game/difficulty';
+
+interface PodiumScreenProps {
+    session: GameSession;
+    onPlayAgain: () => void;
+}
+
+// Podium steps in display order: second, first, third
+const PODIUM_ORDER = [1, 0, 2];
+const STEP_HEIGHTS: Record<number, string> = { 1: 'h-32', 2: 'h-24', 3: 'h-16' };
+
+const PodiumScreen: React.FC<PodiumScreenProps> = ({ session, onPlayAgain }) => {
+    const ranking = standings(session);
+    const podium = PODIUM_ORDER.map(index => ranking[index]).filter(Boolean);
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-start justify-center bg-gray-100 overflow-y-auto py-8">
+            <div className="p-8 bg-white rounded-lg shadow-lg max-w-xl w-full">
+                <h1 className="text-2xl font-bold text-blue-600 mb-1 text-center">Game Over</h1>
+                <p className="text-gray-600 mb-6 text-center">
+                    {session.regionName} &middot; {session.rounds.length} rounds &middot; {movementLabel(session.settings.movement)} &middot; {difficultyLabel(session.settings.difficulty.preset)}
+                </p>
+
+                <div className="flex items-end justify-center gap-2 mb-6">
+                    {podium.map((entry) => (
+                        <div key={entry.index} className="w-28 text-center">
+                            <p className="font-semibold truncate">{entry.player.name}</p>
+                            <p className="text-sm text-gray-600 mb-1">{entry.total}</p>
+                            <div
+                                className={`${STEP_HEIGHTS[entry.rank] ?? 'h-12'} rounded-t flex items-start justify-center pt-2 text-white text-2xl font-bold`}
+                                style={{ backgroundColor: entry.player.color }}
+                            >
+                                {entry.rank}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+
+                <div className="overflow-x-auto mb-6">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr className="text-left text-gray-500">
+                                <th className="py-1">Player</th>
+                                {session.rounds.map((_, index) => (
+                                    <th key={index} className="py-1 text-right">R{index + 1}</th>
+                                ))}
+                                {session.settings.lives !== null && <th className="py-1 text-right">Survived</th>}
+                                <th className="py-1 text-right">Total</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {ranking.map((entry) => (
+                                <tr key={entry.index} className="border-t">
+                                    <td className="py-1">
+                                        <span className="inline-block w-2 h-2 rounded-full mr-2" style={{ backgroundColor: entry.player.color }} />
+                                        {entry.rank}. {entry.player.name}
+                                    </td>
+                                    {session.rounds.map((round, index) => (
+                                        <td key={index} className="py-1 text-right">
+                                            {round.turns?.find(turn => turn.player === entry.index)?.points ?? 0}
+                                        </td>
+                                    ))}
+                                    {entry.survived !== null && <td className="py-1 text-right">{entry.survived}</td>}
+                                    <td className="py-1 text-right font-semibold">{entry.total}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+
+                <button
+                    onClick={onPlayAgain}
+                    className="w-full bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 font-semibold"
+                >
+                    Play Again
+                </button>
+            </div>
+        </div>
+    );
+};
+
+export default PodiumScreen;
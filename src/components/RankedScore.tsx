@@ -0,0 +1,68 @@
+import React, { useEffect, useState } from 'react';
+import { RankedGame, RankedOutcome } from '../leaderboard/rankedGame';
+
+interface RankedScoreProps {
+    ranked: RankedGame;
+}
+
+const RankedScore: React.FC<RankedScoreProps> = ({ ranked }) => {
+    const [outcome, setOutcome] = useState<RankedOutcome | null>(null);
+    const [name, setName] = useState<string>('');
+    const [submitting, setSubmitting] = useState<boolean>(false);
+    const [status, setStatus] = useState<string | null>(null);
+    const [submitted, setSubmitted] = useState<boolean>(false);
+
+    useEffect(() => {
+        ranked.settle().then(setOutcome);
+    }, [ranked]);
+
+    const handleSubmit = async () => {
+        setSubmitting(true);
+        try {
+            const response = await ranked.submit(name.trim());
+            setStatus(response
+                ? `You're #${response.rank} on the all-time board.`
+                : "The leaderboard is offline. Your score is saved and will be submitted next time you open the leaderboards.");
+            setSubmitted(true);
+        } catch (error) {
+            setStatus(error instanceof Error ? error.message : 'Unable to submit your score.');
+        } finally {
+            setSubmitting(false);
+        }
+    };
+
+    if (!outcome) {
+        return <p className="text-sm text-gray-500 mb-6">Checking your ranked score...</p>;
+    }
+    if ('unranked' in outcome) {
+        return <p className="text-sm text-gray-500 mb-6">{outcome.unranked}</p>;
+    }
+
+    return (
+        <div className="mb-6 text-sm">
+            <p className="font-semibold mb-1">Ranked score: {outcome.total}</p>
+            {!submitted && (
+                <div className="flex gap-2">
+                    <input
+                        type="text"
+                        value={name}
+                        onChange={(e) => setName(e.target.value)}
+                        placeholder="Your name"
+                        maxLength={20}
+                        className="flex-1 border rounded px-2 py-1"
+                    />
+                    <button
+                        onClick={handleSubmit}
+                        disabled={submitting}
+                        className="bg-green-600 text-white px-3 py-1 rounded hover:bg-green-700 disabled:opacity-50"
+                    >
+                        Submit
+                    </button>
+                </div>
+            )}
+            {status && <p className="text-gray-600 mt-1">{status}</p>}
+        </div>
+    );
+};
+
+export default RankedScore;
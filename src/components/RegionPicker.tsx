@@ -0,0 +1,150 @@
+import React, { useState } from 'react';
+import { Bounds } from '../geo/types';
+import { REGIONS, Region, createCustomRegion, createSetRegion, isValidBounds } from '../regions';
+import { LocationSet, createLocationSet, importLocationSet, loadLocationSets, saveLocationSet } from '../game/locationSets';
+
+interface RegionPickerProps {
+    region: Region;
+    onChange: (region: Region) => void;
+    // Opens the location set editor
+    onEditSet: (set: LocationSet) => void;
+}
+
+const BOUND_FIELDS: (keyof Bounds)[] = ['north', 'south', 'west', 'east'];
+
+const optionClass = (active: boolean): string =>
+    `px-3 py-1 rounded border ${active ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-blue-600 border-blue-300 hover:bg-blue-50'}`;
+
+const RegionPicker: React.FC<RegionPickerProps> = ({ region, onChange, onEditSet }) => {
+    const isBoundsRegion = region.id === 'custom' && !region.locationSet;
+    const [customName, setCustomName] = useState<string>(isBoundsRegion ? region.name : '');
+    const [customBounds, setCustomBounds] = useState<Bounds>(region.bounds);
+    const [showCustom, setShowCustom] = useState<boolean>(isBoundsRegion);
+    const [sets, setSets] = useState<LocationSet[]>(loadLocationSets);
+    const [importErrors, setImportErrors] = useState<string[]>([]);
+
+    const customValid = customName.trim().length > 0 && isValidBounds(customBounds);
+
+    const applyCustom = () => {
+        if (customValid) {
+            onChange(createCustomRegion(customName.trim(), customBounds));
+        }
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) {
+            return;
+        }
+        const imported = importLocationSet(await file.text());
+        if ('errors' in imported) {
+            setImportErrors(imported.errors);
+            return;
+        }
+        saveLocationSet(imported.set);
+        setSets(loadLocationSets());
+        setImportErrors([]);
+        setShowCustom(false);
+        onChange(createSetRegion(imported.set));
+    };
+
+    return (
+        <div className="text-left">
+            <p className="font-semibold mb-2">Choose a region</p>
+            <div className="flex flex-wrap gap-2">
+                {Object.values(REGIONS).map((option) => (
+                    <button
+                        key={option.id}
+                        onClick={() => {
+                            setShowCustom(false);
+                            onChange(option);
+                        }}
+                        className={optionClass(region.id === option.id)}
+                    >
+                        {option.name}
+                    </button>
+                ))}
+                <button
+                    onClick={() => setShowCustom(true)}
+                    className={optionClass(showCustom)}
+                >
+                    Custom
+                </button>
+            </div>
+
+            {showCustom && (
+                <div className="mt-3 p-3 border rounded bg-gray-50 text-sm">
+                    <label className="block mb-2">
+                        Name
+                        <input
+                            type="text"
+                            value={customName}
+                            onChange={(e) => setCustomName(e.target.value)}
+                            className="block w-full border rounded px-2 py-1 mt-1"
+                            placeholder="My neighbourhood"
+                        />
+                    </label>
+                    <div className="grid grid-cols-2 gap-2">
+                        {BOUND_FIELDS.map((field) => (
+                            <label key={field} className="block capitalize">
+                                {field}
+                                <input
+                                    type="number"
+                                    step="0.001"
+                                    value={customBounds[field]}
+                                    onChange={(e) => setCustomBounds(prev => ({ ...prev, [field]: parseFloat(e.target.value) }))}
+                                    className="block w-full border rounded px-2 py-1 mt-1"
+                                />
+                            </label>
+                        ))}
+                    </div>
+                    <button
+                        onClick={applyCustom}
+                        disabled={!customValid}
+                        className="mt-2 bg-blue-600 text-white px-3 py-1 rounded hover:bg-blue-700 disabled:opacity-50"
+                    >
+                        Use custom region
+                    </button>
+                </div>
+            )}
+
+            <p className="font-semibold mt-4 mb-2">Your location sets</p>
+            <div className="flex flex-wrap gap-2 text-sm">
+                {sets.map((set) => (
+                    <button
+                        key={set.id}
+                        onClick={() => {
+                            setShowCustom(false);
+                            onChange(createSetRegion(set));
+                        }}
+                        title={set.description}
+                        className={optionClass(region.locationSet?.id === set.id)}
+                    >
+                        {set.name}
+                    </button>
+                ))}
+                {region.locationSet && (
+                    <button onClick={() => region.locationSet && onEditSet(region.locationSet)} className="text-blue-600 hover:underline">
+                        Edit
+                    </button>
+                )}
+                <button onClick={() => onEditSet(createLocationSet())} className="text-blue-600 hover:underline">
+                    New set
+                </button>
+                <label className="text-blue-600 hover:underline cursor-pointer">
+                    Import
+                    <input type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+                </label>
+            </div>
+            {region.locationSet?.description && <p className="text-sm text-gray-600 mt-2">{region.locationSet.description}</p>}
+            {importErrors.length > 0 && (
+                <ul className="mt-2 text-sm bg-red-100 border border-red-300 rounded px-2 py-1 list-disc list-inside">
+                    {importErrors.map(error => <li key={error}>{error}</li>)}
+                </ul>
+            )}
+        </div>
+    );
+};
+
+export default RegionPicker;
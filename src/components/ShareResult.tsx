@@ -0,0 +1,73 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { GameSession } from '../game/session';
+import { drawResultCard } from '../share/resultCard';
+import { ShareOutcome, downloadBlob, shareResult } from '../share/shareResult';
+import { shareText } from '../share/shareSummary';
+
+interface ShareResultProps {
+    session: GameSession;
+    maxScore: number;
+    // Anonymous challenge link to the same rounds, included in the text;
+    // null for games that can't be shared as a challenge
+    createChallengeLink: (() => string) | null;
+}
+
+const OUTCOME_MESSAGES: Record<ShareOutcome, string | null> = {
+    shared: null,
+    copied: 'Result copied to clipboard!',
+    downloaded: "Couldn't copy the text, so the result card was downloaded instead.",
+    cancelled: null,
+};
+
+const ShareResult: React.FC<ShareResultProps> = ({ session, maxScore, createChallengeLink }) => {
+    const [card, setCard] = useState<Blob | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+    const text = useMemo(() => shareText(session, maxScore, createChallengeLink?.() ?? null), [session, maxScore]);
+    const fileName = `neighbourguessr-${session.id}.png`;
+
+    useEffect(() => {
+        drawResultCard(session, maxScore)
+            .then(setCard)
+            .catch(error => console.warn('Failed to draw the result card:', error));
+    }, [session, maxScore]);
+
+    const handleShare = async () => {
+        setMessage(null);
+        try {
+            setMessage(OUTCOME_MESSAGES[await shareResult(text, card, fileName)]);
+        } catch (error) {
+            setMessage("Couldn't share the result; copy it from the box instead.");
+        }
+    };
+
+    return (
+        <div className="mb-6 text-sm">
+            <p className="font-semibold mb-1">Share your result</p>
+            <textarea
+                readOnly
+                value={text}
+                rows={4}
+                onFocus={(e) => e.target.select()}
+                className="w-full border rounded px-2 py-1 text-xs bg-gray-50 resize-none"
+            />
+            <div className="flex gap-2 mt-1">
+                <button
+                    onClick={handleShare}
+                    className="flex-1 bg-blue-600 text-white px-3 py-1 rounded hover:bg-blue-700"
+                >
+                    Share
+                </button>
+                <button
+                    onClick={() => card && downloadBlob(card, fileName)}
+                    disabled={!card}
+                    className="bg-white text-blue-600 border border-blue-300 px-3 py-1 rounded hover:bg-blue-50 disabled:opacity-50"
+                >
+                    Save image
+                </button>
+            </div>
+            {message && <p className="text-gray-700 mt-1">{message}</p>}
+        </div>
+    );
+};
+
+export default ShareResult;
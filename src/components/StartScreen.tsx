@@ -0,0 +1,552 @@
+import React, { useState } from 'react';
+import { GameSettings, ROUND_COUNT_OPTIONS } from '../game/settings';
+import { SCORING_CURVES, ScoringCurve, TIME_BONUS_POINTS, describeScoring } from '../game/scoring';
+import { MOVEMENT_MODES } from '../game/movement';
+import { DIFFICULTY_PRESETS, DIFFICULTY_ZOOM_RANGE, DifficultySettings, applyDifficultyPreset, matchDifficultyPreset } from '../game/difficulty';
+import { HINT_TIERS } from '../game/hints';
+import { GUESS_TIME_OPTIONS, REVEAL_TIME_OPTIONS, TimerSettings, VIEW_TIME_OPTIONS, formatTimerOption } from '../game/roundFlow';
+import { GameMode } from '../game/session';
+import { AccessibilitySettings } from '../game/accessibility';
+import { SHORTCUTS } from '../game/keyboard';
+import { MAX_PLAYERS, MIN_PLAYERS, PLAYER_COLORS } from '../game/hotseat';
+import { ELIMINATION_LIVES } from '../game/elimination';
+import { ROOM_CODE_PATTERN, normalizeRoomCode } from '../party/protocol';
+import { Challenge } from '../game/challenge';
+import { dailyDate, getDailyResult, listDailyResults } from '../game/daily';
+import { Region, deserializeRegion, regionKey } from '../regions';
+import { LocationSet } from '../game/locationSets';
+import { PACK_SHARE_OPTIONS, PackSelection, regionPacks } from '../game/packs';
+import DailyCalendar from './DailyCalendar';
+import { PanoramaFilter } from '../streetview/panoramaFilter';
+import RegionPicker from './RegionPicker';
+import { isDemoMode } from '../maps';
+
+interface StartScreenProps {
+    region: Region;
+    // False until the Maps SDK has loaded
+    ready: boolean;
+    onRegionChange: (region: Region) => void;
+    onEditSet: (set: LocationSet) => void;
+    panoramaFilter: PanoramaFilter;
+    onPanoramaFilterChange: (filter: PanoramaFilter) => void;
+    packSelection: PackSelection;
+    onPackSelectionChange: (selection: PackSelection) => void;
+    settings: GameSettings;
+    onSettingsChange: (settings: GameSettings) => void;
+    accessibility: AccessibilitySettings;
+    onAccessibilityChange: (settings: AccessibilitySettings) => void;
+    // Challenge opened from a shared link
+    challenge: Challenge | null;
+    onShowStats: () => void;
+    onShowLeaderboard: () => void;
+    onShowAchievements: () => void;
+    // Hot-seat player names, blank for the default "Player N"
+    playerNames: string[];
+    onPlayerNamesChange: (names: string[]) => void;
+    onStart: (mode?: GameMode) => void;
+    onCreateParty: (name: string, battleRoyale: boolean) => void;
+    onJoinParty: (code: string, name: string) => void;
+    // Party connection problems, shown under the party controls
+    partyMessage: string | null;
+}
+
+const IMAGERY_AGE_OPTIONS = [
+    { label: 'Any age', value: null },
+    { label: '2015 or newer', value: '2015-01' },
+    { label: '2018 or newer', value: '2018-01' },
+    { label: '2021 or newer', value: '2021-01' },
+];
+
+const DIFFICULTY_TOGGLES: { key: keyof Pick<DifficultySettings, 'roadLabels' | 'poiLabels' | 'satellite' | 'mapWhileViewing' | 'strictBounds'>; label: string }[] = [
+    { key: 'roadLabels', label: 'Street names on the map' },
+    { key: 'poiLabels', label: 'Place and transit names on the map' },
+    { key: 'satellite', label: 'Satellite map' },
+    { key: 'mapWhileViewing', label: 'Map visible while looking around' },
+    { key: 'strictBounds', label: 'Keep the map inside the region' },
+];
+
+const ZOOM_LEVELS = Array.from(
+    { length: DIFFICULTY_ZOOM_RANGE.max - DIFFICULTY_ZOOM_RANGE.min + 1 },
+    (_, index) => DIFFICULTY_ZOOM_RANGE.min + index
+);
+
+const TIMER_FIELDS: { key: keyof TimerSettings; label: string; options: (number | null)[]; unlimited: string }[] = [
+    { key: 'viewTime', label: 'View time', options: VIEW_TIME_OPTIONS, unlimited: 'Unlimited' },
+    { key: 'guessTime', label: 'Guess time', options: GUESS_TIME_OPTIONS, unlimited: 'Unlimited' },
+    { key: 'revealTime', label: 'Answer shown', options: REVEAL_TIME_OPTIONS, unlimited: 'Until "Next"' },
+];
+
+const StartScreen: React.FC<StartScreenProps> = ({
+    region,
+    ready,
+    onRegionChange,
+    onEditSet,
+    panoramaFilter,
+    onPanoramaFilterChange,
+    packSelection,
+    onPackSelectionChange,
+    settings,
+    onSettingsChange,
+    accessibility,
+    onAccessibilityChange,
+    challenge,
+    onShowStats,
+    onShowLeaderboard,
+    onShowAchievements,
+    playerNames,
+    onPlayerNamesChange,
+    onStart,
+    onCreateParty,
+    onJoinParty,
+    partyMessage,
+}) => {
+    const [partyName, setPartyName] = useState<string>('');
+    const [roomCode, setRoomCode] = useState<string>('');
+    const [partyBattleRoyale, setPartyBattleRoyale] = useState<boolean>(false);
+    const key = regionKey(region);
+    const today = dailyDate();
+    const todayResult = getDailyResult(today, key);
+    const preset = DIFFICULTY_PRESETS.find(option => option.id === settings.difficulty.preset);
+
+    // Any edit that no longer matches a preset makes the difficulty custom
+    const changeDifficulty = (changes: Partial<DifficultySettings>) => onSettingsChange(matchDifficultyPreset({
+        ...settings,
+        difficulty: { ...settings.difficulty, ...changes },
+    }));
+    // Demo panoramas can't stand in for pack locations
+    const packs = isDemoMode ? [] : regionPacks(region);
+
+    const togglePack = (id: string, checked: boolean) => onPackSelectionChange({
+        ...packSelection,
+        ids: checked ? [...packSelection.ids, id] : packSelection.ids.filter(selected => selected !== id),
+    });
+
+    return (
+        <div className="fixed inset-0 z-[60] flex items-start justify-center bg-gray-100 overflow-y-auto py-8">
+            <div className="p-8 bg-white rounded-lg shadow-lg max-w-md w-full">
+                <h1 className="text-2xl font-bold text-blue-600 mb-1 text-center">NeighbourGuessr</h1>
+                <p className="text-gray-600 mb-6 text-center">How well do you know {region.name}?</p>
+
+                {challenge && (
+                    <div className="mb-6 p-4 rounded border border-green-300 bg-green-50">
+                        <p className="font-semibold mb-1">You've been challenged!</p>
+                        <p className="text-sm text-gray-700 mb-3">
+                            {challenge.sender.name || 'A friend'} scored {challenge.sender.score} points
+                            over {challenge.settings.rounds} rounds in {deserializeRegion(challenge.region)?.name}. Can you beat them?
+                        </p>
+                        <button
+                            onClick={() => onStart('challenge')}
+                            disabled={!ready}
+                            className="w-full bg-green-600 text-white px-4 py-2 rounded hover:bg-green-700 font-semibold disabled:opacity-50"
+                        >
+                            Accept Challenge
+                        </button>
+                    </div>
+                )}
+
+                {isDemoMode ? (
+                    // The bundled panoramas are all in Calgary
+                    <div className="p-3 rounded border border-yellow-300 bg-yellow-50 text-sm text-gray-700">
+                        <p className="font-semibold mb-1">Demo mode</p>
+                        <p>
+                            You're playing a handful of bundled Calgary scenes on a simplified map, without
+                            Google Maps. Set a Maps API key to play anywhere in Street View.
+                        </p>
+                    </div>
+                ) : (
+                    <RegionPicker region={region} onChange={onRegionChange} onEditSet={onEditSet} />
+                )}
+
+                <div className="mt-4 text-sm">
+                    <p className="mb-1">Rounds</p>
+                    <div className="flex gap-2">
+                        {ROUND_COUNT_OPTIONS.map((rounds) => (
+                            <button
+                                key={rounds}
+                                onClick={() => onSettingsChange({ ...settings, rounds })}
+                                className={`px-3 py-1 rounded border ${settings.rounds === rounds ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-blue-600 border-blue-300 hover:bg-blue-50'}`}
+                            >
+                                {rounds}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="mt-4 text-sm">
+                    <p className="mb-1">Movement</p>
+                    <div className="flex gap-2">
+                        {MOVEMENT_MODES.map((mode) => (
+                            <button
+                                key={mode.id}
+                                title={mode.description}
+                                onClick={() => onSettingsChange({ ...settings, movement: mode.id })}
+                                className={`px-3 py-1 rounded border ${settings.movement === mode.id ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-blue-600 border-blue-300 hover:bg-blue-50'}`}
+                            >
+                                {mode.label}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                <div className="mt-4 text-sm">
+                    <p className="mb-1">Difficulty</p>
+                    <div className="flex gap-2">
+                        {DIFFICULTY_PRESETS.map((option) => (
+                            <button
+                                key={option.id}
+                                title={option.description}
+                                onClick={() => onSettingsChange(applyDifficultyPreset(settings, option))}
+                                className={`px-3 py-1 rounded border ${settings.difficulty.preset === option.id ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-blue-600 border-blue-300 hover:bg-blue-50'}`}
+                            >
+                                {option.label}
+                            </button>
+                        ))}
+                    </div>
+                    <p className="text-gray-500 mt-1">
+                        {preset ? preset.description : 'Custom: your own mix of map options and view time'}
+                    </p>
+                    <details className="mt-1">
+                        <summary className="cursor-pointer">Customize</summary>
+                        {DIFFICULTY_TOGGLES.map((toggle) => (
+                            <label key={toggle.key} className="flex items-center gap-2 mt-1">
+                                <input
+                                    type="checkbox"
+                                    checked={settings.difficulty[toggle.key]}
+                                    onChange={(e) => changeDifficulty({ [toggle.key]: e.target.checked })}
+                                />
+                                {toggle.label}
+                            </label>
+                        ))}
+                        <div className="grid grid-cols-2 gap-2 mt-2">
+                            <label className="block">
+                                Furthest zoom out
+                                <select
+                                    value={settings.difficulty.minZoom}
+                                    onChange={(e) => changeDifficulty({ minZoom: Number(e.target.value) })}
+                                    className="block w-full border rounded px-2 py-1 mt-1"
+                                >
+                                    {ZOOM_LEVELS.filter(zoom => zoom <= settings.difficulty.maxZoom).map((zoom) => (
+                                        <option key={zoom} value={zoom}>Level {zoom}</option>
+                                    ))}
+                                </select>
+                            </label>
+                            <label className="block">
+                                Closest zoom in
+                                <select
+                                    value={settings.difficulty.maxZoom}
+                                    onChange={(e) => changeDifficulty({ maxZoom: Number(e.target.value) })}
+                                    className="block w-full border rounded px-2 py-1 mt-1"
+                                >
+                                    {ZOOM_LEVELS.filter(zoom => zoom >= settings.difficulty.minZoom).map((zoom) => (
+                                        <option key={zoom} value={zoom}>Level {zoom}</option>
+                                    ))}
+                                </select>
+                            </label>
+                        </div>
+                    </details>
+                </div>
+
+                <div className="mt-4 text-sm grid grid-cols-3 gap-2">
+                    {TIMER_FIELDS.map((field) => (
+                        <label key={field.key} className="block">
+                            {field.label}
+                            <select
+                                value={settings.timers[field.key] ?? ''}
+                                onChange={(e) => onSettingsChange(matchDifficultyPreset({
+                                    ...settings,
+                                    timers: { ...settings.timers, [field.key]: e.target.value ? Number(e.target.value) : null },
+                                }))}
+                                className="block w-full border rounded px-2 py-1 mt-1"
+                            >
+                                {field.options.map((seconds) => (
+                                    <option key={seconds ?? 'none'} value={seconds ?? ''}>{formatTimerOption(seconds, field.unlimited)}</option>
+                                ))}
+                            </select>
+                        </label>
+                    ))}
+                </div>
+
+                <div className="mt-4 text-sm">
+                    <label className="block">
+                        Scoring
+                        <select
+                            value={settings.scoring.curve}
+                            onChange={(e) => onSettingsChange({ ...settings, scoring: { ...settings.scoring, curve: e.target.value as ScoringCurve } })}
+                            className="block w-full border rounded px-2 py-1 mt-1"
+                        >
+                            {SCORING_CURVES.map((curve) => (
+                                <option key={curve.id} value={curve.id}>{curve.label}</option>
+                            ))}
+                        </select>
+                    </label>
+                    <label className="flex items-center gap-2 mt-2">
+                        <input
+                            type="checkbox"
+                            checked={settings.scoring.timeBonus > 0}
+                            onChange={(e) => onSettingsChange({ ...settings, scoring: { ...settings.scoring, timeBonus: e.target.checked ? TIME_BONUS_POINTS : 0 } })}
+                        />
+                        Time bonus for quick guesses
+                    </label>
+                    <p className="mt-2 mb-1">Hint costs</p>
+                    <div className="grid grid-cols-4 gap-2">
+                        {HINT_TIERS.map((tier) => (
+                            <label key={tier.id} className="block text-xs text-gray-600">
+                                {tier.label}
+                                <input
+                                    type="number"
+                                    min={0}
+                                    step={50}
+                                    value={settings.scoring.hintPenalties[tier.id]}
+                                    onChange={(e) => onSettingsChange({
+                                        ...settings,
+                                        scoring: {
+                                            ...settings.scoring,
+                                            hintPenalties: { ...settings.scoring.hintPenalties, [tier.id]: Math.max(0, Number(e.target.value) || 0) },
+                                        },
+                                    })}
+                                    className="block w-full border rounded px-1 py-1 mt-1 text-sm text-black"
+                                />
+                            </label>
+                        ))}
+                    </div>
+                    <p className="text-gray-500 mt-1">{describeScoring(settings.scoring, settings.movement, settings.difficulty.preset)}</p>
+                </div>
+
+                <label className="block mt-4 text-sm">
+                    Street View imagery
+                    <select
+                        value={panoramaFilter.minImageDate ?? ''}
+                        onChange={(e) => onPanoramaFilterChange({ ...panoramaFilter, minImageDate: e.target.value || null })}
+                        className="block w-full border rounded px-2 py-1 mt-1"
+                    >
+                        {IMAGERY_AGE_OPTIONS.map((option) => (
+                            <option key={option.label} value={option.value ?? ''}>{option.label}</option>
+                        ))}
+                    </select>
+                </label>
+
+                {packs.length > 0 && (
+                    <div className="mt-4 text-sm">
+                        <p className="mb-1">Location packs</p>
+                        {packs.map((pack) => (
+                            <label key={pack.id} className="flex items-start gap-2 mt-1">
+                                <input
+                                    type="checkbox"
+                                    checked={packSelection.ids.includes(pack.id)}
+                                    onChange={(e) => togglePack(pack.id, e.target.checked)}
+                                    className="mt-1"
+                                />
+                                <span>
+                                    {pack.name} <span className="text-gray-500">&middot; {pack.entries.length} places</span>
+                                    <span className="block text-xs text-gray-500">{pack.description}</span>
+                                </span>
+                            </label>
+                        ))}
+                        <label className="block mt-2">
+                            Pack locations
+                            <select
+                                value={packSelection.share}
+                                onChange={(e) => onPackSelectionChange({ ...packSelection, share: Number(e.target.value) })}
+                                disabled={packSelection.ids.length === 0}
+                                className="block w-full border rounded px-2 py-1 mt-1 disabled:opacity-50"
+                            >
+                                {PACK_SHARE_OPTIONS.map((option) => (
+                                    <option key={option.value} value={option.value}>{option.label}</option>
+                                ))}
+                            </select>
+                        </label>
+                        <p className="text-gray-500 mt-1">Classic, hot-seat and party games only. Each place comes with a bit of trivia on the reveal.</p>
+                    </div>
+                )}
+
+                <details className="mt-4 text-sm">
+                    <summary className="cursor-pointer">Accessibility and keyboard</summary>
+                    <label className="flex items-center gap-2 mt-2">
+                        <input
+                            type="checkbox"
+                            checked={accessibility.highContrast}
+                            onChange={(e) => onAccessibilityChange({ ...accessibility, highContrast: e.target.checked })}
+                        />
+                        High contrast results and map lines
+                    </label>
+                    <label className="flex items-center gap-2 mt-1">
+                        <input
+                            type="checkbox"
+                            checked={accessibility.reducedMotion}
+                            onChange={(e) => onAccessibilityChange({ ...accessibility, reducedMotion: e.target.checked })}
+                        />
+                        Reduce motion
+                    </label>
+                    <p className="mt-2 mb-1">
+                        On the map, the arrow keys move the pin (hold Shift for bigger steps)
+                        and 1–4 pick a community.
+                    </p>
+                    <dl className="grid grid-cols-[auto_1fr] gap-x-3">
+                        {SHORTCUTS.map(shortcut => (
+                            <React.Fragment key={shortcut.action}>
+                                <dt><kbd className="px-1 border rounded bg-gray-50">{shortcut.key}</kbd></dt>
+                                <dd>{shortcut.label}</dd>
+                            </React.Fragment>
+                        ))}
+                    </dl>
+                </details>
+
+                <button
+                    onClick={() => onStart('classic')}
+                    disabled={!ready}
+                    className="mt-6 w-full bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 font-semibold disabled:opacity-50"
+                >
+                    {ready ? 'Start Game' : 'Loading map...'}
+                </button>
+                {region.communities && (
+                    <button
+                        onClick={() => onStart('community')}
+                        disabled={!ready}
+                        className="mt-2 w-full bg-white text-blue-600 border border-blue-300 px-4 py-2 rounded hover:bg-blue-50 disabled:opacity-50"
+                    >
+                        Guess the Community
+                    </button>
+                )}
+                <button
+                    onClick={() => onStart('elimination')}
+                    disabled={!ready}
+                    title={`${ELIMINATION_LIVES} lives, and a guess outside the shrinking circle costs one`}
+                    className="mt-2 w-full bg-white text-blue-600 border border-blue-300 px-4 py-2 rounded hover:bg-blue-50 disabled:opacity-50"
+                >
+                    Battle Royale
+                </button>
+                <button
+                    onClick={onShowStats}
+                    disabled={!ready}
+                    className="mt-2 w-full bg-white text-blue-600 border border-blue-300 px-4 py-2 rounded hover:bg-blue-50 disabled:opacity-50"
+                >
+                    Your Stats
+                </button>
+                <button
+                    onClick={onShowLeaderboard}
+                    className="mt-2 w-full bg-white text-blue-600 border border-blue-300 px-4 py-2 rounded hover:bg-blue-50"
+                >
+                    Leaderboards
+                </button>
+                <button
+                    onClick={onShowAchievements}
+                    className="mt-2 w-full bg-white text-blue-600 border border-blue-300 px-4 py-2 rounded hover:bg-blue-50"
+                >
+                    Badges
+                </button>
+
+                <div className="mt-6 pt-4 border-t">
+                    <p className="font-semibold">Hot-seat</p>
+                    <p className="text-sm text-gray-600 mb-2">
+                        {MIN_PLAYERS}–{MAX_PLAYERS} players take turns on this device, guessing the same locations.
+                    </p>
+                    {playerNames.map((name, index) => (
+                        <div key={index} className="flex items-center gap-2 mb-1 text-sm">
+                            <span className="w-3 h-3 rounded-full shrink-0" style={{ backgroundColor: PLAYER_COLORS[index] }} />
+                            <input
+                                type="text"
+                                value={name}
+                                maxLength={20}
+                                placeholder={`Player ${index + 1}`}
+                                onChange={(e) => onPlayerNamesChange(playerNames.map((other, i) => i === index ? e.target.value : other))}
+                                className="flex-1 border rounded px-2 py-1"
+                            />
+                            <button
+                                onClick={() => onPlayerNamesChange(playerNames.filter((_, i) => i !== index))}
+                                disabled={playerNames.length <= MIN_PLAYERS}
+                                aria-label={`Remove player ${index + 1}`}
+                                className="text-gray-500 px-2 hover:text-red-600 disabled:opacity-30"
+                            >
+                                ✕
+                            </button>
+                        </div>
+                    ))}
+                    <div className="flex gap-2 mt-2">
+                        <button
+                            onClick={() => onPlayerNamesChange([...playerNames, ''])}
+                            disabled={playerNames.length >= MAX_PLAYERS}
+                            className="bg-white text-blue-600 border border-blue-300 px-3 py-2 rounded hover:bg-blue-50 text-sm disabled:opacity-50"
+                        >
+                            Add Player
+                        </button>
+                        <button
+                            onClick={() => onStart('hotseat')}
+                            disabled={!ready}
+                            className="flex-1 bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 font-semibold disabled:opacity-50"
+                        >
+                            Start Hot-seat Game
+                        </button>
+                    </div>
+                </div>
+
+                <div className="mt-6 pt-4 border-t">
+                    <p className="font-semibold">Online Party</p>
+                    <p className="text-sm text-gray-600 mb-2">
+                        Play together from different devices. Everyone sees the same location at the same time.
+                    </p>
+                    <input
+                        type="text"
+                        value={partyName}
+                        maxLength={20}
+                        placeholder="Your name"
+                        onChange={(e) => setPartyName(e.target.value)}
+                        className="w-full border rounded px-2 py-1 mb-2 text-sm"
+                    />
+                    <div className="flex gap-2">
+                        <button
+                            onClick={() => onCreateParty(partyName, partyBattleRoyale)}
+                            disabled={!ready}
+                            className="flex-1 bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 font-semibold disabled:opacity-50"
+                        >
+                            Create Room
+                        </button>
+                        <input
+                            type="text"
+                            value={roomCode}
+                            maxLength={4}
+                            placeholder="CODE"
+                            aria-label="Room code"
+                            onChange={(e) => setRoomCode(normalizeRoomCode(e.target.value))}
+                            className="w-20 border rounded px-2 py-1 text-center font-mono uppercase"
+                        />
+                        <button
+                            onClick={() => onJoinParty(roomCode, partyName)}
+                            disabled={!ready || !ROOM_CODE_PATTERN.test(roomCode)}
+                            className="bg-white text-blue-600 border border-blue-300 px-4 py-2 rounded hover:bg-blue-50 disabled:opacity-50"
+                        >
+                            Join
+                        </button>
+                    </div>
+                    <label className="flex items-center gap-2 mt-2 text-sm">
+                        <input
+                            type="checkbox"
+                            checked={partyBattleRoyale}
+                            onChange={(e) => setPartyBattleRoyale(e.target.checked)}
+                        />
+                        Battle royale: {ELIMINATION_LIVES} lives each, last one standing wins
+                    </label>
+                    {partyMessage && <p className="text-sm text-red-600 mt-2">{partyMessage}</p>}
+                </div>
+
+                <div className="mt-6 pt-4 border-t">
+                    <p className="font-semibold">Daily Challenge</p>
+                    <p className="text-sm text-gray-600 mb-2">
+                        Five rounds in {region.name}, the same for everyone today. One attempt per day.
+                    </p>
+                    <button
+                        onClick={() => onStart('daily')}
+                        disabled={!ready || todayResult !== null}
+                        className="w-full bg-green-600 text-white px-4 py-2 rounded hover:bg-green-700 font-semibold disabled:opacity-50 mb-3"
+                    >
+                        {todayResult === null
+                            ? "Play Today's Challenge"
+                            : `Played today: ${todayResult.score ?? 'not finished'}`}
+                    </button>
+                    <DailyCalendar today={today} results={listDailyResults(key)} />
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default StartScreen;
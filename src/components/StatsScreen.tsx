@@ -0,0 +1,156 @@
+import React, { useCallback, useEffect, useMemo, useState } from 'react';
+import { Region, regionKey } from '../regions';
+import { GameSession, sessionTotal } from '../game/session';
+import { formatDistance } from '../game/scoring';
+import { StoredRound, exportHistory, importHistory, loadGames, loadRounds } from '../history/historyDb';
+import { computeStats, missHeatmapPoints } from '../history/stats';
+import { DEFAULT_DIFFICULTY, DIFFICULTY_PRESETS, DifficultyPreset, gameDifficulty } from '../game/difficulty';
+import { mapProvider } from '../maps';
+
+interface StatsScreenProps {
+    region: Region;
+    onClose: () => void;
+}
+
+const StatCard: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+    <div className="p-3 rounded bg-gray-50 border">
+        <p className="text-xs text-gray-500">{label}</p>
+        <p className="text-xl font-bold">{value}</p>
+    </div>
+);
+
+const StatsScreen: React.FC<StatsScreenProps> = ({ region, onClose }) => {
+    const [games, setGames] = useState<GameSession[]>([]);
+    const [rounds, setRounds] = useState<StoredRound[]>([]);
+    const [message, setMessage] = useState<string | null>(null);
+    // Stats for one difficulty at a time keep easy games from padding out hard ones
+    const [difficulty, setDifficulty] = useState<DifficultyPreset | 'all'>('all');
+
+    const reload = useCallback(async () => {
+        try {
+            const key = regionKey(region);
+            const [loadedGames, loadedRounds] = await Promise.all([loadGames(key), loadRounds(key)]);
+            setGames(loadedGames);
+            setRounds(loadedRounds);
+        } catch (error) {
+            console.error('Failed to load history:', error);
+            setMessage('Unable to read your history in this browser.');
+        }
+    }, [region]);
+
+    useEffect(() => {
+        reload();
+    }, [reload]);
+
+    const filteredGames = useMemo(
+        () => difficulty === 'all' ? games : games.filter(game => gameDifficulty(game.settings) === difficulty),
+        [games, difficulty]
+    );
+    const filteredRounds = useMemo(
+        () => difficulty === 'all' ? rounds : rounds.filter(round => (round.difficulty ?? DEFAULT_DIFFICULTY.preset) === difficulty),
+        [rounds, difficulty]
+    );
+    const stats = useMemo(() => computeStats(filteredGames, filteredRounds), [filteredGames, filteredRounds]);
+    const maxBandCount = Math.max(1, ...stats.histogram.map(entry => entry.count));
+
+    const heatmap = useMemo(() => missHeatmapPoints(filteredRounds), [filteredRounds]);
+
+    const handleExport = async () => {
+        const data = await exportHistory();
+        const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `neighbourguessr-history-${new Date().toISOString().slice(0, 10)}.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) {
+            return;
+        }
+        try {
+            const imported = await importHistory(JSON.parse(await file.text()));
+            setMessage(`Imported ${imported.games} games and ${imported.rounds} rounds.`);
+            reload();
+        } catch (error) {
+            setMessage(error instanceof Error ? error.message : 'Import failed.');
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 z-[60] flex flex-col md:flex-row bg-gray-100">
+            <div className="md:w-96 p-6 bg-white shadow-lg overflow-y-auto">
+                <div className="flex justify-between items-center mb-4">
+                    <h1 className="text-2xl font-bold text-blue-600">Stats &middot; {region.name}</h1>
+                    <button onClick={onClose} className="text-blue-600 hover:underline text-sm">Back</button>
+                </div>
+
+                {message && <p className="text-sm bg-yellow-100 border border-yellow-300 rounded px-2 py-1 mb-4">{message}</p>}
+
+                <label className="block text-sm mb-4">
+                    Difficulty
+                    <select
+                        value={difficulty}
+                        onChange={(e) => setDifficulty(e.target.value as DifficultyPreset | 'all')}
+                        className="block w-full border rounded px-2 py-1 mt-1"
+                    >
+                        <option value="all">All difficulties</option>
+                        {DIFFICULTY_PRESETS.map((option) => (
+                            <option key={option.id} value={option.id}>{option.label}</option>
+                        ))}
+                        <option value="custom">Custom</option>
+                    </select>
+                </label>
+
+                <div className="grid grid-cols-2 gap-2 mb-6">
+                    <StatCard label="Games played" value={String(stats.gamesPlayed)} />
+                    <StatCard label="Rounds played" value={String(stats.roundsPlayed)} />
+                    <StatCard label="Average distance" value={stats.averageDistance === null ? '–' : formatDistance(stats.averageDistance)} />
+                    <StatCard label="Average score" value={stats.averageScore === null ? '–' : String(Math.round(stats.averageScore))} />
+                    <StatCard label="Best game" value={stats.bestGame ? String(sessionTotal(stats.bestGame)) : '–'} />
+                    <StatCard label="Streak (days)" value={`${stats.currentStreak} / best ${stats.longestStreak}`} />
+                </div>
+
+                <p className="font-semibold mb-2">Distance distribution</p>
+                <div className="space-y-1 mb-6 text-xs">
+                    {stats.histogram.map(({ band, count }) => (
+                        <div key={band.label} className="flex items-center gap-2">
+                            <span className="w-24 text-gray-600">{band.label}</span>
+                            <div className="flex-1 bg-gray-100 rounded h-4">
+                                <div
+                                    className="bg-blue-500 h-4 rounded"
+                                    style={{ width: `${(count / maxBandCount) * 100}%` }}
+                                />
+                            </div>
+                            <span className="w-8 text-right">{count}</span>
+                        </div>
+                    ))}
+                </div>
+
+                <p className="font-semibold mb-2">Your data</p>
+                <div className="flex gap-2 text-sm">
+                    <button onClick={handleExport} className="bg-blue-600 text-white px-3 py-1 rounded hover:bg-blue-700">
+                        Export JSON
+                    </button>
+                    <label className="bg-white text-blue-600 border border-blue-300 px-3 py-1 rounded hover:bg-blue-50 cursor-pointer">
+                        Import JSON
+                        <input type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+                    </label>
+                </div>
+            </div>
+
+            <div className="flex-1 min-h-[300px] relative">
+                <p className="absolute top-2 left-2 z-10 bg-white/90 rounded px-2 py-1 text-sm shadow">
+                    Where you miss the most
+                </p>
+                <mapProvider.MapView height="100%" bounds={region.bounds} heatmap={heatmap} />
+            </div>
+        </div>
+    );
+};
+
+export default StatsScreen;
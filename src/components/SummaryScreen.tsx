@@ -0,0 +1,141 @@
+import React, { useMemo } from 'react';
+import { GameSession, bestRoundIndex, maxSessionScore, sessionTotal, worstRoundIndex } from '../game/session';
+import { formatDistance } from '../game/scoring';
+import { movementLabel } from '../game/movement';
+import { difficultyLabel } from '../game/difficulty';
+import { hintLabel } from '../game/hints';
+import { sessionRoundsSurvived } from '../game/elimination';
+import { Challenge, canChallenge } from '../game/challenge';
+import { boundsOf } from '../geo/types';
+import { mapProvider } from '../maps';
+import { MapLine, MapMarker } from '../maps/types';
+import ChallengeComparison from './ChallengeComparison';
+import ChallengeLink from './ChallengeLink';
+import ShareResult from './ShareResult';
+import RankedScore from './RankedScore';
+import { RankedGame } from '../leaderboard/rankedGame';
+
+interface SummaryScreenProps {
+    session: GameSession;
+    maxRoundPoints: number;
+    // The challenge this game was played against, if any
+    challenge: Challenge | null;
+    createChallengeLink: (senderName: string) => string;
+    // Set when the game was played for the leaderboards
+    ranked: RankedGame | null;
+    onPlayAgain: () => void;
+}
+
+const formatRoundDistance = (distance: number | null): string =>
+    distance === null ? 'Skipped' : formatDistance(distance);
+
+const formatTime = (milliseconds: number): string => `${(milliseconds / 1000).toFixed(1)} s`;
+
+const SummaryScreen: React.FC<SummaryScreenProps> = ({ session, maxRoundPoints, challenge, createChallengeLink, ranked, onPlayAgain }) => {
+    const best = bestRoundIndex(session);
+    const worst = worstRoundIndex(session);
+    const survived = sessionRoundsSurvived(session)?.[0] ?? null;
+    const challengeable = canChallenge(session);
+
+    // Fit every answer and guess on screen
+    const points = useMemo(
+        () => session.rounds.flatMap(round => round.guess ? [round.actual, round.guess] : [round.actual]),
+        [session]
+    );
+    const markers: MapMarker[] = session.rounds.flatMap((round, index) => [
+        { id: `actual-${index}`, position: round.actual, kind: 'answer', label: String(index + 1) },
+        ...(round.guess ? [{ id: `guess-${index}`, position: round.guess, kind: 'guess' } as const] : []),
+    ]);
+    const lines: MapLine[] = session.rounds.flatMap((round, index) => round.guess ? [{
+        id: `line-${index}`,
+        path: [round.guess, round.actual],
+        color: index === best ? '#16A34A' : '#FF0000',
+    }] : []);
+
+    return (
+        <div className="fixed inset-0 z-[60] flex flex-col md:flex-row bg-gray-100">
+            <div className="md:w-96 p-6 bg-white shadow-lg overflow-y-auto">
+                <h1 className="text-2xl font-bold text-blue-600 mb-1">Game Over</h1>
+                <p className="text-gray-600 mb-4">{session.regionName} &middot; {session.rounds.length} rounds &middot; {movementLabel(session.settings.movement)} &middot; {difficultyLabel(session.settings.difficulty.preset)}</p>
+
+                <p className="text-4xl font-bold mb-1">{sessionTotal(session)}</p>
+                <p className={`text-gray-500 ${survived === null ? 'mb-6' : 'mb-2'}`}>out of {maxSessionScore(session, maxRoundPoints)} points</p>
+                {survived !== null && (
+                    <p className="font-semibold mb-6">
+                        Survived {survived} {survived === 1 ? 'round' : 'rounds'}
+                    </p>
+                )}
+
+                {challenge && <ChallengeComparison challenge={challenge} session={session} />}
+
+                <table className="w-full text-sm mb-6">
+                    <thead>
+                        <tr className="text-left text-gray-500">
+                            <th className="py-1">Round</th>
+                            <th className="py-1">Distance</th>
+                            <th className="py-1">Time</th>
+                            <th className="py-1 text-right">Points</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {session.rounds.map((round, index) => (
+                            <tr
+                                key={index}
+                                className={`border-t ${index === best ? 'bg-green-50' : ''} ${index === worst && worst !== best ? 'bg-red-50' : ''}`}
+                            >
+                                <td className="py-1">
+                                    {index + 1}
+                                    {round.hintUsed && <span title={round.hints ? `Hints: ${round.hints.map(hintLabel).join(', ')}` : 'Hint used'}> 💡</span>}
+                                    {round.travelled !== undefined && <span title={`Walked ${formatDistance(round.travelled)}`}> 🚶</span>}
+                                </td>
+                                <td className="py-1">{formatRoundDistance(round.distance)}</td>
+                                <td className="py-1">{formatTime(round.timeTaken)}</td>
+                                <td className="py-1 text-right">{round.points}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+
+                {best !== null && (
+                    <p className="text-sm mb-1">
+                        <span className="font-semibold text-green-700">Best:</span> Round {best + 1} ({formatRoundDistance(session.rounds[best].distance)})
+                    </p>
+                )}
+                {worst !== null && worst !== best && (
+                    <p className="text-sm mb-6">
+                        <span className="font-semibold text-red-700">Worst:</span> Round {worst + 1} ({formatRoundDistance(session.rounds[worst].distance)})
+                    </p>
+                )}
+
+                {ranked && <RankedScore ranked={ranked} />}
+
+                <ShareResult
+                    session={session}
+                    maxScore={maxSessionScore(session, maxRoundPoints)}
+                    createChallengeLink={challengeable ? () => createChallengeLink('') : null}
+                />
+
+                {challengeable && <ChallengeLink createLink={createChallengeLink} />}
+
+                <button
+                    onClick={onPlayAgain}
+                    className="w-full bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700 font-semibold"
+                >
+                    Play Again
+                </button>
+            </div>
+
+            <div className="flex-1 min-h-[300px]">
+                <mapProvider.MapView
+                    height="100%"
+                    bounds={boundsOf(points)}
+                    focus={points}
+                    markers={markers}
+                    lines={lines}
+                />
+            </div>
+        </div>
+    );
+};
+
+export default SummaryScreen;
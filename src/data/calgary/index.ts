@@ -0,0 +1,35 @@
+import { Feature, FeatureCollection, LineString, Point, PolygonGeometry } from '../../geo/geojson';
+import { DensityProperties, ExclusionProperties, SamplingArea } from '../../geo/sampling';
+import { CommunityProperties } from '../../game/communities';
+import { LandmarkProperties } from '../../game/landmarks';
+import { LocationPack } from '../../game/packs';
+import boundary from './boundary.json';
+import communities from './communities.json';
+import exclusions from './exclusions.json';
+import landmarks from './landmarks.json';
+import rivers from './rivers.json';
+import roadDensity from './road-density.json';
+import campusesPack from './packs/campuses.json';
+import ctrainPack from './packs/ctrain.json';
+import historicPack from './packs/historic.json';
+import parksPack from './packs/parks.json';
+import stampedePack from './packs/stampede.json';
+
+// JSON imports are typed loosely (string instead of 'Polygon' etc.), so narrow them here once
+export const CALGARY_AREA: SamplingArea = {
+    boundary: (boundary as unknown as Feature<Record<string, unknown>, PolygonGeometry>).geometry,
+    exclusions: exclusions as unknown as FeatureCollection<ExclusionProperties>,
+    density: roadDensity as unknown as FeatureCollection<DensityProperties>,
+};
+
+// Simplified, approximate community boundaries for the inner city
+export const CALGARY_COMMUNITIES = communities as unknown as FeatureCollection<CommunityProperties>;
+
+// C-Train stations and well-known landmarks, for offline hints
+export const CALGARY_LANDMARKS = landmarks as unknown as FeatureCollection<LandmarkProperties, Point>;
+
+// Rough river courses, drawn on the offline demo map
+export const CALGARY_RIVERS = rivers as unknown as FeatureCollection<{ name: string }, LineString>;
+
+// Curated location packs, in the order they're offered
+export const CALGARY_PACKS: LocationPack[] = [ctrainPack, campusesPack, parksPack, historicPack, stampedePack];
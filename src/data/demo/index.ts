@@ -0,0 +1,58 @@
+import { LatLng } from '../../geo/types';
+import bownessPark from './bowness-park.svg';
+import inglewood from './inglewood.svg';
+import noseHill from './nose-hill.svg';
+import stampedePark from './stampede-park.svg';
+import stephenAvenue from './stephen-avenue.svg';
+import tuscany from './tuscany.svg';
+
+// Panoramas bundled for demo mode. The images are equirectangular: the left
+// edge faces north, headings increase to the right and the horizon sits
+// around the middle.
+
+export interface DemoPanorama {
+    pano: string;
+    position: LatLng;
+    // Street name for the street hint
+    street: string;
+    image: string;
+}
+
+export const DEMO_PANORAMAS: DemoPanorama[] = [
+    {
+        pano: 'demo-stephen-avenue',
+        position: { lat: 51.04525, lng: -114.06507 },
+        street: 'Stephen Avenue SW',
+        image: stephenAvenue,
+    },
+    {
+        pano: 'demo-stampede-park',
+        position: { lat: 51.03946, lng: -114.05462 },
+        street: 'Olympic Way SE',
+        image: stampedePark,
+    },
+    {
+        pano: 'demo-bowness-park',
+        position: { lat: 51.09735, lng: -114.22255 },
+        street: '48 Avenue NW',
+        image: bownessPark,
+    },
+    {
+        pano: 'demo-nose-hill',
+        position: { lat: 51.10958, lng: -114.10985 },
+        street: '14 Street NW',
+        image: noseHill,
+    },
+    {
+        pano: 'demo-inglewood',
+        position: { lat: 51.03831, lng: -114.02226 },
+        street: '9 Avenue SE',
+        image: inglewood,
+    },
+    {
+        pano: 'demo-tuscany',
+        position: { lat: 51.12561, lng: -114.24379 },
+        street: 'Tuscany Boulevard NW',
+        image: tuscany,
+    },
+];
@@ -1,9 +1,11 @@
 /// <reference types="vite/client" />
 
 interface ImportMetaEnv {
-    readonly VITE_GOOGLE_MAPS_API_KEY: string
+    readonly VITE_GOOGLE_MAPS_API_KEY?: string
+    // 'offline' plays the bundled demo panoramas even when a key is set
+    readonly VITE_MAP_PROVIDER?: 'google' | 'offline'
 }
 
 interface ImportMeta {
     readonly env: ImportMetaEnv
-} 
\ No newline at end of file
+}
@@ -0,0 +1,26 @@
+import { loadJSON, saveJSON } from '../storage';
+
+export interface AccessibilitySettings {
+    // Solid, high-contrast result overlays and thicker lines on the map
+    highContrast: boolean;
+    // No fades between the panorama and the map, and no animated panning
+    reducedMotion: boolean;
+}
+
+const ACCESSIBILITY_KEY = 'accessibility';
+
+// Seconds left at which the countdown is read out
+export const COUNTDOWN_MILESTONES = [30, 10, 5];
+
+const prefers = (query: string): boolean => window.matchMedia?.(query).matches ?? false;
+
+// Defaults follow the system settings until the player picks their own
+export const loadAccessibilitySettings = (): AccessibilitySettings => ({
+    highContrast: prefers('(prefers-contrast: more)'),
+    reducedMotion: prefers('(prefers-reduced-motion: reduce)'),
+    ...loadJSON<Partial<AccessibilitySettings>>(ACCESSIBILITY_KEY, {}),
+});
+
+export const saveAccessibilitySettings = (settings: AccessibilitySettings): void => {
+    saveJSON(ACCESSIBILITY_KEY, settings);
+};
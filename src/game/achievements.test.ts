@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_REGION } from '../regions';
+import { ACHIEVEMENTS, AchievementRule, AchievementState, EMPTY_ACHIEVEMENTS, achievementProgress, evaluateAchievements, sessionEvents } from './achievements';
+import { GameSession, RoundRecord, addRound, createSession } from './session';
+import { DEFAULT_GAME_SETTINGS } from './settings';
+
+const round = (distance: number | null, overrides: Partial<RoundRecord> = {}): RoundRecord => ({
+    pano: 'pano',
+    actual: { lat: 51.05, lng: -114.07 },
+    guess: distance === null ? null : { lat: 51.05, lng: -114.07 },
+    distance,
+    points: 0,
+    timeTaken: 5000,
+    hintUsed: false,
+    ...overrides,
+});
+
+const gameOf = (rounds: RoundRecord[]): GameSession =>
+    rounds.reduce(addRound, createSession(DEFAULT_REGION, { ...DEFAULT_GAME_SETTINGS, rounds: rounds.length }));
+
+const game = (distances: (number | null)[]): GameSession => gameOf(distances.map(distance => round(distance)));
+
+// Feeds every event of a game through the engine, like recordAchievements does round by round
+const playGame = (state: AchievementState, distances: (number | null)[], rules?: AchievementRule[]) => {
+    const session = game(distances);
+    const events = session.rounds.flatMap((_, index) => sessionEvents({ ...session, rounds: session.rounds.slice(0, index + 1) }));
+    return events.reduce<{ state: AchievementState; unlocked: string[] }>((acc, event) => {
+        const next = evaluateAchievements(acc.state, event, 1000, rules);
+        return { state: next.state, unlocked: [...acc.unlocked, ...next.unlocked.map(rule => rule.id)] };
+    }, { state, unlocked: [] });
+};
+
+describe('evaluateAchievements', () => {
+    it('unlocks a round achievement from a single round', () => {
+        const session = game([80]);
+        const { state, unlocked } = evaluateAchievements(EMPTY_ACHIEVEMENTS, { type: 'round', session, round: session.rounds[0] }, 1000);
+        expect(unlocked.map(rule => rule.id)).toEqual(['bullseye']);
+        expect(state.unlocked.bullseye).toBe(1000);
+    });
+
+    it('only counts a community round as a bullseye when the right community was picked', () => {
+        const community = (result: 'exact' | 'adjacent') => ({ answerId: 'a', answerName: 'A', guessId: 'b', guessName: 'B', result });
+        const session = gameOf([round(60, { community: community('adjacent') }), round(900, { community: community('exact') })]);
+        const unlockedBy = (index: number) => evaluateAchievements(
+            EMPTY_ACHIEVEMENTS, { type: 'round', session, round: session.rounds[index] }, 1000
+        ).unlocked.map(rule => rule.id);
+        expect(unlockedBy(0)).not.toContain('bullseye');
+        expect(unlockedBy(1)).toContain('bullseye');
+    });
+
+    it('leaves achievements locked when the rule fails', () => {
+        const session = game([150]);
+        const { unlocked } = evaluateAchievements(EMPTY_ACHIEVEMENTS, { type: 'round', session, round: session.rounds[0] });
+        expect(unlocked).toEqual([]);
+    });
+
+    it('never unlocks the same achievement twice', () => {
+        const first = playGame(EMPTY_ACHIEVEMENTS, [10, 10, 10]);
+        expect(first.unlocked.filter(id => id === 'bullseye')).toHaveLength(1);
+        expect(first.unlocked).toContain('flawless');
+
+        const again = playGame(first.state, [10, 10, 10]);
+        expect(again.unlocked).toEqual([]);
+        expect(again.state.unlocked.bullseye).toBe(first.state.unlocked.bullseye);
+    });
+
+    it('only unlocks game achievements once the game is finished', () => {
+        const session = game([10, 10]);
+        const partial = { ...session, rounds: session.rounds.slice(0, 1) };
+        expect(sessionEvents(partial).map(event => event.type)).toEqual(['round']);
+        expect(sessionEvents(session).map(event => event.type)).toEqual(['round', 'game']);
+    });
+
+    it('fails a flawless game that used a hint', () => {
+        const session = gameOf([round(10), round(10, { hintUsed: true })]);
+        const { unlocked } = evaluateAchievements(EMPTY_ACHIEVEMENTS, { type: 'game', session });
+        expect(unlocked.map(rule => rule.id)).not.toContain('flawless');
+    });
+
+    it('needs a streak of successful games in a row', () => {
+        let state = EMPTY_ACHIEVEMENTS;
+        for (let index = 0; index < 4; index++) {
+            state = playGame(state, [2000]).state;
+        }
+        expect(achievementProgress(ACHIEVEMENTS.find(rule => rule.id === 'on-a-roll') as AchievementRule, state)).toEqual({ current: 4, target: 5 });
+
+        // A miss starts the run again
+        state = playGame(state, [5000]).state;
+        expect(state.streaks['on-a-roll']).toBe(0);
+        for (let index = 0; index < 4; index++) {
+            state = playGame(state, [2000]).state;
+        }
+        const last = playGame(state, [2000]);
+        expect(last.unlocked).toContain('on-a-roll');
+    });
+
+    it('collects distinct ids until the target is reached', () => {
+        const rules: AchievementRule[] = [{
+            id: 'collector',
+            title: 'Collector',
+            description: 'Play rounds at three distances',
+            icon: '📦',
+            kind: 'collection',
+            target: 3,
+            collect: (played) => played.distance === null ? null : String(played.distance),
+        }];
+        const first = playGame(EMPTY_ACHIEVEMENTS, [100, 100, null, 200], rules);
+        expect(first.unlocked).toEqual([]);
+        expect(first.state.collections.collector).toEqual(['100', '200']);
+
+        const second = playGame(first.state, [300], rules);
+        expect(second.unlocked).toEqual(['collector']);
+    });
+});
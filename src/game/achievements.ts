@@ -0,0 +1,199 @@
+import { CALGARY_COMMUNITIES } from '../data/calgary';
+import { REGIONS, getQuadrant } from '../regions';
+import { loadJSON, saveJSON } from '../storage';
+import { findCommunity, getCommunitySet } from './communities';
+import { GameSession, RoundRecord, isSessionComplete } from './session';
+
+// Achievements are declared as data: each rule says what it looks at (a
+// single round, a finished game, a run of games or a collection built up
+// over many rounds) and the engine below keeps the progress. Adding one is
+// a matter of adding an entry to ACHIEVEMENTS.
+
+export interface AchievementInfo {
+    id: string;
+    title: string;
+    description: string;
+    icon: string;
+}
+
+export type AchievementRule = AchievementInfo & (
+    // Any single round passing the test
+    | { kind: 'round'; test: (round: RoundRecord, session: GameSession) => boolean }
+    // A finished game passing the test
+    | { kind: 'game'; test: (session: GameSession) => boolean }
+    // `length` finished games in a row passing the test
+    | { kind: 'streak'; length: number; test: (session: GameSession) => boolean }
+    // `target` different ids collected from rounds, across any number of games
+    | { kind: 'collection'; target: number; collect: (round: RoundRecord, session: GameSession) => string | null }
+);
+
+export interface AchievementState {
+    // Achievement id -> when it was unlocked
+    unlocked: Record<string, number>;
+    // Current run of streak rules
+    streaks: Record<string, number>;
+    // Ids gathered so far by collection rules
+    collections: Record<string, string[]>;
+}
+
+// A round was just played, or a game just finished
+export type AchievementEvent =
+    | { type: 'round'; session: GameSession; round: RoundRecord }
+    | { type: 'game'; session: GameSession };
+
+const isPerfectRound = (round: RoundRecord, session: GameSession): boolean =>
+    round.community
+        ? round.community.result === 'exact'
+        : round.distance !== null && round.distance <= session.settings.scoring.perfectRadius;
+
+const isSuccessfulRound = (round: RoundRecord, session: GameSession): boolean =>
+    round.community
+        ? round.community.result === 'exact'
+        : round.distance !== null && round.distance <= session.settings.scoring.successRadius;
+
+const calgaryCommunities = getCommunitySet(CALGARY_COMMUNITIES, REGIONS.calgary.area);
+
+// Rounds anywhere in Calgary count, including those from location sets
+const calgaryCommunityAt = (round: RoundRecord) => findCommunity(calgaryCommunities, round.actual);
+
+export const ACHIEVEMENTS: AchievementRule[] = [
+    {
+        id: 'bullseye',
+        title: 'Bullseye',
+        description: 'Guess within 100 m of the answer',
+        icon: '🎯',
+        kind: 'round',
+        // Community rounds measure from the picked community's center, so only the right pick counts
+        test: (round) => round.community
+            ? round.community.result === 'exact'
+            : round.distance !== null && round.distance < 100,
+    },
+    {
+        id: 'on-a-roll',
+        title: 'On a Roll',
+        description: 'Finish 5 games in a row with every round within the success radius',
+        icon: '🔥',
+        kind: 'streak',
+        length: 5,
+        test: (session) => session.rounds.every(round => isSuccessfulRound(round, session)),
+    },
+    {
+        id: 'four-quadrants',
+        title: 'NE, NW, SE, SW',
+        description: "Play a round in each of Calgary's four quadrants",
+        icon: '🧭',
+        kind: 'collection',
+        target: 4,
+        collect: (round) => calgaryCommunityAt(round) ? getQuadrant(REGIONS.calgary, round.actual) : null,
+    },
+    {
+        id: 'flawless',
+        title: 'Flawless',
+        description: 'Finish a game with every round perfect and no hints',
+        icon: '💎',
+        kind: 'game',
+        test: (session) => session.rounds.every(round => !round.hintUsed && isPerfectRound(round, session)),
+    },
+    {
+        id: 'know-your-neighbours',
+        title: 'Know Your Neighbours',
+        description: 'Play a round in every Calgary community',
+        icon: '🏘️',
+        kind: 'collection',
+        target: calgaryCommunities.communities.length,
+        collect: (round) => calgaryCommunityAt(round)?.id ?? null,
+    },
+];
+
+export const EMPTY_ACHIEVEMENTS: AchievementState = { unlocked: {}, streaks: {}, collections: {} };
+
+const ACHIEVEMENTS_KEY = 'achievements';
+
+export const loadAchievements = (): AchievementState => ({
+    ...EMPTY_ACHIEVEMENTS,
+    ...loadJSON<Partial<AchievementState>>(ACHIEVEMENTS_KEY, {}),
+});
+
+export const saveAchievements = (state: AchievementState): void => {
+    saveJSON(ACHIEVEMENTS_KEY, state);
+};
+
+// Applies one event to the progress, returning the new state and any
+// achievements it unlocked. Pure, so rules can be checked without a browser.
+export const evaluateAchievements = (
+    state: AchievementState,
+    event: AchievementEvent,
+    now: number = Date.now(),
+    rules: AchievementRule[] = ACHIEVEMENTS
+): { state: AchievementState; unlocked: AchievementRule[] } => {
+    const next: AchievementState = {
+        unlocked: { ...state.unlocked },
+        streaks: { ...state.streaks },
+        collections: { ...state.collections },
+    };
+    const unlocked: AchievementRule[] = [];
+
+    rules.forEach((rule) => {
+        if (next.unlocked[rule.id]) {
+            return;
+        }
+        let earned = false;
+        if (rule.kind === 'round' && event.type === 'round') {
+            earned = rule.test(event.round, event.session);
+        } else if (rule.kind === 'game' && event.type === 'game') {
+            earned = rule.test(event.session);
+        } else if (rule.kind === 'streak' && event.type === 'game') {
+            const run = rule.test(event.session) ? (next.streaks[rule.id] ?? 0) + 1 : 0;
+            next.streaks[rule.id] = run;
+            earned = run >= rule.length;
+        } else if (rule.kind === 'collection' && event.type === 'round') {
+            const id = rule.collect(event.round, event.session);
+            const collected = next.collections[rule.id] ?? [];
+            if (id !== null && !collected.includes(id)) {
+                next.collections[rule.id] = [...collected, id];
+            }
+            earned = (next.collections[rule.id]?.length ?? 0) >= rule.target;
+        }
+        if (earned) {
+            next.unlocked[rule.id] = now;
+            unlocked.push(rule);
+        }
+    });
+
+    return { state: next, unlocked };
+};
+
+// Events for the round just added to the session, and for the game if that finished it
+export const sessionEvents = (session: GameSession): AchievementEvent[] => {
+    const round = session.rounds[session.rounds.length - 1];
+    if (!round) {
+        return [];
+    }
+    const events: AchievementEvent[] = [{ type: 'round', session, round }];
+    return isSessionComplete(session) ? [...events, { type: 'game', session }] : events;
+};
+
+// Updates the saved progress with the session's latest round, returning
+// anything newly unlocked
+export const recordAchievements = (session: GameSession): AchievementRule[] => {
+    const result = sessionEvents(session).reduce<{ state: AchievementState; unlocked: AchievementRule[] }>(
+        (acc, event) => {
+            const next = evaluateAchievements(acc.state, event);
+            return { state: next.state, unlocked: [...acc.unlocked, ...next.unlocked] };
+        },
+        { state: loadAchievements(), unlocked: [] }
+    );
+    saveAchievements(result.state);
+    return result.unlocked;
+};
+
+// How far along a locked achievement is, for the gallery
+export const achievementProgress = (rule: AchievementRule, state: AchievementState): { current: number; target: number } | null => {
+    if (rule.kind === 'streak') {
+        return { current: state.streaks[rule.id] ?? 0, target: rule.length };
+    }
+    if (rule.kind === 'collection') {
+        return { current: state.collections[rule.id]?.length ?? 0, target: rule.target };
+    }
+    return null;
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_REGION, serializeRegion } from '../regions';
+import { canChallenge, challengeFromSession, decodeChallenge, encodeChallenge } from './challenge';
+import { eliminationSettings } from './elimination';
+import { GameSession, RoundRecord, addRound, createSession } from './session';
+import { DEFAULT_GAME_SETTINGS, GameSettings } from './settings';
+
+const round = (index: number, distance: number | null): RoundRecord => ({
+    pano: `pano-${index}`,
+    actual: { lat: 51 + index / 100, lng: -114 - index / 100 },
+    guess: distance === null ? null : { lat: 51, lng: -114 },
+    distance,
+    points: distance === null ? 0 : 1000 * index,
+    timeTaken: 5000,
+    hintUsed: false,
+});
+
+const play = (settings: GameSettings, distances: (number | null)[]): GameSession =>
+    distances.map((distance, index) => round(index, distance))
+        .reduce(addRound, createSession(DEFAULT_REGION, settings));
+
+describe('challenge links', () => {
+    it('round-trips a classic game through its token', () => {
+        const session = play({ ...DEFAULT_GAME_SETTINGS, rounds: 3 }, [100, null, 2500]);
+        const challenge = challengeFromSession(session, serializeRegion(DEFAULT_REGION), 'Sam');
+        const decoded = decodeChallenge(encodeChallenge(challenge));
+
+        expect(canChallenge(session)).toBe(true);
+        expect(decoded?.locations?.map(location => location.pano)).toEqual(['pano-0', 'pano-1', 'pano-2']);
+        expect(decoded?.sender).toEqual({ name: 'Sam', score: 2000, roundPoints: [0, 0, 2000] });
+        expect(decoded?.settings.rounds).toBe(3);
+    });
+
+    it('shares the rounds a seeded game played rather than its seed', () => {
+        const session = [100, 200, 300].map((distance, index) => round(index, distance))
+            .reduce(addRound, createSession(DEFAULT_REGION, { ...DEFAULT_GAME_SETTINGS, rounds: 3 }, { mode: 'daily', seed: 'daily:2026-10-18:calgary' }));
+        const decoded = decodeChallenge(encodeChallenge(challengeFromSession(session, serializeRegion(DEFAULT_REGION), 'Sam')));
+
+        expect(decoded?.seed).toBeNull();
+        expect(decoded?.locations?.map(location => location.pano)).toEqual(['pano-0', 'pano-1', 'pano-2']);
+    });
+
+    it('keeps battle royale games out of challenge links', () => {
+        // Eliminated in the third round, well short of the settings' round count
+        const session = play(eliminationSettings(DEFAULT_GAME_SETTINGS), [null, null, null]);
+        const token = encodeChallenge(challengeFromSession(session, serializeRegion(DEFAULT_REGION), 'Sam'));
+
+        expect(canChallenge(session)).toBe(false);
+        expect(decodeChallenge(token)).toBeNull();
+    });
+
+    it('rejects tokens with fewer locations than rounds', () => {
+        const session = play({ ...DEFAULT_GAME_SETTINGS, rounds: 3 }, [100, 200, 300]);
+        const challenge = challengeFromSession(session, serializeRegion(DEFAULT_REGION), 'Sam');
+
+        expect(decodeChallenge(encodeChallenge({ ...challenge, locations: challenge.locations?.slice(0, 2) ?? null }))).toBeNull();
+    });
+});
@@ -0,0 +1,143 @@
+import { StoredRegion } from '../regions';
+import { PanoramaResult } from '../streetview/lookup';
+import { GameSession, sessionTotal } from './session';
+import { GameSettings, normalizeGameSettings } from './settings';
+import { hashString } from './random';
+
+// Challenge links share an exact game: `/c/<token>`. The token is
+// `<version>.<base64url JSON>.<checksum>`. The checksum only stops casual
+// edits to the URL (the salt ships with the client), not a determined cheat.
+
+export const CHALLENGE_VERSION = 1;
+
+export interface Challenge {
+    region: StoredRegion;
+    settings: GameSettings;
+    // Either the exact locations, or a seed that regenerates them
+    locations: PanoramaResult[] | null;
+    seed: string | null;
+    sender: {
+        name: string;
+        score: number;
+        roundPoints: number[];
+    };
+}
+
+// Wire format with short keys to keep links compact
+interface ChallengePayloadV1 {
+    r: StoredRegion;
+    g: GameSettings;
+    // [pano, lat, lng] plus the starting heading for location set pins
+    l?: [string, number, number, number?][];
+    s?: string;
+    n: string;
+    p: number;
+    q: number[];
+}
+
+const CHECKSUM_SALT = 'neighbourguessr-challenge';
+const CHALLENGE_PATH = /^\/c\/([A-Za-z0-9._-]+)\/?$/;
+
+const round6 = (value: number): number => Math.round(value * 1e6) / 1e6;
+
+const toBase64Url = (text: string): string => {
+    const bytes = new TextEncoder().encode(text);
+    let binary = '';
+    bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string): string => {
+    const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+    const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+    return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+};
+
+const checksum = (version: number, body: string): string => {
+    const first = hashString(`${CHECKSUM_SALT}:${version}:${body}`);
+    const second = hashString(`${body}:${version}:${CHECKSUM_SALT}`);
+    return first.toString(36) + second.toString(36);
+};
+
+export const encodeChallenge = (challenge: Challenge): string => {
+    const payload: ChallengePayloadV1 = {
+        r: challenge.region,
+        g: challenge.settings,
+        n: challenge.sender.name,
+        p: challenge.sender.score,
+        q: challenge.sender.roundPoints,
+    };
+    if (challenge.seed) {
+        payload.s = challenge.seed;
+    } else if (challenge.locations) {
+        payload.l = challenge.locations.map(({ pano, position, heading }) => heading === undefined
+            ? [pano, round6(position.lat), round6(position.lng)]
+            : [pano, round6(position.lat), round6(position.lng), Math.round(heading)]);
+    }
+    const body = toBase64Url(JSON.stringify(payload));
+    return `${CHALLENGE_VERSION}.${body}.${checksum(CHALLENGE_VERSION, body)}`;
+};
+
+const isValidPayload = (payload: ChallengePayloadV1): boolean =>
+    typeof payload.r?.id === 'string' &&
+    typeof payload.g?.rounds === 'number' &&
+    typeof payload.n === 'string' &&
+    typeof payload.p === 'number' &&
+    Array.isArray(payload.q) &&
+    // Battle royale games can't be shared, see canChallenge
+    (payload.g.lives ?? null) === null &&
+    (typeof payload.s === 'string' || (Array.isArray(payload.l) && payload.l.length >= payload.g.rounds));
+
+// Returns null for malformed, tampered or unsupported tokens
+export const decodeChallenge = (token: string): Challenge | null => {
+    const [versionPart, body, signature] = token.split('.');
+    const version = Number(versionPart);
+    if (version !== CHALLENGE_VERSION || !body || signature !== checksum(version, body)) {
+        console.warn('Rejected challenge token: bad version or checksum');
+        return null;
+    }
+    try {
+        const payload = JSON.parse(fromBase64Url(body)) as ChallengePayloadV1;
+        if (!isValidPayload(payload)) {
+            console.warn('Rejected challenge token: invalid payload');
+            return null;
+        }
+        return {
+            region: payload.r,
+            settings: normalizeGameSettings(payload.g),
+            locations: payload.l?.map(([pano, lat, lng, heading]) => ({ pano, position: { lat, lng }, heading })) ?? null,
+            seed: payload.s ?? null,
+            sender: { name: payload.n, score: payload.p, roundPoints: payload.q },
+        };
+    } catch (error) {
+        console.warn('Rejected challenge token:', error);
+        return null;
+    }
+};
+
+export const readChallengeToken = (pathname: string): string | null =>
+    CHALLENGE_PATH.exec(pathname)?.[1] ?? null;
+
+export const challengeUrl = (token: string): string => `${window.location.origin}/c/${token}`;
+
+// Battle royale games end whenever the lives run out, so there's no fixed set
+// of rounds for someone else to play
+export const canChallenge = (session: GameSession): boolean => session.settings.lives === null;
+
+export const challengeFromSession = (session: GameSession, region: StoredRegion, senderName: string): Challenge => ({
+    region,
+    settings: session.settings,
+    // The rounds as played, even in seeded games: a seed can give other
+    // panoramas once Street View coverage changes
+    locations: session.rounds.map(({ pano, actual }) => ({
+        pano,
+        position: actual,
+        heading: region.set?.pins.find(pin => pin.pano === pano)?.heading,
+    })),
+    seed: null,
+    sender: {
+        name: senderName,
+        score: sessionTotal(session),
+        roundPoints: session.rounds.map(round => round.points),
+    },
+});
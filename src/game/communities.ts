@@ -0,0 +1,109 @@
+import { LatLng } from '../geo/types';
+import { Feature, FeatureCollection, MultiPolygon, PolygonGeometry } from '../geo/geojson';
+import { RandomSource, SamplingArea } from '../geo/sampling';
+import { geometryCentroid, pointInPolygon, polygonsTouch } from '../geo/polygon';
+
+export interface CommunityProperties {
+    name: string;
+    sector: string;
+}
+
+export interface Community {
+    id: string;
+    name: string;
+    sector: string;
+    geometry: PolygonGeometry;
+    centroid: LatLng;
+}
+
+export interface CommunitySet {
+    communities: Community[];
+    // Community id -> ids of communities sharing a border
+    adjacency: Map<string, Set<string>>;
+    // Sampling area covering every community, for choosing round locations
+    area: SamplingArea;
+}
+
+export type CommunityGuessResult = 'exact' | 'adjacent' | 'miss';
+
+const toCommunity = (feature: Feature<CommunityProperties>, index: number): Community => ({
+    id: String(feature.id ?? index),
+    name: feature.properties.name,
+    sector: feature.properties.sector,
+    geometry: feature.geometry,
+    centroid: geometryCentroid(feature.geometry),
+});
+
+const communitySets = new WeakMap<FeatureCollection<CommunityProperties>, CommunitySet>();
+
+export const getCommunitySet = (collection: FeatureCollection<CommunityProperties>, baseArea?: SamplingArea): CommunitySet => {
+    const cached = communitySets.get(collection);
+    if (cached) {
+        return cached;
+    }
+
+    const communities = collection.features.map(toCommunity);
+    const adjacency = new Map(communities.map(community => [community.id, new Set<string>()]));
+    communities.forEach((a, i) => {
+        communities.slice(i + 1).forEach(b => {
+            if (polygonsTouch(a.geometry, b.geometry)) {
+                adjacency.get(a.id)?.add(b.id);
+                adjacency.get(b.id)?.add(a.id);
+            }
+        });
+    });
+
+    const boundary: MultiPolygon = {
+        type: 'MultiPolygon',
+        coordinates: communities.flatMap(({ geometry }) =>
+            geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates
+        ),
+    };
+
+    const set = { communities, adjacency, area: { ...baseArea, boundary } };
+    communitySets.set(collection, set);
+    return set;
+};
+
+export const findCommunity = (set: CommunitySet, point: LatLng): Community | null =>
+    set.communities.find(community => pointInPolygon(point, community.geometry)) ?? null;
+
+export const judgeCommunityGuess = (set: CommunitySet, answerId: string, guessId: string | null): CommunityGuessResult => {
+    if (guessId === answerId) {
+        return 'exact';
+    }
+    return guessId && set.adjacency.get(answerId)?.has(guessId) ? 'adjacent' : 'miss';
+};
+
+const shuffle = <T>(items: T[], random: RandomSource): T[] => {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+};
+
+// Multiple choice options: the answer, up to two neighbours to keep it
+// interesting, and random communities for the rest
+export const communityChoices = (
+    set: CommunitySet,
+    answerId: string,
+    count = 4,
+    random: RandomSource = Math.random
+): Community[] => {
+    const answer = set.communities.find(community => community.id === answerId);
+    if (!answer) {
+        return [];
+    }
+    const neighbours = shuffle([...(set.adjacency.get(answerId) ?? [])], random).slice(0, 2);
+    const others = shuffle(
+        set.communities.filter(community => community.id !== answerId && !neighbours.includes(community.id)),
+        random
+    );
+    const distractors = [
+        ...set.communities.filter(community => neighbours.includes(community.id)),
+        ...others,
+    ].slice(0, count - 1);
+    return shuffle([answer, ...distractors], random);
+};
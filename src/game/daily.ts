@@ -0,0 +1,67 @@
+import { loadJSON, saveJSON } from '../storage';
+import { GameSettings } from './settings';
+import { DEFAULT_SCORING } from './scoring';
+import { DEFAULT_MOVEMENT } from './movement';
+import { DEFAULT_TIMERS } from './roundFlow';
+import { DEFAULT_DIFFICULTY } from './difficulty';
+
+export interface DailyResult {
+    date: string;
+    regionKey: string;
+    startedAt: number;
+    // Null until the game is finished; an abandoned attempt still uses up the day
+    score: number | null;
+}
+
+type DailyResults = Record<string, DailyResult>;
+
+const DAILY_RESULTS_KEY = 'dailyResults';
+
+// Everyone plays the same rules so scores are comparable
+export const DAILY_SETTINGS: GameSettings = {
+    rounds: 5,
+    scoring: DEFAULT_SCORING,
+    movement: DEFAULT_MOVEMENT,
+    timers: DEFAULT_TIMERS,
+    difficulty: DEFAULT_DIFFICULTY,
+    lives: null,
+};
+
+// Dailies roll over at midnight UTC so players in every time zone share a seed
+export const dailyDate = (date: Date = new Date()): string => date.toISOString().slice(0, 10);
+
+export const dailySeed = (date: string, regionKey: string): string => `daily:${date}:${regionKey}`;
+
+export const parseDailySeed = (seed: string): { date: string; regionKey: string } | null => {
+    const match = /^daily:(\d{4}-\d{2}-\d{2}):(.+)$/.exec(seed);
+    return match ? { date: match[1], regionKey: match[2] } : null;
+};
+
+const resultKey = (date: string, regionKey: string): string => `${date}:${regionKey}`;
+
+const loadDailyResults = (): DailyResults => loadJSON<DailyResults>(DAILY_RESULTS_KEY, {});
+
+export const getDailyResult = (date: string, regionKey: string): DailyResult | null =>
+    loadDailyResults()[resultKey(date, regionKey)] ?? null;
+
+export const hasPlayedDaily = (date: string, regionKey: string): boolean =>
+    getDailyResult(date, regionKey) !== null;
+
+export const startDailyAttempt = (date: string, regionKey: string): void => {
+    const results = loadDailyResults();
+    results[resultKey(date, regionKey)] = { date, regionKey, startedAt: Date.now(), score: null };
+    saveJSON(DAILY_RESULTS_KEY, results);
+};
+
+export const finishDailyAttempt = (date: string, regionKey: string, score: number): void => {
+    const results = loadDailyResults();
+    const key = resultKey(date, regionKey);
+    results[key] = { ...(results[key] ?? { date, regionKey, startedAt: Date.now() }), score };
+    saveJSON(DAILY_RESULTS_KEY, results);
+};
+
+// Results for one region, most recent first
+export const listDailyResults = (regionKey: string): DailyResult[] =>
+    Object.values(loadDailyResults())
+        .filter(result => result.regionKey === regionKey)
+        .sort((a, b) => b.date.localeCompare(a.date));
@@ -0,0 +1,82 @@
+import { MapAppearance } from '../maps/types';
+import { GameSettings } from './settings';
+
+// Difficulty presets: how much the guess map gives away, whether it can be
+// peeked at while looking around, and how long the panorama is shown. Each
+// preset scores with its own multiplier (see ScoringConfig); any other mix
+// is a custom difficulty and scores ×1.
+
+export type DifficultyPreset = 'easy' | 'normal' | 'hard' | 'expert' | 'custom';
+
+export interface DifficultySettings extends MapAppearance {
+    preset: DifficultyPreset;
+    // Small guess map in the corner while looking around
+    mapWhileViewing: boolean;
+}
+
+interface PresetDefinition {
+    id: Exclude<DifficultyPreset, 'custom'>;
+    label: string;
+    description: string;
+    difficulty: Omit<DifficultySettings, 'preset'>;
+    viewTime: number | null;
+}
+
+export const DIFFICULTY_PRESETS: PresetDefinition[] = [
+    {
+        id: 'easy',
+        label: 'Easy',
+        description: 'Labelled map visible while you look around, 30 s to look',
+        difficulty: { satellite: false, roadLabels: true, poiLabels: true, minZoom: 9, maxZoom: 19, strictBounds: false, mapWhileViewing: true },
+        viewTime: 30,
+    },
+    {
+        id: 'normal',
+        label: 'Normal',
+        description: 'Labelled map after looking around for 10 s',
+        difficulty: { satellite: false, roadLabels: true, poiLabels: true, minZoom: 9, maxZoom: 18, strictBounds: false, mapWhileViewing: false },
+        viewTime: 10,
+    },
+    {
+        id: 'hard',
+        label: 'Hard',
+        description: 'No street or place names on the map',
+        difficulty: { satellite: false, roadLabels: false, poiLabels: false, minZoom: 10, maxZoom: 17, strictBounds: true, mapWhileViewing: false },
+        viewTime: 10,
+    },
+    {
+        id: 'expert',
+        label: 'Expert',
+        description: 'Unlabelled satellite map with limited zoom, 5 s to look',
+        difficulty: { satellite: true, roadLabels: false, poiLabels: false, minZoom: 11, maxZoom: 16, strictBounds: true, mapWhileViewing: false },
+        viewTime: 5,
+    },
+];
+
+// Matches how the game played before difficulties existed
+export const DEFAULT_DIFFICULTY: DifficultySettings = { preset: 'normal', ...DIFFICULTY_PRESETS[1].difficulty };
+
+export const DIFFICULTY_ZOOM_RANGE = { min: 9, max: 20 };
+
+export const difficultyLabel = (preset: DifficultyPreset): string =>
+    DIFFICULTY_PRESETS.find(option => option.id === preset)?.label ?? 'Custom';
+
+export const applyDifficultyPreset = (settings: GameSettings, preset: PresetDefinition): GameSettings => ({
+    ...settings,
+    difficulty: { preset: preset.id, ...preset.difficulty },
+    timers: { ...settings.timers, viewTime: preset.viewTime },
+});
+
+// Names the preset the settings match after an edit, or custom if none do
+export const matchDifficultyPreset = (settings: GameSettings): GameSettings => {
+    const match = DIFFICULTY_PRESETS.find(option =>
+        option.viewTime === settings.timers.viewTime
+        && (Object.keys(option.difficulty) as (keyof PresetDefinition['difficulty'])[])
+            .every(key => option.difficulty[key] === settings.difficulty[key])
+    );
+    return { ...settings, difficulty: { ...settings.difficulty, preset: match?.id ?? 'custom' } };
+};
+
+// Games saved before difficulties existed were played at normal
+export const gameDifficulty = (settings: Partial<GameSettings>): DifficultyPreset =>
+    settings.difficulty?.preset ?? DEFAULT_DIFFICULTY.preset;
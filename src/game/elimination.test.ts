@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_REGION } from '../regions';
+import { describeEliminationResult, eliminationSettings, eliminationThreshold, sessionLives, sessionRoundsSurvived } from './elimination';
+import { GameSession, RoundRecord, addRound, createSession, isSessionComplete, maxSessionScore, sessionLength } from './session';
+import { DEFAULT_GAME_SETTINGS } from './settings';
+
+const round = (distance: number | null): RoundRecord => ({
+    pano: 'pano',
+    actual: { lat: 51.05, lng: -114.07 },
+    guess: distance === null ? null : { lat: 51.05, lng: -114.07 },
+    distance,
+    points: 0,
+    timeTaken: 5000,
+    hintUsed: false,
+});
+
+const play = (distances: (number | null)[]): GameSession =>
+    distances.map(round).reduce(addRound, createSession(DEFAULT_REGION, eliminationSettings(DEFAULT_GAME_SETTINGS), { mode: 'elimination' }));
+
+describe('battle royale', () => {
+    it('keeps playing at the tightest threshold while lives are left', () => {
+        const session = play(Array(14).fill(10));
+
+        expect(eliminationThreshold(13)).toBe(25);
+        expect(sessionLength(session)).toBeNull();
+        expect(isSessionComplete(session)).toBe(false);
+        expect(sessionLives(session)).toEqual([3]);
+        expect(maxSessionScore(session, 5000)).toBe(14 * 5000);
+    });
+
+    it('ends when the last life is lost', () => {
+        const session = play([...Array(12).fill(10), 30, null, 10, 100]);
+
+        expect(isSessionComplete(session)).toBe(true);
+        expect(session.finishedAt).not.toBeNull();
+        expect(sessionRoundsSurvived(session)).toEqual([15]);
+    });
+
+    it('describes a guess by the round threshold, not the success radius', () => {
+        expect(describeEliminationResult(1500, 0).title).toContain('Safe');
+        expect(describeEliminationResult(1500, 2).title).toContain('Outside');
+        expect(describeEliminationResult(1500, 2).message).toContain('1.00 km');
+    });
+});
@@ -0,0 +1,102 @@
+import { GameSession } from './session';
+import { GameSettings } from './settings';
+import { ResultCopy, formatDistance } from './scoring';
+
+// Battle royale: everyone starts with a few lives and loses one for every
+// round they finish outside the threshold around the answer, which tightens
+// each round. There's no set number of rounds: the game ends when the lives
+// run out, or in multiplayer once at most one player is left standing.
+
+export const ELIMINATION_LIVES = 3;
+
+// Metres, starting at the usual 3 km success radius. Rounds after the last
+// one stay at the tightest threshold.
+const THRESHOLDS = [3000, 2000, 1000, 500, 250, 150, 100, 75, 50, 25];
+
+export const eliminationThreshold = (roundIndex: number): number =>
+    THRESHOLDS[Math.min(roundIndex, THRESHOLDS.length - 1)];
+
+// Skipped and timed-out rounds cost a life too
+export const costsLife = (distance: number | null, roundIndex: number): boolean =>
+    distance === null || distance > eliminationThreshold(roundIndex);
+
+// The round count is left as it was; it doesn't apply while there are lives
+export const eliminationSettings = (settings: GameSettings): GameSettings => ({
+    ...settings,
+    lives: ELIMINATION_LIVES,
+});
+
+// Result copy for a guess, judged by the round's threshold instead of the success radius
+export const describeEliminationResult = (distance: number, roundIndex: number): ResultCopy => {
+    const threshold = formatDistance(eliminationThreshold(roundIndex));
+    return costsLife(distance, roundIndex)
+        ? { title: '❌ Outside the circle! ❌', message: `You needed to be within ${threshold} of the location` }
+        : { title: '🎉 Safe! 🎉', message: `You were within ${threshold} of the location!` };
+};
+
+export const livesLeft = (distances: (number | null)[], lives: number): number =>
+    Math.max(0, lives - distances.filter((distance, index) => costsLife(distance, index)).length);
+
+// Rounds played before the one that cost the last life
+export const roundsSurvived = (distances: (number | null)[], lives: number): number => {
+    let left = lives;
+    for (let index = 0; index < distances.length; index++) {
+        if (costsLife(distances[index], index)) {
+            left -= 1;
+            if (left <= 0) {
+                return index;
+            }
+        }
+    }
+    return distances.length;
+};
+
+// Each player's distance by round; solo games have a single player
+const playerDistances = (session: GameSession): (number | null)[][] =>
+    session.players
+        ? session.players.map((_, player) => session.rounds.map(round => round.turns?.find(turn => turn.player === player)?.distance ?? null))
+        : [session.rounds.map(round => round.distance)];
+
+// Lives left per player, or null when the game isn't an elimination game
+export const sessionLives = (session: GameSession): number[] | null => {
+    const { lives } = session.settings;
+    return lives === null ? null : playerDistances(session).map(distances => livesLeft(distances, lives));
+};
+
+export const sessionRoundsSurvived = (session: GameSession): number[] | null => {
+    const { lives } = session.settings;
+    return lives === null ? null : playerDistances(session).map(distances => roundsSurvived(distances, lives));
+};
+
+export const isEliminationOver = (session: GameSession): boolean => {
+    const lives = sessionLives(session);
+    if (!lives) {
+        return false;
+    }
+    const standing = lives.filter(left => left > 0).length;
+    return lives.length > 1 ? standing <= 1 : standing === 0;
+};
+
+export const formatLives = (left: number, lives: number): string =>
+    '❤️'.repeat(left) + '🖤'.repeat(Math.max(0, lives - left));
+
+// What the latest round meant for the player's lives, once it's in the session
+export const describeEliminationRound = (session: GameSession, player: number = 0): string | null => {
+    const { lives } = session.settings;
+    const distances = playerDistances(session)[player];
+    if (lives === null || !distances || distances.length === 0) {
+        return null;
+    }
+    const roundIndex = distances.length - 1;
+    const threshold = formatDistance(eliminationThreshold(roundIndex));
+    if (livesLeft(distances.slice(0, roundIndex), lives) === 0) {
+        return 'Already eliminated';
+    }
+    const left = livesLeft(distances, lives);
+    if (!costsLife(distances[roundIndex], roundIndex)) {
+        return `Inside the ${threshold} circle. ${left} ${left === 1 ? 'life' : 'lives'} left.`;
+    }
+    return left === 0
+        ? `Outside the ${threshold} circle. Eliminated after ${roundsSurvived(distances, lives)} rounds!`
+        : `Outside the ${threshold} circle. You lose a life, ${left} left.`;
+};
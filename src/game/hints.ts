@@ -0,0 +1,69 @@
+import { LatLng } from '../geo/types';
+import { Region, formatAreaHint } from '../regions';
+import { findCommunity, getCommunitySet } from './communities';
+import { nearestLandmark } from './landmarks';
+import { formatDistance } from './scoring';
+
+// Hints form a ladder from vague to specific; each step costs more points
+export type HintTier = 'quadrant' | 'community' | 'landmark' | 'street';
+
+export const HINT_TIERS: { id: HintTier; label: string }[] = [
+    { id: 'quadrant', label: 'Quadrant' },
+    { id: 'community', label: 'Community' },
+    { id: 'landmark', label: 'Landmark' },
+    { id: 'street', label: 'Street' },
+];
+
+export interface Hint {
+    tier: HintTier;
+    text: string;
+}
+
+// A landmark further away than this says little about the location
+const MAX_LANDMARK_DISTANCE = 3000;
+
+// Resolves a tier from the region's bundled data, without any API calls.
+// Null when there's no data for this spot, and always for the street tier,
+// which needs the Geocoder.
+export const resolveOfflineHint = (region: Region, tier: HintTier, position: LatLng): string | null => {
+    switch (tier) {
+        case 'quadrant':
+            return formatAreaHint(region, position);
+        case 'community': {
+            const community = region.communities
+                ? findCommunity(getCommunitySet(region.communities, region.area), position)
+                : null;
+            return community ? `It's in ${community.name}` : null;
+        }
+        case 'landmark': {
+            const landmark = region.landmarks ? nearestLandmark(region.landmarks, position) : null;
+            if (!landmark || landmark.distance > MAX_LANDMARK_DISTANCE) {
+                return null;
+            }
+            const name = landmark.kind === 'station'
+                ? `${landmark.name} station${landmark.line ? ` (${landmark.line} Line)` : ''}`
+                : landmark.name;
+            return `About ${formatDistance(Math.round(landmark.distance / 100) * 100)} from ${name}`;
+        }
+        case 'street':
+            return null;
+    }
+};
+
+// The next rung of the ladder that has something to say here, skipping tiers
+// without data and any in `excluded`. Null once the ladder is exhausted.
+export const nextHintTier = (
+    region: Region,
+    position: LatLng,
+    used: HintTier[],
+    excluded: HintTier[] = []
+): HintTier | null => {
+    const start = Math.max(-1, ...used.map(tier => HINT_TIERS.findIndex(option => option.id === tier))) + 1;
+    const next = HINT_TIERS.slice(start).find(({ id }) =>
+        !excluded.includes(id) && (id === 'street' || resolveOfflineHint(region, id, position) !== null)
+    );
+    return next?.id ?? null;
+};
+
+export const hintLabel = (tier: HintTier): string =>
+    HINT_TIERS.find(option => option.id === tier)?.label ?? tier;
@@ -0,0 +1,86 @@
+import { LatLng } from '../geo/types';
+import { loadJSON, saveJSON } from '../storage';
+import { sessionRoundsSurvived } from './elimination';
+import { HintTier } from './hints';
+import { GameSession } from './session';
+
+// Hot-seat (pass-and-play): several players take turns guessing the same
+// panorama on one device. Pins stay hidden until everyone has guessed.
+
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = 8;
+
+// One colour per seat, used for markers, lines and the scoreboard
+export const PLAYER_COLORS = ['#DC2626', '#2563EB', '#16A34A', '#D97706', '#7C3AED', '#DB2777', '#0891B2', '#4B5563'];
+
+export interface Player {
+    name: string;
+    color: string;
+}
+
+export interface PlayerTurn {
+    // Index into the session's players
+    player: number;
+    // Null when the player ran out of time without a pin or the round was skipped
+    guess: LatLng | null;
+    distance: number | null;
+    points: number;
+    timeTaken: number;
+    hints: HintTier[];
+}
+
+export interface Standing {
+    player: Player;
+    index: number;
+    total: number;
+    // Set in elimination games, where lasting longer beats scoring more
+    survived: number | null;
+    // 1-based; tied players share a rank
+    rank: number;
+}
+
+const PLAYERS_KEY = 'hotseatPlayers';
+
+export const createPlayers = (names: string[]): Player[] =>
+    names.slice(0, MAX_PLAYERS).map((name, index) => ({
+        name: name.trim() || `Player ${index + 1}`,
+        color: PLAYER_COLORS[index],
+    }));
+
+// Names from last time, so the same group doesn't have to retype them
+export const loadPlayerNames = (): string[] => {
+    const names = loadJSON<string[]>(PLAYERS_KEY, []);
+    return names.length >= MIN_PLAYERS ? names.slice(0, MAX_PLAYERS) : ['', ''];
+};
+
+export const savePlayerNames = (names: string[]): void => {
+    saveJSON(PLAYERS_KEY, names);
+};
+
+// Best turn of a round; ties go to the shorter distance
+export const roundWinner = (turns: PlayerTurn[]): PlayerTurn | null =>
+    turns.reduce<PlayerTurn | null>((best, turn) => {
+        if (!best || turn.points > best.points) return turn;
+        if (turn.points === best.points && (turn.distance ?? Infinity) < (best.distance ?? Infinity)) return turn;
+        return best;
+    }, null);
+
+export const playerTotals = (session: GameSession): number[] => {
+    const totals = (session.players ?? []).map(() => 0);
+    session.rounds.forEach(round => round.turns?.forEach(turn => {
+        totals[turn.player] += turn.points;
+    }));
+    return totals;
+};
+
+export const standings = (session: GameSession): Standing[] => {
+    const totals = playerTotals(session);
+    const survived = sessionRoundsSurvived(session);
+    const sorted = (session.players ?? [])
+        .map((player, index) => ({ player, index, total: totals[index], survived: survived?.[index] ?? null }))
+        .sort((a, b) => (b.survived ?? 0) - (a.survived ?? 0) || b.total - a.total);
+    return sorted.map((entry) => ({
+        ...entry,
+        rank: sorted.findIndex(other => other.survived === entry.survived && other.total === entry.total) + 1,
+    }));
+};
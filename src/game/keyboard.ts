@@ -0,0 +1,87 @@
+import { Bounds, LatLng } from '../geo/types';
+import { boundsDiagonal, haversineDistance } from '../geo/distance';
+
+// Keyboard play: arrow keys move the guess pin, Enter locks it in, and single
+// letters cover the header buttons.
+
+export type ShortcutAction = 'map' | 'guess' | 'hint' | 'skip' | 'next' | 'pause';
+
+export type PinDirection = 'north' | 'south' | 'east' | 'west';
+
+export type KeyCommand =
+    | { type: 'shortcut'; action: ShortcutAction }
+    // Coarse steps (Shift held) are five times as long
+    | { type: 'move'; direction: PinDirection; coarse: boolean }
+    // One of the "Guess the community" choices, from 0
+    | { type: 'option'; index: number };
+
+export const SHORTCUTS: { action: ShortcutAction; key: string; label: string }[] = [
+    { action: 'map', key: 'M', label: 'Go to the map' },
+    { action: 'guess', key: 'Enter', label: 'Guess at the pin' },
+    { action: 'hint', key: 'H', label: 'Take a hint' },
+    { action: 'skip', key: 'S', label: 'Skip the round' },
+    { action: 'next', key: 'N', label: 'Next round' },
+    { action: 'pause', key: 'P', label: 'Pause or resume' },
+];
+
+const ARROW_DIRECTIONS: Record<string, PinDirection> = {
+    ArrowUp: 'north',
+    ArrowDown: 'south',
+    ArrowRight: 'east',
+    ArrowLeft: 'west',
+};
+
+const METRES_PER_DEGREE = 111320;
+// A fine step is this fraction of the region's diagonal
+const FINE_STEP = 1 / 200;
+const COARSE_MULTIPLIER = 5;
+
+// Typing in a field, or pressing Enter on a button, keeps its usual meaning
+const isEditable = (target: EventTarget | null): boolean =>
+    target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+export const readKeyCommand = (event: KeyboardEvent): KeyCommand | null => {
+    if (event.ctrlKey || event.metaKey || event.altKey || isEditable(event.target)) {
+        return null;
+    }
+    const direction = ARROW_DIRECTIONS[event.key];
+    if (direction) {
+        return { type: 'move', direction, coarse: event.shiftKey };
+    }
+    if (/^[1-9]$/.test(event.key)) {
+        return { type: 'option', index: Number(event.key) - 1 };
+    }
+    if (event.key === 'Enter' && event.target instanceof HTMLElement && ['BUTTON', 'A'].includes(event.target.tagName)) {
+        return null;
+    }
+    const shortcut = SHORTCUTS.find(({ key }) => key.length === 1 ? event.key.toUpperCase() === key : event.key === key);
+    return shortcut ? { type: 'shortcut', action: shortcut.action } : null;
+};
+
+// Moves a point by the keyboard step for the region, staying inside `limit`
+export const movePin = (point: LatLng, direction: PinDirection, coarse: boolean, region: Bounds, limit: Bounds): LatLng => {
+    const metres = boundsDiagonal(region) * FINE_STEP * (coarse ? COARSE_MULTIPLIER : 1);
+    const dLat = metres / METRES_PER_DEGREE;
+    const dLng = metres / (METRES_PER_DEGREE * Math.cos((point.lat * Math.PI) / 180));
+    const lat = point.lat + (direction === 'north' ? dLat : direction === 'south' ? -dLat : 0);
+    const lng = point.lng + (direction === 'east' ? dLng : direction === 'west' ? -dLng : 0);
+    return {
+        lat: Math.min(limit.north, Math.max(limit.south, lat)),
+        lng: Math.min(limit.east, Math.max(limit.west, lng)),
+    };
+};
+
+const COMPASS = ['north', 'north-east', 'east', 'south-east', 'south', 'south-west', 'west', 'north-west'];
+
+// e.g. "2.4 km north-west of the centre", for announcing where the pin is
+export const describeOffset = (point: LatLng, center: LatLng): string => {
+    const distance = haversineDistance(center, point);
+    if (distance < 100) {
+        return 'at the centre';
+    }
+    const north = point.lat - center.lat;
+    const east = (point.lng - center.lng) * Math.cos((center.lat * Math.PI) / 180);
+    const bearing = (Math.atan2(east, north) * 180 / Math.PI + 360) % 360;
+    const away = distance < 1000 ? `${Math.round(distance / 10) * 10} m` : `${(distance / 1000).toFixed(1)} km`;
+    return `${away} ${COMPASS[Math.round(bearing / 45) % 8]} of the centre`;
+};
@@ -0,0 +1,36 @@
+import { LatLng } from '../geo/types';
+import { FeatureCollection, Point } from '../geo/geojson';
+import { haversineDistance } from '../geo/distance';
+
+export type LandmarkKind = 'station' | 'landmark';
+
+export interface LandmarkProperties {
+    name: string;
+    kind: LandmarkKind;
+    // Transit line(s) serving a station, e.g. "Red" or "Red/Blue"
+    line?: string;
+}
+
+export interface NearestLandmark {
+    name: string;
+    kind: LandmarkKind;
+    line?: string;
+    // Metres from the query point
+    distance: number;
+}
+
+// Linear scan; the bundled datasets are a few dozen points
+export const nearestLandmark = (
+    collection: FeatureCollection<LandmarkProperties, Point>,
+    point: LatLng
+): NearestLandmark | null => {
+    let nearest: NearestLandmark | null = null;
+    for (const { properties, geometry } of collection.features) {
+        const [lng, lat] = geometry.coordinates;
+        const distance = haversineDistance(point, { lat, lng });
+        if (!nearest || distance < nearest.distance) {
+            nearest = { ...properties, distance };
+        }
+    }
+    return nearest;
+};
@@ -0,0 +1,187 @@
+import { LatLng, isLatLng } from '../geo/types';
+import { Polygon, Position } from '../geo/geojson';
+import { loadJSON, saveJSON } from '../storage';
+
+// Hand-made location sets ("Calgary schools", "Stampede grounds"): either an
+// area drawn on the map to sample from, or a list of specific pins. Sets are
+// kept in localStorage and shared as versioned JSON files.
+
+export const LOCATION_SET_FORMAT = 'neighbourguessr-location-set';
+export const LOCATION_SET_VERSION = 1;
+
+export const MAX_SET_NAME = 60;
+export const MAX_SET_DESCRIPTION = 500;
+export const MAX_SET_PINS = 200;
+
+export interface LocationSetPin {
+    pano: string;
+    // Where the panorama actually is, which may be a little off the dropped pin
+    position: LatLng;
+    // Direction the round starts facing, in degrees. Random when missing.
+    heading?: number;
+    label?: string;
+}
+
+export interface LocationSet {
+    id: string;
+    name: string;
+    description: string;
+    // Exactly one of these is used: rounds are sampled inside the area, or drawn from the pins
+    area: Polygon | null;
+    pins: LocationSetPin[];
+    updatedAt: number;
+}
+
+// What an exported file looks like on disk
+export interface LocationSetFileV1 {
+    format: typeof LOCATION_SET_FORMAT;
+    version: 1;
+    set: Omit<LocationSet, 'updatedAt'>;
+}
+
+export type LocationSetImport = { set: LocationSet } | { errors: string[] };
+
+const SETS_KEY = 'locationSets';
+
+export const createLocationSet = (): LocationSet => ({
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name: '',
+    description: '',
+    area: null,
+    pins: [],
+    updatedAt: Date.now(),
+});
+
+// Closes the ring as GeoJSON requires
+export const areaFromPath = (path: LatLng[]): Polygon | null => {
+    if (path.length < 3) {
+        return null;
+    }
+    const ring: Position[] = path.map(({ lat, lng }) => [lng, lat]);
+    return { type: 'Polygon', coordinates: [[...ring, ring[0]]] };
+};
+
+export const areaPath = (area: Polygon): LatLng[] =>
+    area.coordinates[0].slice(0, -1).map(([lng, lat]) => ({ lat, lng }));
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const inRange = ({ lat, lng }: LatLng): boolean => lat >= -90 && lat <= 90 && lng >= -180 && lng <= 180;
+
+const validateArea = (area: unknown, errors: string[]) => {
+    if (!isObject(area) || area.type !== 'Polygon' || !Array.isArray(area.coordinates) || area.coordinates.length !== 1) {
+        errors.push('area: expected a GeoJSON Polygon with a single ring');
+        return;
+    }
+    const ring = area.coordinates[0];
+    if (!Array.isArray(ring) || ring.length < 4) {
+        errors.push('area: the ring needs at least three corners');
+        return;
+    }
+    const valid = ring.every(position =>
+        Array.isArray(position) && position.length === 2 && isLatLng({ lng: position[0], lat: position[1] }) &&
+        inRange({ lng: position[0], lat: position[1] })
+    );
+    if (!valid) {
+        errors.push('area: every corner must be a [longitude, latitude] pair');
+    } else if (ring[0][0] !== ring[ring.length - 1][0] || ring[0][1] !== ring[ring.length - 1][1]) {
+        errors.push('area: the ring must end where it starts');
+    }
+};
+
+const validatePin = (pin: unknown, index: number, errors: string[]) => {
+    const path = `pins[${index}]`;
+    if (!isObject(pin)) {
+        errors.push(`${path}: expected an object`);
+        return;
+    }
+    if (typeof pin.pano !== 'string' || pin.pano.length === 0) {
+        errors.push(`${path}.pano: expected a Street View panorama id`);
+    }
+    if (!isLatLng(pin.position) || !inRange(pin.position)) {
+        errors.push(`${path}.position: expected a latitude and longitude`);
+    }
+    if (pin.heading !== undefined && !(Number.isFinite(pin.heading) && (pin.heading as number) >= 0 && (pin.heading as number) < 360)) {
+        errors.push(`${path}.heading: expected degrees from 0 to 360`);
+    }
+    if (pin.label !== undefined && typeof pin.label !== 'string') {
+        errors.push(`${path}.label: expected text`);
+    }
+};
+
+// Lists everything wrong with a set, so imports can say exactly what to fix
+export const validateLocationSet = (value: unknown): string[] => {
+    const errors: string[] = [];
+    if (!isObject(value)) {
+        return ['set: expected an object'];
+    }
+    if (typeof value.id !== 'string' || value.id.length === 0) {
+        errors.push('id: expected text');
+    }
+    if (typeof value.name !== 'string' || value.name.trim().length === 0 || value.name.length > MAX_SET_NAME) {
+        errors.push(`name: expected 1 to ${MAX_SET_NAME} characters`);
+    }
+    if (typeof value.description !== 'string' || value.description.length > MAX_SET_DESCRIPTION) {
+        errors.push(`description: expected up to ${MAX_SET_DESCRIPTION} characters`);
+    }
+    if (value.area !== null) {
+        validateArea(value.area, errors);
+    }
+    if (!Array.isArray(value.pins) || value.pins.length > MAX_SET_PINS) {
+        errors.push(`pins: expected a list of up to ${MAX_SET_PINS} pins`);
+    } else {
+        value.pins.forEach((pin, index) => validatePin(pin, index, errors));
+        if (value.area === null && value.pins.length === 0) {
+            errors.push('set: needs either an area or at least one pin');
+        } else if (value.area !== null && value.pins.length > 0) {
+            errors.push('set: can have an area or pins, not both');
+        }
+    }
+    return errors;
+};
+
+export const isLocationSet = (value: unknown): value is LocationSet =>
+    validateLocationSet(value).length === 0;
+
+export const exportLocationSet = (set: LocationSet): string => {
+    const { updatedAt, ...rest } = set;
+    const file: LocationSetFileV1 = { format: LOCATION_SET_FORMAT, version: LOCATION_SET_VERSION, set: rest };
+    return JSON.stringify(file, null, 2);
+};
+
+export const exportFileName = (set: LocationSet): string =>
+    `${set.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'location-set'}.json`;
+
+export const importLocationSet = (text: string): LocationSetImport => {
+    let file: unknown;
+    try {
+        file = JSON.parse(text);
+    } catch {
+        return { errors: ['This file is not valid JSON.'] };
+    }
+    if (!isObject(file) || file.format !== LOCATION_SET_FORMAT) {
+        return { errors: ["This file isn't a NeighbourGuessr location set."] };
+    }
+    if (typeof file.version !== 'number' || !Number.isInteger(file.version) || file.version < 1) {
+        return { errors: ['version: expected a whole number'] };
+    }
+    if (file.version > LOCATION_SET_VERSION) {
+        return { errors: ['This set was made with a newer version of NeighbourGuessr.'] };
+    }
+    const set = isObject(file.set) ? { ...file.set, updatedAt: Date.now() } : file.set;
+    const errors = validateLocationSet(set);
+    return errors.length > 0 ? { errors } : { set: set as LocationSet };
+};
+
+export const loadLocationSets = (): LocationSet[] =>
+    loadJSON<unknown[]>(SETS_KEY, []).filter(isLocationSet);
+
+// Replaces a set with the same id, so re-importing an edited file updates it
+export const saveLocationSet = (set: LocationSet): void => {
+    saveJSON(SETS_KEY, [...loadLocationSets().filter(existing => existing.id !== set.id), set]);
+};
+
+export const deleteLocationSet = (id: string): void => {
+    saveJSON(SETS_KEY, loadLocationSets().filter(set => set.id !== id));
+};
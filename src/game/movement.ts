@@ -0,0 +1,31 @@
+// How much the player may do inside the Street View panorama
+
+export type MovementMode = 'moving' | 'no-move' | 'nmpz';
+
+export const MOVEMENT_MODES: { id: MovementMode; label: string; description: string }[] = [
+    { id: 'moving', label: 'Moving', description: 'Walk along the road and zoom' },
+    { id: 'no-move', label: 'No Move', description: 'Look around, but stay put' },
+    { id: 'nmpz', label: 'NMPZ', description: 'No moving, panning or zooming' },
+];
+
+// Matches how the game played before modes existed
+export const DEFAULT_MOVEMENT: MovementMode = 'no-move';
+
+export const movementLabel = (mode: MovementMode): string =>
+    MOVEMENT_MODES.find(option => option.id === mode)?.label ?? mode;
+
+// The panorama has no option to stop drag-panning, so NMPZ also needs an
+// overlay blocking pointer events (see App)
+export const movementPanoramaOptions = (mode: MovementMode): google.maps.StreetViewPanoramaOptions => {
+    const moving = mode === 'moving';
+    return {
+        clickToGo: moving,
+        linksControl: moving,
+        scrollwheel: moving,
+        zoomControl: moving,
+        disableDoubleClickZoom: !moving,
+        panControl: false,
+        // Zoom back out in case the previous round allowed zooming
+        zoom: 1,
+    };
+};
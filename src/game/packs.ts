@@ -0,0 +1,134 @@
+import { CALGARY_PACKS } from '../data/calgary';
+import { RandomSource } from '../geo/sampling';
+import { LatLng } from '../geo/types';
+import { Region, RegionId } from '../regions';
+import { loadJSON, saveJSON } from '../storage';
+import { LocationSource } from '../streetview/locationSource';
+import { PanoramaLookup, PanoramaResult } from '../streetview/lookup';
+
+// Curated location packs: bundled lists of notable places, each with a short
+// blurb shown when the round is revealed. Entries can name a panorama or just
+// a position, which is snapped to the nearest panorama when it's dealt.
+
+export interface PackEntry {
+    title: string;
+    trivia: string;
+    position: LatLng;
+    pano?: string;
+    heading?: number;
+}
+
+export interface LocationPack {
+    id: string;
+    name: string;
+    description: string;
+    entries: PackEntry[];
+}
+
+export interface PackSelection {
+    ids: string[];
+    // Share of rounds dealt from the selected packs, 0–1
+    share: number;
+}
+
+export const PACK_SHARE_OPTIONS: { label: string; value: number }[] = [
+    { label: 'Every round', value: 1 },
+    { label: 'Half the rounds', value: 0.5 },
+    { label: 'Now and then', value: 0.2 },
+];
+
+export const DEFAULT_PACK_SELECTION: PackSelection = { ids: [], share: 0.5 };
+
+const PACKS_KEY = 'locationPacks';
+
+// Entries without a pano take the nearest panorama within this many metres
+const ENTRY_RADIUS = 150;
+
+const REGION_PACKS: Partial<Record<RegionId, LocationPack[]>> = {
+    calgary: CALGARY_PACKS,
+};
+
+export const loadPackSelection = (): PackSelection => ({
+    ...DEFAULT_PACK_SELECTION,
+    ...loadJSON<Partial<PackSelection>>(PACKS_KEY, {}),
+});
+
+export const savePackSelection = (selection: PackSelection): void => {
+    saveJSON(PACKS_KEY, selection);
+};
+
+// Location sets choose their own locations, so packs only apply to the built-in regions
+export const regionPacks = (region: Region): LocationPack[] =>
+    region.locationSet ? [] : REGION_PACKS[region.id] ?? [];
+
+export const selectedPacks = (region: Region, selection: PackSelection): LocationPack[] =>
+    regionPacks(region).filter(pack => selection.ids.includes(pack.id));
+
+// Deals the packs' entries in a shuffled order, reshuffling once all have
+// been played. Entries with no panorama nearby are dropped.
+export const createPackLocationSource = (
+    packs: LocationPack[],
+    lookup: PanoramaLookup,
+    random: RandomSource = Math.random
+): LocationSource => {
+    const entries = packs.flatMap(pack => pack.entries);
+    const resolved = new Map<PackEntry, PanoramaResult>();
+    const unavailable = new Set<PackEntry>();
+    let deck: PackEntry[] = [];
+
+    const shuffle = () => {
+        deck = entries.filter(entry => !unavailable.has(entry));
+        for (let i = deck.length - 1; i > 0; i--) {
+            const j = Math.floor(random() * (i + 1));
+            [deck[i], deck[j]] = [deck[j], deck[i]];
+        }
+    };
+
+    const resolve = async (entry: PackEntry): Promise<PanoramaResult | null> => {
+        if (entry.pano) {
+            return { pano: entry.pano, position: entry.position };
+        }
+        const cached = resolved.get(entry);
+        if (cached) {
+            return cached;
+        }
+        const result = await lookup({ location: entry.position, radius: ENTRY_RADIUS });
+        if (result) {
+            resolved.set(entry, result);
+        }
+        return result;
+    };
+
+    return {
+        next: async () => {
+            // Each entry gets at most one try per call
+            for (let attempt = 0; attempt < entries.length; attempt++) {
+                if (deck.length === 0) {
+                    shuffle();
+                }
+                const entry = deck.shift();
+                if (!entry) {
+                    break;
+                }
+                const result = await resolve(entry);
+                if (result) {
+                    return {
+                        ...result,
+                        heading: entry.heading ?? result.heading,
+                        trivia: { title: entry.title, text: entry.trivia },
+                    };
+                }
+                unavailable.add(entry);
+            }
+            throw new Error('No Street View near any location in the selected packs');
+        },
+        // Expired panoramas are looked up again next time
+        forget: (pano) => {
+            resolved.forEach((result, entry) => {
+                if (result.pano === pano) {
+                    resolved.delete(entry);
+                }
+            });
+        },
+    };
+};
@@ -0,0 +1,29 @@
+import { RandomSource } from '../geo/sampling';
+
+// 32-bit string hash (MurmurHash3 finaliser over a FNV-style mix) used to
+// turn human readable seeds into PRNG state.
+export const hashString = (input: string): number => {
+    let hash = 1779033703 ^ input.length;
+    for (let i = 0; i < input.length; i++) {
+        hash = Math.imul(hash ^ input.charCodeAt(i), 3432918353);
+        hash = (hash << 13) | (hash >>> 19);
+    }
+    hash = Math.imul(hash ^ (hash >>> 16), 2246822507);
+    hash = Math.imul(hash ^ (hash >>> 13), 3266489909);
+    return (hash ^ (hash >>> 16)) >>> 0;
+};
+
+// Mulberry32: small, fast and good enough for picking map locations.
+// The same seed always yields the same sequence.
+export const mulberry32 = (seed: number): RandomSource => {
+    let state = seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+export const createSeededRandom = (seed: string): RandomSource => mulberry32(hashString(seed));
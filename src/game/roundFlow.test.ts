@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { RoundFlowEvent, RoundFlowState, TimerSettings, hasExpired, initialRoundFlow, roundFlowReducer, secondsLeft } from './roundFlow';
+
+const TIMERS: TimerSettings = { viewTime: 10, guessTime: 20, revealTime: 5 };
+
+const run = (events: RoundFlowEvent[], state: RoundFlowState = initialRoundFlow): RoundFlowState =>
+    events.reduce(roundFlowReducer, state);
+
+const started = (timers: TimerSettings = TIMERS, passAndPlay = false): RoundFlowState =>
+    run([{ type: 'start', timers, passAndPlay }, { type: 'loaded' }]);
+
+describe('roundFlowReducer', () => {
+    it('walks a round from loading to the summary', () => {
+        let state = run([{ type: 'start', timers: TIMERS }]);
+        expect(state.phase).toBe('loading');
+        state = run([{ type: 'loaded' }], state);
+        expect(state).toMatchObject({ phase: 'viewing', remaining: 10000 });
+        state = run([{ type: 'guess' }], state);
+        expect(state).toMatchObject({ phase: 'guessing', remaining: 20000 });
+        state = run([{ type: 'reveal' }], state);
+        expect(state).toMatchObject({ phase: 'revealed', remaining: 5000 });
+        state = run([{ type: 'load' }], state);
+        expect(state.phase).toBe('loading');
+        expect(run([{ type: 'finish' }], state).phase).toBe('summary');
+    });
+
+    it('ignores events that make no sense in the current phase', () => {
+        expect(run([{ type: 'loaded' }])).toBe(initialRoundFlow);
+        expect(run([{ type: 'load' }])).toBe(initialRoundFlow);
+        const revealed = run([{ type: 'reveal' }], started());
+        expect(run([{ type: 'guess' }], revealed)).toBe(revealed);
+        expect(run([{ type: 'ready' }], revealed)).toBe(revealed);
+    });
+
+    it('hands the device over before each hot-seat turn', () => {
+        let state = started(TIMERS, true);
+        expect(state.phase).toBe('handoff');
+        state = run([{ type: 'ready' }], state);
+        expect(state.phase).toBe('viewing');
+        state = run([{ type: 'guess' }, { type: 'handoff' }], state);
+        expect(state.phase).toBe('handoff');
+        expect(run([{ type: 'reveal' }], state).phase).toBe('revealed');
+    });
+
+    it('counts time towards the round only until the guess', () => {
+        const state = run([
+            { type: 'tick', elapsed: 3000 },
+            { type: 'guess' },
+            { type: 'tick', elapsed: 2000 },
+            { type: 'reveal' },
+            { type: 'tick', elapsed: 4000 },
+        ], started());
+        expect(state.roundElapsed).toBe(5000);
+        expect(state.remaining).toBe(1000);
+    });
+
+    it('moves on to guessing when the view timer runs out', () => {
+        const state = run([{ type: 'tick', elapsed: 12000 }], started());
+        expect(state).toMatchObject({ phase: 'guessing', remaining: 20000, roundElapsed: 10000 });
+    });
+
+    it('freezes the clock while paused', () => {
+        const paused = run([{ type: 'tick', elapsed: 1000 }, { type: 'pause' }], started());
+        expect(paused.paused).toBe(true);
+        const stillPaused = run([{ type: 'tick', elapsed: 5000 }], paused);
+        expect(stillPaused).toBe(paused);
+        const resumed = run([{ type: 'resume' }, { type: 'tick', elapsed: 1000 }], stillPaused);
+        expect(resumed).toMatchObject({ paused: false, remaining: 8000, roundElapsed: 2000 });
+    });
+
+    it('only pauses phases with a clock running', () => {
+        const loading = run([{ type: 'start', timers: TIMERS }]);
+        expect(run([{ type: 'pause' }], loading)).toBe(loading);
+    });
+
+    it('waits at zero for the caller to reveal when the guess timer expires', () => {
+        let state = run([{ type: 'guess' }, { type: 'tick', elapsed: 25000 }], started());
+        expect(state).toMatchObject({ phase: 'guessing', remaining: 0, roundElapsed: 20000 });
+        expect(hasExpired(state)).toBe(true);
+        expect(run([{ type: 'tick', elapsed: 1000 }], state)).toBe(state);
+
+        state = run([{ type: 'reveal' }], state);
+        expect(state).toMatchObject({ phase: 'revealed', remaining: 5000 });
+        expect(hasExpired(state)).toBe(false);
+        expect(hasExpired(run([{ type: 'tick', elapsed: 5000 }], state))).toBe(true);
+    });
+
+    it('never expires phases without a limit', () => {
+        const unlimited = { viewTime: null, guessTime: null, revealTime: null };
+        const state = run([{ type: 'tick', elapsed: 600000 }], started(unlimited));
+        expect(state).toMatchObject({ phase: 'viewing', remaining: null, roundElapsed: 600000 });
+        expect(secondsLeft(state)).toBeNull();
+        expect(hasExpired(state)).toBe(false);
+    });
+});
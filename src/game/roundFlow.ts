@@ -0,0 +1,150 @@
+// The flow of a game, kept out of React so it can be reasoned about (and
+// tested) on its own:
+//
+//   idle → loading → viewing → guessing → revealed → loading … → summary
+//
+// Hot-seat games pass the device between players, adding a handoff before
+// each player's turn: loading → handoff → viewing → guessing → handoff … → revealed
+//
+// Timers only move forward on 'tick' events, so pausing is just a matter of
+// ignoring ticks.
+
+export interface TimerSettings {
+    // Seconds to study the panorama, null for no limit
+    viewTime: number | null;
+    // Seconds to place a guess, null for no limit
+    guessTime: number | null;
+    // Seconds the answer is shown for, null to wait for "Next"
+    revealTime: number | null;
+}
+
+export const DEFAULT_TIMERS: TimerSettings = {
+    viewTime: 10,
+    guessTime: null,
+    revealTime: 5,
+};
+
+export const VIEW_TIME_OPTIONS: (number | null)[] = [5, 10, 20, 30, 60, null];
+export const GUESS_TIME_OPTIONS: (number | null)[] = [null, 10, 20, 30, 60];
+export const REVEAL_TIME_OPTIONS: (number | null)[] = [3, 5, 10, null];
+
+export type RoundPhase = 'idle' | 'loading' | 'handoff' | 'viewing' | 'guessing' | 'revealed' | 'summary';
+
+export interface RoundFlowState {
+    phase: RoundPhase;
+    timers: TimerSettings;
+    // Milliseconds left in the current phase, null when it has no limit
+    remaining: number | null;
+    // Unpaused milliseconds from the panorama appearing until the guess
+    roundElapsed: number;
+    paused: boolean;
+    // Hot-seat games hand the device over before every turn
+    passAndPlay: boolean;
+}
+
+export type RoundFlowEvent =
+    | { type: 'start'; timers: TimerSettings; passAndPlay?: boolean }
+    // Fetch the next location, also used to replace a broken one
+    | { type: 'load' }
+    | { type: 'loaded' }
+    // Hot-seat: wait for the next player to take the device, then start their turn.
+    // 'loaded' already hands off for the first player.
+    | { type: 'handoff' }
+    | { type: 'ready' }
+    // Stop viewing before the view timer runs out
+    | { type: 'guess' }
+    | { type: 'reveal' }
+    | { type: 'finish' }
+    | { type: 'tick'; elapsed: number }
+    | { type: 'pause' }
+    | { type: 'resume' }
+    | { type: 'reset' };
+
+export const initialRoundFlow: RoundFlowState = {
+    phase: 'idle',
+    timers: DEFAULT_TIMERS,
+    remaining: null,
+    roundElapsed: 0,
+    paused: false,
+    passAndPlay: false,
+};
+
+// Phases with a clock running, and so the only ones that can be paused
+export const isActivePhase = (phase: RoundPhase): boolean =>
+    phase === 'viewing' || phase === 'guessing' || phase === 'revealed';
+
+const phaseLimit = (phase: RoundPhase, timers: TimerSettings): number | null => {
+    const seconds = phase === 'viewing' ? timers.viewTime
+        : phase === 'guessing' ? timers.guessTime
+        : phase === 'revealed' ? timers.revealTime
+        : null;
+    return seconds === null ? null : seconds * 1000;
+};
+
+const enter = (state: RoundFlowState, phase: RoundPhase): RoundFlowState => ({
+    ...state,
+    phase,
+    remaining: phaseLimit(phase, state.timers),
+    paused: false,
+});
+
+const tick = (state: RoundFlowState, elapsed: number): RoundFlowState => {
+    // Once a timer has run out the state stays put until the caller acts on it
+    if (state.paused || !isActivePhase(state.phase) || state.remaining === 0) {
+        return state;
+    }
+    // Never count time past the end of the current limit
+    const used = state.remaining === null ? elapsed : Math.min(elapsed, state.remaining);
+    const remaining = state.remaining === null ? null : state.remaining - used;
+    const roundElapsed = state.phase === 'revealed' ? state.roundElapsed : state.roundElapsed + used;
+    // Running out of viewing time needs nothing from outside; guess and reveal
+    // expiry are left to the caller, which has to score or load a round
+    if (state.phase === 'viewing' && remaining === 0) {
+        return { ...enter(state, 'guessing'), roundElapsed };
+    }
+    return { ...state, remaining, roundElapsed };
+};
+
+export const roundFlowReducer = (state: RoundFlowState, event: RoundFlowEvent): RoundFlowState => {
+    switch (event.type) {
+        case 'start':
+            return { ...initialRoundFlow, timers: event.timers, passAndPlay: event.passAndPlay ?? false, phase: 'loading' };
+        case 'load':
+            return state.phase === 'idle' || state.phase === 'summary' ? state : enter(state, 'loading');
+        case 'loaded':
+            if (state.phase !== 'loading') {
+                return state;
+            }
+            return state.passAndPlay ? enter(state, 'handoff') : { ...enter(state, 'viewing'), roundElapsed: 0 };
+        case 'handoff':
+            return state.phase === 'viewing' || state.phase === 'guessing' ? enter(state, 'handoff') : state;
+        case 'ready':
+            return state.phase === 'handoff' ? { ...enter(state, 'viewing'), roundElapsed: 0 } : state;
+        case 'guess':
+            return state.phase === 'viewing' ? enter(state, 'guessing') : state;
+        case 'reveal':
+            return state.phase === 'viewing' || state.phase === 'guessing' || state.phase === 'handoff'
+                ? enter(state, 'revealed')
+                : state;
+        case 'finish':
+            return state.phase === 'idle' ? state : enter(state, 'summary');
+        case 'tick':
+            return tick(state, event.elapsed);
+        case 'pause':
+            return isActivePhase(state.phase) ? { ...state, paused: true } : state;
+        case 'resume':
+            return { ...state, paused: false };
+        case 'reset':
+            return initialRoundFlow;
+    }
+};
+
+// True when the guess or reveal timer has run out and is waiting on the caller
+export const hasExpired = (state: RoundFlowState): boolean =>
+    state.remaining === 0 && (state.phase === 'guessing' || state.phase === 'revealed');
+
+export const secondsLeft = (state: RoundFlowState): number | null =>
+    state.remaining === null ? null : Math.ceil(state.remaining / 1000);
+
+export const formatTimerOption = (seconds: number | null, unlimited: string): string =>
+    seconds === null ? unlimited : `${seconds} s`;
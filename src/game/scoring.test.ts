@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SCORING, ScoreInput, ScoringConfig, basePoints, maxRoundPoints, scoreCommunityGuess, scoreRound } from './scoring';
+
+const DIAGONAL = 30000;
+
+const input = (overrides: Partial<ScoreInput> = {}): ScoreInput => ({
+    distance: 1000,
+    timeTaken: 10000,
+    hints: [],
+    regionDiagonal: DIAGONAL,
+    movement: 'no-move',
+    difficulty: 'normal',
+    ...overrides,
+});
+
+const config = (overrides: Partial<ScoringConfig> = {}): ScoringConfig => ({ ...DEFAULT_SCORING, ...overrides });
+
+describe('basePoints', () => {
+    it('gives full points within the perfect radius', () => {
+        expect(basePoints(DEFAULT_SCORING, 0, DIAGONAL)).toBe(5000);
+        expect(basePoints(DEFAULT_SCORING, 25, DIAGONAL)).toBe(5000);
+        expect(basePoints(DEFAULT_SCORING, 26, DIAGONAL)).toBeLessThan(5000);
+    });
+
+    it('decays exponentially with the region size', () => {
+        // 5000 × e^-1 a tenth of the diagonal past the perfect radius
+        expect(basePoints(DEFAULT_SCORING, 3025, DIAGONAL)).toBe(Math.floor(5000 * Math.exp(-1)));
+        expect(basePoints(DEFAULT_SCORING, 3025, DIAGONAL * 2)).toBeGreaterThan(basePoints(DEFAULT_SCORING, 3025, DIAGONAL));
+    });
+
+    it('falls evenly to zero on the linear curve', () => {
+        const linear = config({ curve: 'linear' });
+        expect(basePoints(linear, 25 + DIAGONAL / 2, DIAGONAL)).toBe(2500);
+        expect(basePoints(linear, DIAGONAL * 2, DIAGONAL)).toBe(0);
+    });
+
+    it('loses a point per metre on the classic curve', () => {
+        const classic = config({ curve: 'classic' });
+        expect(basePoints(classic, 1025, DIAGONAL)).toBe(4000);
+        expect(basePoints(classic, 10000, DIAGONAL)).toBe(0);
+    });
+
+    it('never goes up with distance', () => {
+        let previous = Infinity;
+        for (let distance = 0; distance <= DIAGONAL; distance += 250) {
+            const points = basePoints(DEFAULT_SCORING, distance, DIAGONAL);
+            expect(points).toBeLessThanOrEqual(previous);
+            previous = points;
+        }
+    });
+});
+
+describe('scoreRound', () => {
+    it('flags perfect and successful guesses by radius', () => {
+        expect(scoreRound(input({ distance: 20 }))).toMatchObject({ isPerfect: true, isSuccess: true, total: 5000 });
+        expect(scoreRound(input({ distance: 3000 }))).toMatchObject({ isPerfect: false, isSuccess: true });
+        expect(scoreRound(input({ distance: 3001 }))).toMatchObject({ isPerfect: false, isSuccess: false });
+    });
+
+    it('adds a time bonus that runs out over the window', () => {
+        const timed = config({ timeBonus: 500, timeBonusWindow: 30000 });
+        expect(scoreRound(input({ distance: 0, timeTaken: 0 }), timed).timeBonus).toBe(500);
+        expect(scoreRound(input({ distance: 0, timeTaken: 15000 }), timed).timeBonus).toBe(250);
+        expect(scoreRound(input({ distance: 0, timeTaken: 45000 }), timed).timeBonus).toBe(0);
+        // Nothing for a guess that scored nothing
+        expect(scoreRound(input({ distance: 1e6, timeTaken: 0 }), timed).timeBonus).toBe(0);
+    });
+
+    it('deducts hint penalties without going below zero', () => {
+        const hinted = scoreRound(input({ distance: 0, hints: ['quadrant', 'community'] }));
+        expect(hinted.hintPenalty).toBe(750);
+        expect(hinted.total).toBe(4250);
+
+        const far = scoreRound(input({ distance: 200000, hints: ['quadrant', 'community', 'landmark', 'street'] }));
+        expect(far.hintPenalty).toBe(far.base);
+        expect(far.total).toBe(0);
+    });
+
+    it('applies movement and difficulty multipliers together', () => {
+        expect(scoreRound(input({ distance: 0, movement: 'nmpz' })).total).toBe(6250);
+        expect(scoreRound(input({ distance: 0, movement: 'moving' })).total).toBe(4000);
+        expect(scoreRound(input({ distance: 0, difficulty: 'expert' })).total).toBe(10000);
+
+        const combined = scoreRound(input({ distance: 0, movement: 'moving', difficulty: 'hard' }));
+        expect(combined.multiplier).toBe(1.2);
+        expect(combined.total).toBe(6000);
+    });
+
+    it('applies the multiplier after the hint penalty', () => {
+        const breakdown = scoreRound(input({ distance: 0, hints: ['street'], difficulty: 'easy' }));
+        expect(breakdown.total).toBe(Math.round((5000 - 1000) * 0.5));
+    });
+});
+
+describe('scoreCommunityGuess', () => {
+    const modifiers: Pick<ScoreInput, 'timeTaken' | 'hints' | 'movement' | 'difficulty'> = {
+        timeTaken: 0,
+        hints: [],
+        movement: 'no-move',
+        difficulty: 'normal',
+    };
+
+    it('gives full points for the right community and a share for a neighbour', () => {
+        expect(scoreCommunityGuess('exact', modifiers)).toMatchObject({ base: 5000, isSuccess: true });
+        expect(scoreCommunityGuess('adjacent', modifiers)).toMatchObject({ base: 2000, isSuccess: false });
+        expect(scoreCommunityGuess('miss', modifiers).total).toBe(0);
+    });
+});
+
+describe('maxRoundPoints', () => {
+    it('matches the best possible round', () => {
+        const timed = config({ timeBonus: 500 });
+        expect(maxRoundPoints(timed, 'nmpz', 'hard')).toBe(
+            scoreRound(input({ distance: 0, timeTaken: 0, movement: 'nmpz', difficulty: 'hard' }), timed).total
+        );
+    });
+});
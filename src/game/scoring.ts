@@ -0,0 +1,263 @@
+import { CommunityGuessResult } from './communities';
+import { DEFAULT_MOVEMENT, MovementMode, movementLabel } from './movement';
+import { HintTier } from './hints';
+import { DEFAULT_DIFFICULTY, DifficultyPreset, difficultyLabel } from './difficulty';
+
+// Round scoring. Everything that turns a distance into points, and every bit
+// of player-facing copy that mentions a scoring threshold, lives here so the
+// numbers shown in the UI can never drift from the numbers used to score.
+
+export type ScoringCurve = 'classic' | 'linear' | 'exponential';
+
+export interface ScoringConfig {
+    curve: ScoringCurve;
+    maxPoints: number;
+    // Guesses within this many metres get full points
+    perfectRadius: number;
+    // Guesses within this many metres count as a successful round
+    successRadius: number;
+    // Extra points for answering quickly, decaying linearly to zero over timeBonusWindow
+    timeBonus: number;
+    timeBonusWindow: number;
+    // Points deducted for each rung of the hint ladder used
+    hintPenalties: Record<HintTier, number>;
+    // Share of maxPoints for naming a community that borders the right one
+    adjacentCommunityShare: number;
+    // Round totals are multiplied by the entry for the game's movement mode
+    movementMultipliers: Record<MovementMode, number>;
+    // ...and by the entry for its difficulty
+    difficultyMultipliers: Record<DifficultyPreset, number>;
+}
+
+export interface ScoreInput {
+    // Metres between guess and answer
+    distance: number;
+    // Milliseconds spent on the round
+    timeTaken: number;
+    hints: HintTier[];
+    // Size of the playable area in metres, used to scale the curve
+    regionDiagonal: number;
+    movement: MovementMode;
+    difficulty: DifficultyPreset;
+}
+
+export interface ScoreBreakdown {
+    base: number;
+    timeBonus: number;
+    hintPenalty: number;
+    // Movement and difficulty multipliers combined
+    multiplier: number;
+    total: number;
+    isPerfect: boolean;
+    isSuccess: boolean;
+}
+
+export const SCORING_CURVES: { id: ScoringCurve; label: string; description: string }[] = [
+    { id: 'exponential', label: 'Exponential', description: 'GeoGuessr-style decay scaled to the size of the region' },
+    { id: 'linear', label: 'Linear', description: 'Points fall evenly to zero across the region' },
+    { id: 'classic', label: 'Classic', description: 'One point lost per metre' },
+];
+
+export const DEFAULT_SCORING: ScoringConfig = {
+    curve: 'exponential',
+    maxPoints: 5000,
+    perfectRadius: 25,
+    successRadius: 3000,
+    timeBonus: 0,
+    timeBonusWindow: 30000,
+    hintPenalties: {
+        quadrant: 250,
+        community: 500,
+        landmark: 750,
+        street: 1000,
+    },
+    adjacentCommunityShare: 0.4,
+    movementMultipliers: {
+        'moving': 0.8,
+        'no-move': 1,
+        'nmpz': 1.25,
+    },
+    difficultyMultipliers: {
+        easy: 0.5,
+        normal: 1,
+        hard: 1.5,
+        expert: 2,
+        custom: 1,
+    },
+};
+
+export const TIME_BONUS_POINTS = 500;
+
+const curvePoints = (config: ScoringConfig, distance: number, regionDiagonal: number): number => {
+    switch (config.curve) {
+        case 'classic':
+            return config.maxPoints - distance;
+        case 'linear':
+            return config.maxPoints * (1 - distance / regionDiagonal);
+        case 'exponential':
+            // Same shape as GeoGuessr: 5000 * e^(-10 * d / mapSize)
+            return config.maxPoints * Math.exp((-10 * distance) / regionDiagonal);
+    }
+};
+
+export const basePoints = (config: ScoringConfig, distance: number, regionDiagonal: number): number => {
+    if (distance <= config.perfectRadius) {
+        return config.maxPoints;
+    }
+    const points = curvePoints(config, distance - config.perfectRadius, regionDiagonal);
+    return Math.max(0, Math.min(config.maxPoints, Math.floor(points)));
+};
+
+const movementMultiplier = (config: ScoringConfig, movement: MovementMode): number =>
+    config.movementMultipliers[movement] ?? 1;
+
+const difficultyMultiplier = (config: ScoringConfig, difficulty: DifficultyPreset): number =>
+    config.difficultyMultipliers[difficulty] ?? 1;
+
+// Rounded so e.g. 0.8 × 1.5 reads as 1.2
+const combinedMultiplier = (config: ScoringConfig, movement: MovementMode, difficulty: DifficultyPreset): number =>
+    Math.round(movementMultiplier(config, movement) * difficultyMultiplier(config, difficulty) * 100) / 100;
+
+const applyModifiers = (
+    base: number,
+    input: Pick<ScoreInput, 'timeTaken' | 'hints' | 'movement' | 'difficulty'>,
+    config: ScoringConfig
+): Pick<ScoreBreakdown, 'base' | 'timeBonus' | 'hintPenalty' | 'multiplier' | 'total'> => {
+    const remaining = config.timeBonusWindow > 0 ? Math.max(0, 1 - input.timeTaken / config.timeBonusWindow) : 0;
+    // No time bonus for guesses that scored nothing
+    const timeBonus = base > 0 ? Math.round(config.timeBonus * remaining) : 0;
+    const hintCost = input.hints.reduce((sum, tier) => sum + (config.hintPenalties[tier] ?? 0), 0);
+    const hintPenalty = Math.min(base + timeBonus, hintCost);
+
+    const multiplier = combinedMultiplier(config, input.movement, input.difficulty);
+
+    return { base, timeBonus, hintPenalty, multiplier, total: Math.round((base + timeBonus - hintPenalty) * multiplier) };
+};
+
+export const scoreRound = (input: ScoreInput, config: ScoringConfig = DEFAULT_SCORING): ScoreBreakdown => ({
+    ...applyModifiers(basePoints(config, input.distance, input.regionDiagonal), input, config),
+    isPerfect: input.distance <= config.perfectRadius,
+    isSuccess: input.distance <= config.successRadius,
+});
+
+// "Guess the community" rounds: full points for the right community, a share for a neighbour
+export const scoreCommunityGuess = (
+    result: CommunityGuessResult,
+    input: Pick<ScoreInput, 'timeTaken' | 'hints' | 'movement' | 'difficulty'>,
+    config: ScoringConfig = DEFAULT_SCORING
+): ScoreBreakdown => {
+    const base = result === 'exact'
+        ? config.maxPoints
+        : result === 'adjacent' ? Math.floor(config.maxPoints * config.adjacentCommunityShare) : 0;
+    return {
+        ...applyModifiers(base, input, config),
+        isPerfect: result === 'exact',
+        isSuccess: result === 'exact',
+    };
+};
+
+// Highest score a single round can produce
+export const maxRoundPoints = (
+    config: ScoringConfig,
+    movement: MovementMode = DEFAULT_MOVEMENT,
+    difficulty: DifficultyPreset = DEFAULT_DIFFICULTY.preset
+): number =>
+    Math.round((config.maxPoints + config.timeBonus) * combinedMultiplier(config, movement, difficulty));
+
+export const formatDistance = (metres: number): string =>
+    metres < 1000 ? `${Math.round(metres)} m` : `${(metres / 1000).toFixed(2)} km`;
+
+// Whether two configs give every round the same score
+export const isSameScoring = (a: ScoringConfig, b: ScoringConfig): boolean =>
+    (Object.keys(b) as (keyof ScoringConfig)[]).every((key) => {
+        const expected = b[key];
+        return typeof expected === 'object'
+            ? Object.entries(expected).every(([inner, value]) => (a[key] as Record<string, number>)[inner] === value)
+            : a[key] === expected;
+    });
+
+export interface ResultCopy {
+    title: string;
+    message: string;
+}
+
+export const describeResult = (breakdown: ScoreBreakdown, config: ScoringConfig): ResultCopy => {
+    if (breakdown.isPerfect) {
+        return {
+            title: '🎯 Perfect! 🎯',
+            message: `You were within ${formatDistance(config.perfectRadius)} of the location!`,
+        };
+    }
+    if (breakdown.isSuccess) {
+        return {
+            title: '🎉 Congratulations! 🎉',
+            message: `You were within ${formatDistance(config.successRadius)} of the location!`,
+        };
+    }
+    return {
+        title: '❌ Try Again! ❌',
+        message: `You were more than ${formatDistance(config.successRadius)} away from the location`,
+    };
+};
+
+export const TIMEOUT_RESULT: ResultCopy = {
+    title: "⏰ Time's up! ⏰",
+    message: 'No guess was placed in time',
+};
+
+export const describeCommunityResult = (result: CommunityGuessResult, answerName: string, config: ScoringConfig): ResultCopy => {
+    switch (result) {
+        case 'exact':
+            return { title: '🎉 Spot on! 🎉', message: `It's ${answerName}!` };
+        case 'adjacent':
+            return {
+                title: '🏘️ Close! 🏘️',
+                message: `It's next door in ${answerName} (${Math.round(config.adjacentCommunityShare * 100)}% of the points)`,
+            };
+        case 'miss':
+            return { title: '❌ Try Again! ❌', message: `It was ${answerName}` };
+    }
+};
+
+export const describeBreakdown = (breakdown: ScoreBreakdown): string => {
+    const parts = [`${breakdown.base} points`];
+    if (breakdown.timeBonus > 0) {
+        parts.push(`+${breakdown.timeBonus} time bonus`);
+    }
+    if (breakdown.hintPenalty > 0) {
+        parts.push(`-${breakdown.hintPenalty} hint penalty`);
+    }
+    if (breakdown.multiplier !== 1) {
+        parts.push(`×${breakdown.multiplier} multiplier`);
+    }
+    return parts.join(' ');
+};
+
+export const describeScoring = (
+    config: ScoringConfig,
+    movement: MovementMode = DEFAULT_MOVEMENT,
+    difficulty: DifficultyPreset = DEFAULT_DIFFICULTY.preset
+): string => {
+    const curve = SCORING_CURVES.find(option => option.id === config.curve);
+    const rules = [
+        `Up to ${config.maxPoints} points per round (${curve?.description.toLowerCase() ?? config.curve})`,
+        `full marks within ${formatDistance(config.perfectRadius)}`,
+    ];
+    if (config.timeBonus > 0) {
+        rules.push(`up to ${config.timeBonus} bonus points for guessing within ${config.timeBonusWindow / 1000} s`);
+    }
+    // Key order follows the ladder, see DEFAULT_SCORING
+    const hintCosts = Object.values(config.hintPenalties);
+    if (hintCosts.some(cost => cost > 0)) {
+        rules.push(`hints cost ${hintCosts.join(' / ')} points from vaguest to most specific`);
+    }
+    const multiplier = movementMultiplier(config, movement);
+    if (multiplier !== 1) {
+        rules.push(`${movementLabel(movement)} scores ×${multiplier}`);
+    }
+    const difficultyScale = difficultyMultiplier(config, difficulty);
+    if (difficultyScale !== 1) {
+        rules.push(`${difficultyLabel(difficulty)} difficulty scores ×${difficultyScale}`);
+    }
+    return `${rules.join(', ')}.`;
+};
@@ -0,0 +1,123 @@
+import { LatLng } from '../geo/types';
+import { Region, RegionId, regionKey } from '../regions';
+import { GameSettings } from './settings';
+import { CommunityGuessResult } from './communities';
+import { MovementMode } from './movement';
+import { HintTier } from './hints';
+import { Player, PlayerTurn } from './hotseat';
+import { isEliminationOver } from './elimination';
+
+export interface CommunityRoundRecord {
+    answerId: string;
+    answerName: string;
+    // Null when the round was skipped
+    guessId: string | null;
+    guessName: string | null;
+    result: CommunityGuessResult;
+}
+
+export interface RoundRecord {
+    pano: string;
+    actual: LatLng;
+    // Null when the round was skipped
+    guess: LatLng | null;
+    // Metres between guess and actual, null when skipped
+    distance: number | null;
+    points: number;
+    // Milliseconds from the panorama appearing to the guess
+    timeTaken: number;
+    hintUsed: boolean;
+    // Hint tiers taken, in order. Missing on rounds recorded before the hint ladder.
+    hints?: HintTier[];
+    // Missing on rounds recorded before movement modes were added
+    movement?: MovementMode;
+    // Metres walked from the start, only tracked in Moving games
+    travelled?: number;
+    // Only set in "Guess the community" games
+    community?: CommunityRoundRecord;
+    // Hot-seat and party games only: every player's turn. The fields above
+    // then describe the winning turn (hot-seat) or this player's own (party).
+    turns?: PlayerTurn[];
+}
+
+export type GameMode = 'classic' | 'daily' | 'challenge' | 'community' | 'hotseat' | 'party' | 'elimination';
+
+export interface GameSession {
+    id: string;
+    mode: GameMode;
+    // Seed for deterministic modes, null for random games
+    seed: string | null;
+    regionId: RegionId;
+    regionKey: string;
+    regionName: string;
+    settings: GameSettings;
+    startedAt: number;
+    finishedAt: number | null;
+    rounds: RoundRecord[];
+    // Hot-seat and party games only, in turn (or joining) order
+    players?: Player[];
+}
+
+export interface SessionOptions {
+    mode?: GameMode;
+    seed?: string | null;
+    players?: Player[];
+}
+
+export const createSession = (region: Region, settings: GameSettings, options: SessionOptions = {}): GameSession => ({
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    mode: options.mode ?? 'classic',
+    seed: options.seed ?? null,
+    regionId: region.id,
+    regionKey: regionKey(region),
+    regionName: region.name,
+    settings,
+    startedAt: Date.now(),
+    finishedAt: null,
+    rounds: [],
+    ...(options.players ? { players: options.players } : {}),
+});
+
+// Rounds in the game, or null for battle royale games, which run until the lives do
+export const sessionLength = (session: GameSession): number | null =>
+    session.settings.lives === null ? session.settings.rounds : null;
+
+export const isSessionComplete = (session: GameSession): boolean =>
+    session.settings.lives === null ? session.rounds.length >= session.settings.rounds : isEliminationOver(session);
+
+export const addRound = (session: GameSession, round: RoundRecord): GameSession => {
+    const next = { ...session, rounds: [...session.rounds, round] };
+    return isSessionComplete(next) ? { ...next, finishedAt: Date.now() } : next;
+};
+
+export const sessionTotal = (session: GameSession): number =>
+    session.rounds.reduce((total, round) => total + round.points, 0);
+
+export const maxSessionScore = (session: GameSession, maxRoundPoints: number): number =>
+    (sessionLength(session) ?? session.rounds.length) * maxRoundPoints;
+
+// Index of the highest scoring round; ties go to the shorter distance
+export const bestRoundIndex = (session: GameSession): number | null => {
+    if (session.rounds.length === 0) {
+        return null;
+    }
+    return session.rounds.reduce((best, round, index) => {
+        const current = session.rounds[best];
+        if (round.points > current.points) return index;
+        if (round.points === current.points && (round.distance ?? Infinity) < (current.distance ?? Infinity)) return index;
+        return best;
+    }, 0);
+};
+
+// Index of the lowest scoring round; ties go to the longer distance
+export const worstRoundIndex = (session: GameSession): number | null => {
+    if (session.rounds.length === 0) {
+        return null;
+    }
+    return session.rounds.reduce((worst, round, index) => {
+        const current = session.rounds[worst];
+        if (round.points < current.points) return index;
+        if (round.points === current.points && (round.distance ?? Infinity) > (current.distance ?? Infinity)) return index;
+        return worst;
+    }, 0);
+};
@@ -0,0 +1,51 @@
+import { loadJSON, saveJSON } from '../storage';
+import { DEFAULT_SCORING, ScoringConfig } from './scoring';
+import { DEFAULT_MOVEMENT, MovementMode } from './movement';
+import { DEFAULT_TIMERS, TimerSettings } from './roundFlow';
+import { DEFAULT_DIFFICULTY, DifficultySettings } from './difficulty';
+
+export interface GameSettings {
+    // Number of rounds in a game
+    rounds: number;
+    scoring: ScoringConfig;
+    movement: MovementMode;
+    timers: TimerSettings;
+    difficulty: DifficultySettings;
+    // Battle royale games start every player with this many lives, null otherwise
+    lives: number | null;
+}
+
+export const ROUND_COUNT_OPTIONS = [3, 5, 10, 15];
+
+export const DEFAULT_GAME_SETTINGS: GameSettings = {
+    rounds: 5,
+    scoring: DEFAULT_SCORING,
+    movement: DEFAULT_MOVEMENT,
+    timers: DEFAULT_TIMERS,
+    difficulty: DEFAULT_DIFFICULTY,
+    lives: null,
+};
+
+const SETTINGS_KEY = 'gameSettings';
+
+// Fills in settings added since the given settings were saved or shared
+export const normalizeGameSettings = (settings: Partial<GameSettings>): GameSettings => ({
+    ...DEFAULT_GAME_SETTINGS,
+    ...settings,
+    scoring: {
+        ...DEFAULT_SCORING,
+        ...settings.scoring,
+        movementMultipliers: { ...DEFAULT_SCORING.movementMultipliers, ...settings.scoring?.movementMultipliers },
+        hintPenalties: { ...DEFAULT_SCORING.hintPenalties, ...settings.scoring?.hintPenalties },
+        difficultyMultipliers: { ...DEFAULT_SCORING.difficultyMultipliers, ...settings.scoring?.difficultyMultipliers },
+    },
+    timers: { ...DEFAULT_TIMERS, ...settings.timers },
+    difficulty: { ...DEFAULT_DIFFICULTY, ...settings.difficulty },
+});
+
+export const loadGameSettings = (): GameSettings =>
+    normalizeGameSettings(loadJSON<Partial<GameSettings>>(SETTINGS_KEY, {}));
+
+export const saveGameSettings = (settings: GameSettings): void => {
+    saveJSON(SETTINGS_KEY, settings);
+};
@@ -0,0 +1,37 @@
+import { Bounds, LatLng } from './types';
+
+const EARTH_RADIUS = 6371008.8; // metres, mean radius
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+// Great-circle distance in metres
+export const haversineDistance = (from: LatLng, to: LatLng): number => {
+    const dLat = toRadians(to.lat - from.lat);
+    const dLng = toRadians(to.lng - from.lng);
+    const a = Math.sin(dLat / 2) ** 2 +
+        Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLng / 2) ** 2;
+    return 2 * EARTH_RADIUS * Math.asin(Math.min(1, Math.sqrt(a)));
+};
+
+// Corner to corner distance of a bounding box in metres
+export const boundsDiagonal = (bounds: Bounds): number =>
+    haversineDistance(
+        { lat: bounds.south, lng: bounds.west },
+        { lat: bounds.north, lng: bounds.east }
+    );
+
+// Polygon approximating a circle of `radius` metres, for drawing on a map
+export const circlePath = (center: LatLng, radius: number, steps: number = 64): LatLng[] => {
+    const angular = radius / EARTH_RADIUS;
+    const lat = toRadians(center.lat);
+    const lng = toRadians(center.lng);
+    return Array.from({ length: steps }, (_, index) => {
+        const bearing = (2 * Math.PI * index) / steps;
+        const pointLat = Math.asin(Math.sin(lat) * Math.cos(angular) + Math.cos(lat) * Math.sin(angular) * Math.cos(bearing));
+        const pointLng = lng + Math.atan2(
+            Math.sin(bearing) * Math.sin(angular) * Math.cos(lat),
+            Math.cos(angular) - Math.sin(lat) * Math.sin(pointLat)
+        );
+        return { lat: (pointLat * 180) / Math.PI, lng: (pointLng * 180) / Math.PI };
+    });
+};
@@ -0,0 +1,40 @@
+// Minimal GeoJSON types covering the subset of the spec the game reads.
+// Positions are [lng, lat] as per RFC 7946.
+
+export type Position = [number, number];
+
+export interface Polygon {
+    type: 'Polygon';
+    coordinates: Position[][];
+}
+
+export interface MultiPolygon {
+    type: 'MultiPolygon';
+    coordinates: Position[][][];
+}
+
+export type PolygonGeometry = Polygon | MultiPolygon;
+
+export interface Point {
+    type: 'Point';
+    coordinates: Position;
+}
+
+export interface LineString {
+    type: 'LineString';
+    coordinates: Position[];
+}
+
+export type Geometry = PolygonGeometry | Point | LineString;
+
+export interface Feature<P = Record<string, unknown>, G extends Geometry = PolygonGeometry> {
+    type: 'Feature';
+    id?: string | number;
+    properties: P;
+    geometry: G;
+}
+
+export interface FeatureCollection<P = Record<string, unknown>, G extends Geometry = PolygonGeometry> {
+    type: 'FeatureCollection';
+    features: Feature<P, G>[];
+}
@@ -0,0 +1,85 @@
+import { Bounds, LatLng } from './types';
+import { PolygonGeometry, Position } from './geojson';
+
+// Ray casting test against a single linear ring
+const pointInRing = ({ lat, lng }: LatLng, ring: Position[]): boolean => {
+    let inside = false;
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+        const [xi, yi] = ring[i];
+        const [xj, yj] = ring[j];
+        const crosses = (yi > lat) !== (yj > lat) &&
+            lng < ((xj - xi) * (lat - yi)) / (yj - yi) + xi;
+        if (crosses) {
+            inside = !inside;
+        }
+    }
+    return inside;
+};
+
+// The first ring is the outer boundary, any further rings are holes
+const pointInRings = (point: LatLng, rings: Position[][]): boolean => {
+    if (rings.length === 0 || !pointInRing(point, rings[0])) {
+        return false;
+    }
+    return !rings.slice(1).some(hole => pointInRing(point, hole));
+};
+
+export const pointInPolygon = (point: LatLng, geometry: PolygonGeometry): boolean => {
+    if (geometry.type === 'Polygon') {
+        return pointInRings(point, geometry.coordinates);
+    }
+    return geometry.coordinates.some(rings => pointInRings(point, rings));
+};
+
+const outerRings = (geometry: PolygonGeometry): Position[][] =>
+    geometry.type === 'Polygon'
+        ? [geometry.coordinates[0]]
+        : geometry.coordinates.map(rings => rings[0]);
+
+export const geometryBounds = (geometry: PolygonGeometry): Bounds => {
+    const bounds: Bounds = { north: -90, south: 90, east: -180, west: 180 };
+    for (const ring of outerRings(geometry)) {
+        for (const [lng, lat] of ring) {
+            bounds.north = Math.max(bounds.north, lat);
+            bounds.south = Math.min(bounds.south, lat);
+            bounds.east = Math.max(bounds.east, lng);
+            bounds.west = Math.min(bounds.west, lng);
+        }
+    }
+    return bounds;
+};
+
+const distanceToSegment = ([px, py]: Position, [ax, ay]: Position, [bx, by]: Position): number => {
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSquared = dx * dx + dy * dy;
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSquared));
+    return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+};
+
+const ringTouches = (ring: Position[], other: Position[], tolerance: number): boolean =>
+    ring.some(point => other.some((start, i) =>
+        i < other.length - 1 && distanceToSegment(point, start, other[i + 1]) <= tolerance
+    ));
+
+// True when two polygons share a border or corner (within tolerance degrees)
+export const polygonsTouch = (a: PolygonGeometry, b: PolygonGeometry, tolerance = 1e-6): boolean => {
+    const ringsA = outerRings(a);
+    const ringsB = outerRings(b);
+    return ringsA.some(ringA => ringsB.some(ringB =>
+        ringTouches(ringA, ringB, tolerance) || ringTouches(ringB, ringA, tolerance)
+    ));
+};
+
+// Vertex average of the outer rings; good enough for labels and fallback guesses
+export const geometryCentroid = (geometry: PolygonGeometry): LatLng => {
+    const points = outerRings(geometry).flatMap(ring => ring.slice(0, -1));
+    return {
+        lat: points.reduce((sum, [, lat]) => sum + lat, 0) / points.length,
+        lng: points.reduce((sum, [lng]) => sum + lng, 0) / points.length,
+    };
+};
+
+// Outer rings as LatLng paths, e.g. for google.maps.Polygon
+export const geometryPaths = (geometry: PolygonGeometry): LatLng[][] =>
+    outerRings(geometry).map(ring => ring.map(([lng, lat]) => ({ lat, lng })));
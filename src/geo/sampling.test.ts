@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { createSeededRandom } from '../game/random';
+import { FeatureCollection, Polygon, Position } from './geojson';
+import { pointInPolygon } from './polygon';
+import { ExclusionProperties, createSampler } from './sampling';
+
+const polygon = (ring: Position[]): Polygon => ({ type: 'Polygon', coordinates: [ring] });
+
+const SQUARE = polygon([[0, 0], [1, 0], [1, 1], [0, 1], [0, 0]]);
+
+// An L shape: the top-right quarter of its bounding box is outside it
+const L_SHAPE = polygon([[0, 0], [2, 0], [2, 1], [1, 1], [1, 2], [0, 2], [0, 0]]);
+
+const LAKE: FeatureCollection<ExclusionProperties> = {
+    type: 'FeatureCollection',
+    features: [{
+        type: 'Feature',
+        properties: { name: 'Lake', kind: 'water' },
+        geometry: polygon([[0.25, 0.25], [0.75, 0.25], [0.75, 0.75], [0.25, 0.75], [0.25, 0.25]]),
+    }],
+};
+
+describe('createSampler', () => {
+    it('keeps every point inside a convex boundary', () => {
+        const sampler = createSampler({ boundary: SQUARE });
+        const random = createSeededRandom('convex');
+        for (let i = 0; i < 500; i++) {
+            expect(pointInPolygon(sampler.sample(random), SQUARE)).toBe(true);
+        }
+    });
+
+    it('keeps every point inside a concave boundary', () => {
+        const sampler = createSampler({ boundary: L_SHAPE });
+        const random = createSeededRandom('concave');
+        for (let i = 0; i < 500; i++) {
+            const point = sampler.sample(random);
+            expect(pointInPolygon(point, L_SHAPE)).toBe(true);
+            expect(point.lat > 1 && point.lng > 1).toBe(false);
+        }
+    });
+
+    it('rejects bounding box draws outside the boundary', () => {
+        // The first draw lands in the L's missing corner, the second inside it
+        const draws = [0.75, 0.75, 0.25, 0.25];
+        const sampler = createSampler({ boundary: L_SHAPE });
+        expect(sampler.sample(() => draws.shift() ?? 0)).toEqual({ lat: 0.5, lng: 0.5 });
+        expect(draws).toHaveLength(0);
+    });
+
+    it('skips excluded areas', () => {
+        const sampler = createSampler({ boundary: SQUARE, exclusions: LAKE });
+        const random = createSeededRandom('lake');
+        for (let i = 0; i < 500; i++) {
+            const point = sampler.sample(random);
+            expect(sampler.contains(point)).toBe(true);
+            expect(pointInPolygon(point, LAKE.features[0].geometry)).toBe(false);
+        }
+    });
+
+    it('gives up after the attempt limit', () => {
+        const sampler = createSampler({ boundary: L_SHAPE }, { maxAttempts: 3 });
+        expect(() => sampler.sample(() => 0.9)).toThrow('after 3 attempts');
+    });
+});
@@ -0,0 +1,87 @@
+import { Bounds, LatLng } from './types';
+import { FeatureCollection, PolygonGeometry } from './geojson';
+import { geometryBounds, pointInPolygon } from './polygon';
+
+export type ExclusionKind = 'water' | 'airport' | 'park';
+
+export interface ExclusionProperties {
+    name: string;
+    kind: ExclusionKind;
+}
+
+export interface DensityProperties {
+    name: string;
+    // Relative likelihood of sampling inside this zone. Overlapping zones use the highest weight.
+    weight: number;
+}
+
+export interface SamplingArea {
+    boundary: PolygonGeometry;
+    exclusions?: FeatureCollection<ExclusionProperties>;
+    // Road density zones. Points outside every zone get a weight of 1.
+    density?: FeatureCollection<DensityProperties>;
+}
+
+export interface SamplerOptions {
+    excludeKinds?: ExclusionKind[];
+    weightByDensity?: boolean;
+    maxAttempts?: number;
+}
+
+export type RandomSource = () => number;
+
+export interface Sampler {
+    bounds: Bounds;
+    contains: (point: LatLng) => boolean;
+    sample: (random?: RandomSource) => LatLng;
+}
+
+const BASE_WEIGHT = 1;
+const DEFAULT_MAX_ATTEMPTS = 10000;
+
+export const uniformInBounds = (bounds: Bounds, random: RandomSource = Math.random): LatLng => ({
+    lat: bounds.south + random() * (bounds.north - bounds.south),
+    lng: bounds.west + random() * (bounds.east - bounds.west),
+});
+
+// Rejection sampler: draw uniformly in the boundary's bounding box, discard
+// points outside the boundary or inside an exclusion, then accept with
+// probability weight / maxWeight so denser zones are picked more often.
+export const createSampler = (area: SamplingArea, options: SamplerOptions = {}): Sampler => {
+    const {
+        excludeKinds = ['water', 'airport', 'park'],
+        weightByDensity = true,
+        maxAttempts = DEFAULT_MAX_ATTEMPTS,
+    } = options;
+
+    const bounds = geometryBounds(area.boundary);
+    const exclusions = (area.exclusions?.features ?? [])
+        .filter(feature => excludeKinds.includes(feature.properties.kind));
+    const zones = weightByDensity ? area.density?.features ?? [] : [];
+    const maxWeight = zones.reduce((max, zone) => Math.max(max, zone.properties.weight), BASE_WEIGHT);
+
+    const contains = (point: LatLng): boolean =>
+        pointInPolygon(point, area.boundary) &&
+        !exclusions.some(feature => pointInPolygon(point, feature.geometry));
+
+    const weightAt = (point: LatLng): number =>
+        zones.reduce(
+            (weight, zone) => pointInPolygon(point, zone.geometry) ? Math.max(weight, zone.properties.weight) : weight,
+            BASE_WEIGHT
+        );
+
+    const sample = (random: RandomSource = Math.random): LatLng => {
+        for (let attempt = 0; attempt < maxAttempts; attempt++) {
+            const point = uniformInBounds(bounds, random);
+            if (!contains(point)) {
+                continue;
+            }
+            if (maxWeight === BASE_WEIGHT || random() * maxWeight < weightAt(point)) {
+                return point;
+            }
+        }
+        throw new Error(`Unable to sample a location after ${maxAttempts} attempts`);
+    };
+
+    return { bounds, contains, sample };
+};
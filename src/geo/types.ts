@@ -0,0 +1,44 @@
+// Plain coordinate types shared by the game logic. These are structurally
+// compatible with google.maps.LatLngLiteral / LatLngBoundsLiteral but don't
+// require the Maps SDK to be loaded.
+
+export interface LatLng {
+    lat: number;
+    lng: number;
+}
+
+export interface Bounds {
+    north: number;
+    south: number;
+    east: number;
+    west: number;
+}
+
+export const boundsCenter = (bounds: Bounds): LatLng => ({
+    lat: (bounds.north + bounds.south) / 2,
+    lng: (bounds.east + bounds.west) / 2
+});
+
+export const padBounds = (bounds: Bounds, padding: number): Bounds => ({
+    north: bounds.north + padding,
+    south: bounds.south - padding,
+    west: bounds.west - padding,
+    east: bounds.east + padding,
+});
+
+// Smallest bounds around a non-empty list of points
+export const boundsOf = (points: LatLng[]): Bounds => ({
+    north: Math.max(...points.map(point => point.lat)),
+    south: Math.min(...points.map(point => point.lat)),
+    east: Math.max(...points.map(point => point.lng)),
+    west: Math.min(...points.map(point => point.lng)),
+});
+
+export const containsPoint = (bounds: Bounds, { lat, lng }: LatLng): boolean =>
+    lat >= bounds.south && lat <= bounds.north && lng >= bounds.west && lng <= bounds.east;
+
+// For coordinates arriving from outside, e.g. over the network
+export const isLatLng = (value: unknown): value is LatLng => {
+    const point = value as LatLng | null;
+    return typeof point === 'object' && point !== null && Number.isFinite(point.lat) && Number.isFinite(point.lng);
+};
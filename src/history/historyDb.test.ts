@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_GAME_SETTINGS } from '../game/settings';
+import { RoundRecord } from '../game/session';
+import { isHistoryExport } from './historyDb';
+
+const ROUND: RoundRecord = {
+    pano: 'pano-1',
+    actual: { lat: 51.05, lng: -114.07 },
+    guess: { lat: 51.06, lng: -114.08 },
+    distance: 1300,
+    points: 4200,
+    timeTaken: 12000,
+    hintUsed: false,
+    hints: [],
+};
+
+const exportWith = (game: object, round: object = { ...ROUND, id: 'g1:0', gameId: 'g1', index: 0, regionKey: 'calgary', playedAt: 2 }) => ({
+    format: 'neighbourguessr-history',
+    version: 1,
+    exportedAt: 3,
+    games: [game],
+    rounds: [round],
+});
+
+const GAME = {
+    id: 'g1',
+    mode: 'classic',
+    seed: null,
+    regionId: 'calgary',
+    regionKey: 'calgary',
+    regionName: 'Calgary',
+    settings: DEFAULT_GAME_SETTINGS,
+    startedAt: 1,
+    finishedAt: 2,
+    rounds: [ROUND],
+};
+
+describe('isHistoryExport', () => {
+    it('accepts a well-formed export', () => {
+        expect(isHistoryExport(exportWith(GAME))).toBe(true);
+    });
+
+    it('rejects games without settings or with malformed rounds', () => {
+        expect(isHistoryExport(exportWith({ ...GAME, settings: undefined }))).toBe(false);
+        expect(isHistoryExport(exportWith({ ...GAME, rounds: [{ ...ROUND, points: '4200' }] }))).toBe(false);
+        expect(isHistoryExport(exportWith({ ...GAME, rounds: [{ ...ROUND, actual: null }] }))).toBe(false);
+    });
+
+    it('rejects stored rounds that are missing fields', () => {
+        expect(isHistoryExport(exportWith(GAME, { ...ROUND, id: 'g1:0', gameId: 'g1' }))).toBe(false);
+        expect(isHistoryExport(exportWith(GAME, { id: 'g1:0', gameId: 'g1' }))).toBe(false);
+    });
+});
@@ -0,0 +1,199 @@
+import { GameSession, RoundRecord } from '../game/session';
+import { DifficultyPreset } from '../game/difficulty';
+import { GameSettings } from '../game/settings';
+import { isLatLng } from '../geo/types';
+
+// IndexedDB store for finished games and every played round. Rounds are saved
+// as soon as they are played so abandoned games still count towards stats.
+
+export interface StoredRound extends RoundRecord {
+    id: string;
+    gameId: string;
+    index: number;
+    regionKey: string;
+    mode: GameSession['mode'];
+    // Missing on rounds saved before difficulties existed
+    difficulty?: DifficultyPreset;
+    playedAt: number;
+}
+
+export interface HistoryExport {
+    format: 'neighbourguessr-history';
+    version: 1;
+    exportedAt: number;
+    games: GameSession[];
+    rounds: StoredRound[];
+}
+
+const DB_NAME = 'neighbourguessr';
+const DB_VERSION = 1;
+const GAMES_STORE = 'games';
+const ROUNDS_STORE = 'rounds';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                if (!db.objectStoreNames.contains(GAMES_STORE)) {
+                    const games = db.createObjectStore(GAMES_STORE, { keyPath: 'id' });
+                    games.createIndex('regionKey', 'regionKey');
+                }
+                if (!db.objectStoreNames.contains(ROUNDS_STORE)) {
+                    const rounds = db.createObjectStore(ROUNDS_STORE, { keyPath: 'id' });
+                    rounds.createIndex('gameId', 'gameId');
+                    rounds.createIndex('regionKey', 'regionKey');
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+
+export const saveRound = async (session: GameSession, index: number): Promise<void> => {
+    const round = session.rounds[index];
+    const stored: StoredRound = {
+        ...round,
+        id: `${session.id}:${index}`,
+        gameId: session.id,
+        index,
+        regionKey: session.regionKey,
+        mode: session.mode,
+        difficulty: session.settings.difficulty.preset,
+        playedAt: Date.now(),
+    };
+    const db = await openDb();
+    const transaction = db.transaction(ROUNDS_STORE, 'readwrite');
+    transaction.objectStore(ROUNDS_STORE).put(stored);
+    await transactionDone(transaction);
+};
+
+export const saveGame = async (session: GameSession): Promise<void> => {
+    const db = await openDb();
+    const transaction = db.transaction(GAMES_STORE, 'readwrite');
+    transaction.objectStore(GAMES_STORE).put(session);
+    await transactionDone(transaction);
+};
+
+const getAllByRegion = async <T>(storeName: string, regionKey?: string): Promise<T[]> => {
+    const db = await openDb();
+    const store = db.transaction(storeName, 'readonly').objectStore(storeName);
+    const request = regionKey ? store.index('regionKey').getAll(regionKey) : store.getAll();
+    return requestToPromise(request as IDBRequest<T[]>);
+};
+
+export const loadGames = (regionKey?: string): Promise<GameSession[]> =>
+    getAllByRegion<GameSession>(GAMES_STORE, regionKey);
+
+export const loadRounds = (regionKey?: string): Promise<StoredRound[]> =>
+    getAllByRegion<StoredRound>(ROUNDS_STORE, regionKey);
+
+export const exportHistory = async (): Promise<HistoryExport> => {
+    const [games, rounds] = await Promise.all([loadGames(), loadRounds()]);
+    return {
+        format: 'neighbourguessr-history',
+        version: 1,
+        exportedAt: Date.now(),
+        games,
+        rounds,
+    };
+};
+
+// Imported records are read straight back by the stats screen, so check
+// everything it relies on before they reach the database
+const isNullableNumber = (value: unknown): boolean => value === null || Number.isFinite(value);
+
+const isRoundRecord = (value: unknown): value is RoundRecord => {
+    const round = value as Partial<RoundRecord> | null;
+    return typeof round === 'object' && round !== null &&
+        typeof round.pano === 'string' &&
+        isLatLng(round.actual) &&
+        (round.guess === null || isLatLng(round.guess)) &&
+        isNullableNumber(round.distance) &&
+        Number.isFinite(round.points) &&
+        Number.isFinite(round.timeTaken) &&
+        typeof round.hintUsed === 'boolean' &&
+        (round.hints === undefined || Array.isArray(round.hints)) &&
+        (round.turns === undefined || Array.isArray(round.turns));
+};
+
+const isSettings = (value: unknown): value is GameSettings => {
+    const settings = value as Partial<GameSettings> | null;
+    return typeof settings === 'object' && settings !== null &&
+        Number.isInteger(settings.rounds) &&
+        typeof settings.movement === 'string' &&
+        typeof settings.scoring === 'object' && settings.scoring !== null;
+};
+
+const isStoredGame = (value: unknown): value is GameSession => {
+    const game = value as Partial<GameSession> | null;
+    return typeof game === 'object' && game !== null &&
+        typeof game.id === 'string' &&
+        typeof game.mode === 'string' &&
+        typeof game.regionKey === 'string' &&
+        typeof game.regionName === 'string' &&
+        Number.isFinite(game.startedAt) &&
+        isNullableNumber(game.finishedAt) &&
+        isSettings(game.settings) &&
+        Array.isArray(game.rounds) &&
+        game.rounds.every(isRoundRecord);
+};
+
+const isStoredRound = (value: unknown): value is StoredRound => {
+    const round = value as Partial<StoredRound> | null;
+    return typeof round === 'object' && round !== null &&
+        typeof round.id === 'string' &&
+        typeof round.gameId === 'string' &&
+        Number.isInteger(round.index) &&
+        typeof round.regionKey === 'string' &&
+        Number.isFinite(round.playedAt) &&
+        isRoundRecord(round);
+};
+
+export const isHistoryExport = (value: unknown): value is HistoryExport => {
+    const candidate = value as Partial<HistoryExport> | null;
+    return !!candidate &&
+        candidate.format === 'neighbourguessr-history' &&
+        candidate.version === 1 &&
+        Array.isArray(candidate.games) &&
+        Array.isArray(candidate.rounds) &&
+        candidate.games.every(isStoredGame) &&
+        candidate.rounds.every(isStoredRound);
+};
+
+// Merges an export into the local history. Entries with the same id are
+// overwritten, so importing the same file twice is harmless.
+export const importHistory = async (data: unknown): Promise<{ games: number; rounds: number }> => {
+    if (!isHistoryExport(data)) {
+        throw new Error('This file is not a NeighbourGuessr history export.');
+    }
+    const db = await openDb();
+    const transaction = db.transaction([GAMES_STORE, ROUNDS_STORE], 'readwrite');
+    const games = transaction.objectStore(GAMES_STORE);
+    const rounds = transaction.objectStore(ROUNDS_STORE);
+    data.games.forEach(game => games.put(game));
+    data.rounds.forEach(round => rounds.put(round));
+    await transactionDone(transaction);
+    return { games: data.games.length, rounds: data.rounds.length };
+};
@@ -0,0 +1,103 @@
+import { GameSession, sessionTotal } from '../game/session';
+import { StoredRound } from './historyDb';
+
+export interface DistanceBand {
+    label: string;
+    // Upper bound in metres (exclusive)
+    max: number;
+}
+
+export const DISTANCE_BANDS: DistanceBand[] = [
+    { label: '< 250 m', max: 250 },
+    { label: '250 m – 1 km', max: 1000 },
+    { label: '1 – 2 km', max: 2000 },
+    { label: '2 – 3 km', max: 3000 },
+    { label: '3 – 5 km', max: 5000 },
+    { label: '5 – 10 km', max: 10000 },
+    { label: '10 km +', max: Infinity },
+];
+
+export interface PlayerStats {
+    gamesPlayed: number;
+    roundsPlayed: number;
+    averageDistance: number | null;
+    averageScore: number | null;
+    bestGame: GameSession | null;
+    // Consecutive days with at least one finished game
+    currentStreak: number;
+    longestStreak: number;
+    histogram: { band: DistanceBand; count: number }[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Local calendar day, so a streak follows the player's own midnight
+const dayKey = (timestamp: number): string => new Date(timestamp).toLocaleDateString('en-CA');
+
+const computeStreaks = (games: GameSession[], now: number): { current: number; longest: number } => {
+    const days = new Set(games.map(game => dayKey(game.finishedAt ?? game.startedAt)));
+    const sorted = [...days].sort();
+
+    let longest = 0;
+    let run = 0;
+    let previous: number | null = null;
+    for (const day of sorted) {
+        const time = new Date(`${day}T12:00:00`).getTime();
+        run = previous !== null && Math.round((time - previous) / DAY_MS) === 1 ? run + 1 : 1;
+        longest = Math.max(longest, run);
+        previous = time;
+    }
+
+    // The current streak survives until the end of the day after the last game
+    let current = 0;
+    let cursor = now;
+    if (!days.has(dayKey(cursor))) {
+        cursor -= DAY_MS;
+    }
+    while (days.has(dayKey(cursor))) {
+        current++;
+        cursor -= DAY_MS;
+    }
+
+    return { current, longest };
+};
+
+export const computeStats = (games: GameSession[], rounds: StoredRound[], now: number = Date.now()): PlayerStats => {
+    const finishedGames = games.filter(game => game.finishedAt !== null);
+    const guessedRounds = rounds.filter(round => round.distance !== null);
+    const streaks = computeStreaks(finishedGames, now);
+
+    const bestGame = finishedGames.reduce<GameSession | null>(
+        (best, game) => !best || sessionTotal(game) > sessionTotal(best) ? game : best,
+        null
+    );
+
+    const histogram = DISTANCE_BANDS.map(band => ({ band, count: 0 }));
+    guessedRounds.forEach(round => {
+        const index = DISTANCE_BANDS.findIndex(band => (round.distance as number) < band.max);
+        histogram[index].count++;
+    });
+
+    return {
+        gamesPlayed: finishedGames.length,
+        roundsPlayed: rounds.length,
+        averageDistance: guessedRounds.length > 0
+            ? guessedRounds.reduce((total, round) => total + (round.distance as number), 0) / guessedRounds.length
+            : null,
+        averageScore: finishedGames.length > 0
+            ? finishedGames.reduce((total, game) => total + sessionTotal(game), 0) / finishedGames.length
+            : null,
+        bestGame,
+        currentStreak: streaks.current,
+        longestStreak: streaks.longest,
+        histogram,
+    };
+};
+
+// Heatmap points: where the answers were, weighted by how far off the guess was
+export const missHeatmapPoints = (rounds: StoredRound[]): { location: StoredRound['actual']; weight: number }[] =>
+    rounds.map(round => ({
+        location: round.actual,
+        // Skipped rounds count as a complete miss
+        weight: round.distance === null ? 10 : Math.min(10, round.distance / 1000),
+    }));
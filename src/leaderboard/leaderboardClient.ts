@@ -0,0 +1,140 @@
+import { loadJSON, saveJSON } from '../storage';
+import {
+    GuessRequest,
+    GuessResponse,
+    LEADERBOARD_API,
+    LeaderboardMode,
+    LeaderboardPeriod,
+    LeaderboardResponse,
+    RankedRegionId,
+    RoundTokenRequest,
+    RoundTokenResponse,
+    ScoreSubmission,
+    ScoreSubmissionResponse,
+} from './protocol';
+
+// Calls to the leaderboard functions. When they can't be reached the game
+// carries on unranked, boards are served from the last copy seen, and
+// finished scores wait in localStorage until the next visit.
+
+export class LeaderboardError extends Error {
+    // True when the server couldn't be reached, rather than refusing the request
+    readonly offline: boolean;
+
+    constructor(message: string, offline: boolean) {
+        super(message);
+        this.name = 'LeaderboardError';
+        this.offline = offline;
+    }
+}
+
+const OFFLINE_MESSAGE = 'The leaderboard is offline.';
+
+const request = async <T>(path: string, init?: RequestInit): Promise<T> => {
+    let response: Response;
+    try {
+        response = await fetch(`${LEADERBOARD_API}${path}`, {
+            ...init,
+            headers: { 'Content-Type': 'application/json' },
+        });
+    } catch {
+        throw new LeaderboardError(OFFLINE_MESSAGE, true);
+    }
+    const body = await response.json().catch(() => null) as (T & { error?: string }) | null;
+    if (!response.ok || !body) {
+        // A missing function (plain `vite` without `netlify dev`) or a crashed one
+        const offline = !body?.error || response.status === 404 || response.status >= 500;
+        throw new LeaderboardError(body?.error ?? OFFLINE_MESSAGE, offline);
+    }
+    return body;
+};
+
+const post = <T>(path: string, body: unknown): Promise<T> =>
+    request<T>(path, { method: 'POST', body: JSON.stringify(body) });
+
+export const requestRoundToken = (body: RoundTokenRequest): Promise<RoundTokenResponse> =>
+    post('/round', body);
+
+export const submitRankedGuess = (body: GuessRequest): Promise<GuessResponse> =>
+    post('/guess', body);
+
+const submitScore = (body: ScoreSubmission): Promise<ScoreSubmissionResponse> =>
+    post('/leaderboard', body);
+
+const CACHE_KEY = 'leaderboardCache';
+const PENDING_KEY = 'pendingScores';
+const PLAYER_KEY = 'rankedPlayerId';
+
+// Random and kept for good, so the server can hold each browser to one
+// ranked daily a day
+export const rankedPlayerId = (): string => {
+    const stored = loadJSON<string | null>(PLAYER_KEY, null);
+    if (stored) {
+        return stored;
+    }
+    const id = `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+    saveJSON(PLAYER_KEY, id);
+    return id;
+};
+
+const boardKey = (region: RankedRegionId, mode: LeaderboardMode, period: LeaderboardPeriod): string =>
+    `${region}:${mode}:${period}`;
+
+export interface LeaderboardView extends LeaderboardResponse {
+    // False when served from the local copy because the server is unreachable
+    live: boolean;
+    fetchedAt: number;
+}
+
+export const fetchLeaderboard = async (
+    region: RankedRegionId,
+    mode: LeaderboardMode,
+    period: LeaderboardPeriod
+): Promise<LeaderboardView | null> => {
+    const key = boardKey(region, mode, period);
+    const cache = loadJSON<Record<string, LeaderboardView>>(CACHE_KEY, {});
+    try {
+        const params = new URLSearchParams({ region, mode, period });
+        const board: LeaderboardView = { ...await request<LeaderboardResponse>(`/leaderboard?${params}`), live: true, fetchedAt: Date.now() };
+        saveJSON(CACHE_KEY, { ...cache, [key]: board });
+        return board;
+    } catch (error) {
+        if (error instanceof LeaderboardError && error.offline) {
+            return cache[key] ? { ...cache[key], live: false } : null;
+        }
+        throw error;
+    }
+};
+
+// Submits a finished game, or keeps it for later if the server is down.
+// Resolves to null when the score was queued.
+export const submitOrQueueScore = async (submission: ScoreSubmission): Promise<ScoreSubmissionResponse | null> => {
+    try {
+        return await submitScore(submission);
+    } catch (error) {
+        if (error instanceof LeaderboardError && error.offline) {
+            saveJSON(PENDING_KEY, [...loadJSON<ScoreSubmission[]>(PENDING_KEY, []), submission]);
+            return null;
+        }
+        throw error;
+    }
+};
+
+// Retries queued scores. Ones the server refuses (e.g. expired) are dropped.
+export const flushPendingScores = async (): Promise<number> => {
+    const pending = loadJSON<ScoreSubmission[]>(PENDING_KEY, []);
+    const remaining: ScoreSubmission[] = [];
+    let submitted = 0;
+    for (const submission of pending) {
+        try {
+            await submitScore(submission);
+            submitted += 1;
+        } catch (error) {
+            if (error instanceof LeaderboardError && error.offline) {
+                remaining.push(submission);
+            }
+        }
+    }
+    saveJSON(PENDING_KEY, remaining);
+    return submitted;
+};
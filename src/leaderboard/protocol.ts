@@ -0,0 +1,123 @@
+import { LatLng } from '../geo/types';
+import { HintTier } from '../game/hints';
+import { DEFAULT_MOVEMENT, MovementMode } from '../game/movement';
+import { DEFAULT_SCORING, ScoringConfig } from '../game/scoring';
+import { DifficultyPreset } from '../game/difficulty';
+import { GameMode } from '../game/session';
+import { RegionId } from '../regions';
+import { PanoramaResult } from '../streetview/lookup';
+
+// Requests and responses of the leaderboard functions (netlify/functions).
+// The server picks each game's rounds from a seed and seals each location
+// into a token, scores guesses itself and hands back signed results, so the
+// client never chooses a location, sees an answer before guessing or reports
+// points.
+
+export const LEADERBOARD_API = '/api';
+
+// Only games of this length are ranked, so totals are comparable
+export const LEADERBOARD_ROUNDS = 5;
+
+// Ranked rounds are scored with the default rules, whatever the player's settings
+export const RANKED_SCORING: ScoringConfig = DEFAULT_SCORING;
+
+// Only games at this difficulty are ranked, as the map and view time shape scores too
+export const RANKED_DIFFICULTY: DifficultyPreset = 'normal';
+
+// The server can't tell whether a player moved, so ranked games are played
+// and scored at a single movement mode
+export const RANKED_MOVEMENT: MovementMode = DEFAULT_MOVEMENT;
+
+export type LeaderboardMode = Extract<GameMode, 'classic' | 'daily'>;
+export const LEADERBOARD_MODES: { id: LeaderboardMode; label: string }[] = [
+    { id: 'classic', label: 'Classic' },
+    { id: 'daily', label: 'Daily Challenge' },
+];
+
+export type LeaderboardPeriod = 'daily' | 'weekly' | 'all-time';
+export const LEADERBOARD_PERIODS: { id: LeaderboardPeriod; label: string }[] = [
+    { id: 'daily', label: 'Today' },
+    { id: 'weekly', label: 'This Week' },
+    { id: 'all-time', label: 'All Time' },
+];
+
+export type RankedRegionId = Exclude<RegionId, 'custom'>;
+
+export interface RoundTokenRequest {
+    // Null for a game's first round; the server starts a new game
+    gameId: string | null;
+    // Only read when starting a game; later rounds belong to the game the server started
+    region: RankedRegionId;
+    mode: LeaderboardMode;
+    // Stable per browser, so each player gets one ranked daily per day
+    playerId: string;
+}
+
+// What the client needs to show a round, without its answer
+export type RankedLocation = Pick<PanoramaResult, 'pano' | 'heading'>;
+
+export interface RoundTokenResponse {
+    gameId: string;
+    // The game's rounds come from this seed, so the client can play the same
+    // sequence itself if the server drops out partway
+    seed: string;
+    token: string;
+    // The panorama to play, chosen by the server
+    location: RankedLocation;
+}
+
+export interface GuessRequest {
+    token: string;
+    // Null when the round timed out or was skipped
+    guess: LatLng | null;
+    hints: HintTier[];
+}
+
+export interface GuessResponse {
+    points: number;
+    distance: number | null;
+    // The true location, only sent once the guess is in
+    actual: LatLng;
+    // Signed proof of this round's points, submitted with the final score
+    result: string;
+}
+
+export interface ScoreSubmission {
+    name: string;
+    results: string[];
+}
+
+export interface LeaderboardEntry {
+    id: string;
+    name: string;
+    region: RankedRegionId;
+    mode: LeaderboardMode;
+    score: number;
+    submittedAt: number;
+}
+
+export interface ScoreSubmissionResponse {
+    entry: LeaderboardEntry;
+    // 1-based position on the all-time board
+    rank: number;
+}
+
+export interface LeaderboardResponse {
+    period: LeaderboardPeriod;
+    entries: LeaderboardEntry[];
+}
+
+export const LEADERBOARD_SIZE = 20;
+
+// Start of the period containing `now`, in UTC. Weeks start on Monday.
+export const periodStart = (period: LeaderboardPeriod, now: number = Date.now()): number => {
+    if (period === 'all-time') {
+        return 0;
+    }
+    const date = new Date(now);
+    date.setUTCHours(0, 0, 0, 0);
+    if (period === 'weekly') {
+        date.setUTCDate(date.getUTCDate() - ((date.getUTCDay() + 6) % 7));
+    }
+    return date.getTime();
+};
@@ -0,0 +1,65 @@
+import { describe, expect, it, vi } from 'vitest';
+import { LocationSource, createFixedLocationSource } from '../streetview/locationSource';
+import { RankedGame, createRankedLocationSource } from './rankedGame';
+
+const locations = (prefix: string) => Array.from({ length: 5 }, (_, index) => ({
+    pano: `${prefix}-${index}`,
+    position: { lat: 51 + index / 100, lng: -114 },
+}));
+
+// A game whose server issues `issued` rounds of the seeded sequence, then drops out
+const fakeGame = (panos: string[], issued: number): RankedGame => {
+    let rounds = 0;
+    return {
+        nextRound: vi.fn(async () => {
+            if (rounds >= issued) {
+                throw new Error('offline');
+            }
+            return { seed: 'seed-a', location: { pano: panos[rounds++] } };
+        }),
+        guess: vi.fn(),
+        settle: vi.fn(),
+        submit: vi.fn(),
+        abandon: vi.fn(),
+    };
+};
+
+const play = async (source: LocationSource): Promise<string[]> => {
+    const panos: string[] = [];
+    for (let round = 0; round < 5; round++) {
+        panos.push((await source.next()).pano);
+    }
+    return panos;
+};
+
+describe('createRankedLocationSource', () => {
+    it('carries on with the seeded sequence when the server drops out partway', async () => {
+        const sequence = locations('seeded');
+        const game = fakeGame(sequence.map(location => location.pano), 2);
+        const seeded = vi.fn(() => createFixedLocationSource(sequence));
+        const source = createRankedLocationSource(game, seeded, createFixedLocationSource(locations('pool')));
+
+        expect(await play(source)).toEqual(sequence.map(location => location.pano));
+        expect(seeded).toHaveBeenCalledTimes(1);
+        expect(seeded).toHaveBeenCalledWith('seed-a');
+        expect(game.abandon).not.toHaveBeenCalled();
+    });
+
+    it('unranks the game when a round differs from the server', async () => {
+        const game = fakeGame(['seeded-0', 'other-1'], 5);
+        const source = createRankedLocationSource(game, () => createFixedLocationSource(locations('seeded')), createFixedLocationSource([]));
+
+        await source.next();
+        expect(game.abandon).not.toHaveBeenCalled();
+        await source.next();
+        expect(game.abandon).toHaveBeenCalledTimes(1);
+    });
+
+    it('plays the fallback when the server never starts the game', async () => {
+        const seeded = vi.fn(() => createFixedLocationSource(locations('seeded')));
+        const source = createRankedLocationSource(fakeGame([], 0), seeded, createFixedLocationSource(locations('pool')));
+
+        expect(await play(source)).toEqual(locations('pool').map(location => location.pano));
+        expect(seeded).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,161 @@
+import { LatLng } from '../geo/types';
+import { HintTier } from '../game/hints';
+import { isSameScoring } from '../game/scoring';
+import { GameSession } from '../game/session';
+import { Region } from '../regions';
+import { LocationSource } from '../streetview/locationSource';
+import { LeaderboardError, rankedPlayerId, requestRoundToken, submitOrQueueScore, submitRankedGuess } from './leaderboardClient';
+import {
+    LEADERBOARD_ROUNDS,
+    LeaderboardMode,
+    RANKED_DIFFICULTY,
+    RANKED_MOVEMENT,
+    RANKED_SCORING,
+    RankedLocation,
+    RankedRegionId,
+    ScoreSubmissionResponse,
+} from './protocol';
+
+// Plays a game against the server: it picks the game's rounds from a seed and
+// seals each into a token, and scores each guess. Requests run one at a time;
+// the first failure makes the rest of the game unranked without interrupting play.
+
+export interface RankedRound {
+    // The seed the game's rounds were picked from
+    seed: string;
+    location: RankedLocation;
+}
+
+export type RankedOutcome = { total: number } | { unranked: string };
+
+export interface RankedGame {
+    // The server's panorama for the next round. Rejects once the game is unranked.
+    nextRound: () => Promise<RankedRound>;
+    // A null guess scores nothing (timed out or skipped)
+    guess: (guess: LatLng | null, hints: HintTier[]) => void;
+    // Waits for every request so far
+    settle: () => Promise<RankedOutcome>;
+    // Null when the score was queued because the server is unreachable
+    submit: (name: string) => Promise<ScoreSubmissionResponse | null>;
+    // Drops the game from the rankings, e.g. when a panorama won't load
+    abandon: (reason: string) => void;
+}
+
+const OFFLINE_REASON = 'The leaderboard is offline, so this game is unranked.';
+
+export const createRankedGame = (region: RankedRegionId, mode: LeaderboardMode, playerId: string): RankedGame => {
+    let chain: Promise<void> = Promise.resolve();
+    let gameId: string | null = null;
+    let token: string | null = null;
+    let unranked: string | null = null;
+    const results: string[] = [];
+    let total = 0;
+
+    // Resolves with the step's result, or null once the game is unranked
+    const enqueue = <T>(step: () => Promise<T>): Promise<T | null> => {
+        const result = chain.then(async () => {
+            if (unranked) {
+                return null;
+            }
+            try {
+                return await step();
+            } catch (error) {
+                console.warn('Ranked play unavailable:', error);
+                unranked = error instanceof LeaderboardError && !error.offline ? error.message : OFFLINE_REASON;
+                return null;
+            }
+        });
+        chain = result.then(() => undefined);
+        return result;
+    };
+
+    const nextRound = async (): Promise<RankedRound> => {
+        const round = await enqueue(async () => {
+            const response = await requestRoundToken({ gameId, region, mode, playerId });
+            gameId = response.gameId;
+            token = response.token;
+            return { seed: response.seed, location: response.location };
+        });
+        if (!round) {
+            throw new Error(unranked ?? OFFLINE_REASON);
+        }
+        return round;
+    };
+
+    const guess = (point: LatLng | null, hints: HintTier[]) => enqueue(async () => {
+        if (!token) {
+            throw new Error('No ranked round to guess');
+        }
+        const response = await submitRankedGuess({ token, guess: point, hints });
+        token = null;
+        results.push(response.result);
+        total += response.points;
+    });
+
+    const settle = async (): Promise<RankedOutcome> => {
+        await chain;
+        if (unranked) {
+            return { unranked };
+        }
+        return results.length === LEADERBOARD_ROUNDS ? { total } : { unranked: 'Not every round was scored, so this game is unranked.' };
+    };
+
+    const submit = async (name: string) => {
+        const outcome = await settle();
+        if ('unranked' in outcome) {
+            throw new Error(outcome.unranked);
+        }
+        return submitOrQueueScore({ name, results });
+    };
+
+    const abandon = (reason: string) => {
+        unranked = unranked ?? reason;
+    };
+
+    return { nextRound, guess, settle, submit, abandon };
+};
+
+// Only classic and daily games of the standard length, difficulty, movement
+// and scoring in a built-in region are ranked, so the score on screen is the
+// one the server records
+export const startRankedGame = (session: GameSession, region: Region): RankedGame | null =>
+    (session.mode === 'classic' || session.mode === 'daily') && region.id !== 'custom'
+        && session.settings.rounds === LEADERBOARD_ROUNDS && session.settings.difficulty.preset === RANKED_DIFFICULTY
+        && session.settings.movement === RANKED_MOVEMENT && isSameScoring(session.settings.scoring, RANKED_SCORING)
+        ? createRankedGame(region.id, session.mode, rankedPlayerId())
+        : null;
+
+// Plays the game's seed through `seeded`, the same location source the
+// server picked the rounds with, so every round's position comes from the
+// player's own lookup and the sequence carries on if the server drops out
+// partway. A round that doesn't match the server's makes the game unranked.
+// Only a game the server never started plays `fallback`.
+export const createRankedLocationSource = (
+    game: RankedGame,
+    seeded: (seed: string) => LocationSource,
+    fallback: LocationSource
+): LocationSource => {
+    let sequence: LocationSource | null = null;
+    let current: string | null = null;
+    return {
+        next: async () => {
+            const round = await game.nextRound().catch(() => null);
+            if (!sequence) {
+                sequence = round ? seeded(round.seed) : fallback;
+            }
+            const location = await sequence.next();
+            current = round ? location.pano : null;
+            if (round && round.location.pano !== location.pano) {
+                game.abandon("This round didn't match the server's, so this game is unranked.");
+            }
+            return { ...location, heading: round?.location.heading ?? location.heading };
+        },
+        forget: (pano) => {
+            // Another round would be one more than the server allows
+            if (pano === current) {
+                game.abandon("A ranked panorama didn't load, so this game is unranked.");
+            }
+            sequence?.forget?.(pano);
+        },
+    };
+};
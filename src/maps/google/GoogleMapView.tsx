@@ -0,0 +1,197 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { GoogleMap, HeatmapLayerF, Marker, Polygon, Polyline } from '@react-google-maps/api';
+import { LatLng, boundsOf } from '../../geo/types';
+import { quota } from '../../quota/quotaManager';
+import { MapAppearance, MapMarker, MapViewProps } from '../types';
+
+const MAX_FOCUS_ZOOM = 15;
+
+const hideLabels = (featureType: string): google.maps.MapTypeStyle =>
+    ({ featureType, elementType: 'labels', stylers: [{ visibility: 'off' }] });
+
+// Satellite imagery shows labels only as the hybrid map type
+const appearanceOptions = (appearance: MapAppearance): google.maps.MapOptions => {
+    const labelled = appearance.roadLabels || appearance.poiLabels;
+    return {
+        mapTypeId: appearance.satellite ? labelled ? 'hybrid' : 'satellite' : 'roadmap',
+        styles: [
+            ...(appearance.roadLabels ? [] : [hideLabels('road')]),
+            ...(appearance.poiLabels ? [] : [hideLabels('poi'), hideLabels('transit')]),
+        ],
+        minZoom: appearance.minZoom,
+        maxZoom: appearance.maxZoom,
+    };
+};
+
+const CURSOR_ICON: google.maps.Symbol = {
+    path: 'M -12,0 L -4,0 M 4,0 L 12,0 M 0,-12 L 0,-4 M 0,4 L 0,12',
+    strokeColor: '#111827',
+    strokeWeight: 3,
+    scale: 1,
+};
+
+const markerIcon = (marker: MapMarker): string | google.maps.Symbol | undefined => {
+    if (marker.kind === 'answer') {
+        return 'http://maps.google.com/mapfiles/ms/icons/red-dot.png';
+    }
+    if (marker.kind === 'guess') {
+        return 'http://maps.google.com/mapfiles/ms/icons/blue-dot.png';
+    }
+    if (marker.kind === 'cursor') {
+        return CURSOR_ICON;
+    }
+    // Coloured markers (e.g. hot-seat players) are dots
+    return marker.color ? {
+        path: google.maps.SymbolPath.CIRCLE,
+        scale: 8,
+        fillColor: marker.color,
+        fillOpacity: 1,
+        strokeColor: '#FFFFFF',
+        strokeWeight: 2,
+    } : undefined;
+};
+
+// Pan to a single point, or fit several without zooming in too close
+const frame = (map: google.maps.Map, points: LatLng[], animate: boolean) => {
+    if (points.length === 1) {
+        if (animate) {
+            map.panTo(points[0]);
+        } else {
+            map.setCenter(points[0]);
+        }
+        return;
+    }
+    map.fitBounds(boundsOf(points), 100);
+    google.maps.event.addListenerOnce(map, 'idle', () => {
+        const zoom = map.getZoom();
+        if (zoom && zoom > MAX_FOCUS_ZOOM) {
+            map.setZoom(MAX_FOCUS_ZOOM);
+        }
+    });
+};
+
+const GoogleMapView: React.FC<MapViewProps> = ({
+    bounds,
+    restriction,
+    focus,
+    markers = [],
+    lines = [],
+    areas = [],
+    heatmap,
+    onClick,
+    crosshair,
+    highContrast,
+    reducedMotion,
+    appearance,
+    height,
+}) => {
+    const mapRef = useRef<google.maps.Map | null>(null);
+
+    const heatmapData = useMemo(
+        () => heatmap?.map(point => ({
+            location: new google.maps.LatLng(point.location.lat, point.location.lng),
+            weight: point.weight,
+        })) ?? [],
+        [heatmap]
+    );
+
+    useEffect(() => {
+        if (mapRef.current && focus && focus.length > 0) {
+            frame(mapRef.current, focus, !reducedMotion);
+        }
+    }, [focus]);
+
+    const onLoad = (map: google.maps.Map) => {
+        mapRef.current = map;
+        quota.record('mapLoad');
+        map.fitBounds(bounds);
+        if (focus && focus.length > 0) {
+            frame(map, focus, false);
+        }
+    };
+
+    return (
+        <GoogleMap
+            mapContainerStyle={{ width: '100%', height }}
+            onLoad={onLoad}
+            onClick={(e) => {
+                const point = e.latLng?.toJSON();
+                if (point && onClick) {
+                    onClick(point);
+                }
+            }}
+            options={{
+                streetViewControl: false,
+                mapTypeControl: false,
+                fullscreenControl: false,
+                zoomControl: true,
+                clickableIcons: false,
+                // The arrow keys move the keyboard pin instead
+                keyboardShortcuts: false,
+                gestureHandling: 'greedy',
+                draggableCursor: crosshair ? 'crosshair' : undefined,
+                ...(restriction ? {
+                    restriction: { latLngBounds: restriction, strictBounds: appearance?.strictBounds ?? false },
+                    minZoom: 9,
+                    maxZoom: 18,
+                } : {}),
+                ...(appearance ? appearanceOptions(appearance) : {}),
+            }}
+        >
+            {areas.map(area => (
+                <Polygon
+                    key={area.id}
+                    paths={area.paths}
+                    options={{
+                        // Let clicks fall through to the map's click handler
+                        clickable: false,
+                        strokeColor: area.color,
+                        strokeWeight: area.strokeWeight,
+                        fillColor: area.color,
+                        fillOpacity: area.fillOpacity,
+                    }}
+                />
+            ))}
+            {lines.map(line => (
+                <Polyline
+                    key={line.id}
+                    path={line.path}
+                    options={{
+                        strokeColor: line.color,
+                        strokeOpacity: line.dashed ? 0 : highContrast ? 1 : 0.8,
+                        strokeWeight: highContrast ? 6 : 3,
+                        geodesic: true,
+                        icons: [
+                            ...(line.dashed ? [{
+                                icon: { path: 'M 0,-1 0,1', strokeOpacity: highContrast ? 1 : 0.8, strokeColor: line.color, scale: highContrast ? 6 : 3 },
+                                offset: '0',
+                                repeat: '15px',
+                            }] : []),
+                            ...(line.arrow ? [{
+                                icon: { path: google.maps.SymbolPath.FORWARD_CLOSED_ARROW, scale: highContrast ? 5 : 3, strokeColor: line.color },
+                                offset: '50%',
+                            }] : []),
+                        ],
+                    }}
+                />
+            ))}
+            {markers.map(marker => (
+                <Marker
+                    key={marker.id}
+                    position={marker.position}
+                    icon={markerIcon(marker)}
+                    label={marker.label}
+                    title={marker.title}
+                    opacity={marker.opacity}
+                    clickable={!!marker.onClick}
+                    onClick={marker.onClick}
+                />
+            ))}
+            {heatmapData.length > 0 && (
+                <HeatmapLayerF data={heatmapData} options={{ radius: 30 }} />
+            )}
+        </GoogleMap>
+    );
+};
+
+export default GoogleMapView;
@@ -0,0 +1,93 @@
+import React from 'react';
+import { LoadScript } from '@react-google-maps/api';
+import { movementPanoramaOptions } from '../../game/movement';
+import { quota } from '../../quota/quotaManager';
+import { createGoogleLookup } from '../../streetview/lookup';
+import { MapLoaderProps, MapProvider, PanoramaView, PanoramaViewOptions } from '../types';
+import GoogleMapView from './GoogleMapView';
+
+// Define libraries array outside component
+const GOOGLE_MAPS_LIBRARIES: ("geometry" | "places" | "drawing" | "visualization")[] = ["geometry", "visualization"];
+
+const GoogleMapsLoader: React.FC<MapLoaderProps> = ({ onLoad, onError, children }) => (
+    <LoadScript
+        googleMapsApiKey={import.meta.env.VITE_GOOGLE_MAPS_API_KEY ?? ''}
+        libraries={GOOGLE_MAPS_LIBRARIES}
+        onLoad={onLoad}
+        onError={onError}
+    >
+        {children}
+    </LoadScript>
+);
+
+const createGooglePanorama = (container: HTMLElement, { pano, pov, movement, preview }: PanoramaViewOptions): PanoramaView => {
+    const panorama = new google.maps.StreetViewPanorama(container, {
+        pano,
+        pov,
+        visible: true,
+        addressControl: false,
+        showRoadLabels: preview,
+        fullscreenControl: false,
+        motionTracking: false,
+        motionTrackingControl: false,
+        enableCloseButton: false,
+        ...(movement ? movementPanoramaOptions(movement) : {}),
+    });
+    // Showing a panorama is billed separately from the metadata lookup.
+    // Walking around, or back to the start, doesn't load a new one.
+    let shown = pano;
+    quota.record('streetView');
+
+    return {
+        setPano: (next) => {
+            if (next !== shown) {
+                shown = next;
+                quota.record('streetView');
+            }
+            panorama.setPano(next);
+        },
+        getPano: () => panorama.getPano(),
+        setPov: (next) => panorama.setPov(next),
+        getPov: () => panorama.getPov(),
+        setMovement: (next) => panorama.setOptions(movementPanoramaOptions(next)),
+        onMove: (listener) => {
+            const handle = panorama.addListener('position_changed', () => {
+                const position = panorama.getPosition()?.toJSON();
+                if (position) {
+                    listener(position);
+                }
+            });
+            return () => handle.remove();
+        },
+        onError: (listener) => {
+            const handle = panorama.addListener('status_changed', () => {
+                if (panorama.getStatus() !== google.maps.StreetViewStatus.OK) {
+                    listener(panorama.getPano());
+                }
+            });
+            return () => handle.remove();
+        },
+    };
+};
+
+let geocoder: google.maps.Geocoder | null = null;
+
+export const googleProvider: MapProvider = {
+    id: 'google',
+    Loader: GoogleMapsLoader,
+    createLookup: (filter) => createGoogleLookup(filter),
+    createPanorama: createGooglePanorama,
+    streetName: async (position) => {
+        if (!geocoder) {
+            geocoder = new google.maps.Geocoder();
+        }
+        const result = await geocoder.geocode({ location: position });
+        const address = result.results[0];
+        return address?.address_components.find(component => component.types.includes('route'))?.short_name
+            // Fall back to the first line of the address, minus the house number
+            ?? address?.formatted_address.split(',')[0].replace(/^\d+\S*\s+/, '')
+            ?? null;
+    },
+    distance: (from, to) => google.maps.geometry.spherical.computeDistanceBetween(from, to),
+    MapView: GoogleMapView,
+};
@@ -0,0 +1,12 @@
+import { googleProvider } from './google/googleProvider';
+import { offlineProvider } from './offline/offlineProvider';
+import { MapProvider } from './types';
+
+// Without an API key the game falls back to demo mode. Setting
+// VITE_MAP_PROVIDER=offline forces it, e.g. to work on the game without
+// spending quota.
+const useOffline = !import.meta.env.VITE_GOOGLE_MAPS_API_KEY || import.meta.env.VITE_MAP_PROVIDER === 'offline';
+
+export const mapProvider: MapProvider = useOffline ? offlineProvider : googleProvider;
+
+export const isDemoMode = mapProvider.id === 'offline';
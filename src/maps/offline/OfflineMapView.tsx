@@ -0,0 +1,348 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { CALGARY_AREA, CALGARY_COMMUNITIES, CALGARY_LANDMARKS, CALGARY_RIVERS } from '../../data/calgary';
+import { geometryPaths } from '../../geo/polygon';
+import { Bounds, LatLng, boundsOf } from '../../geo/types';
+import { MapMarker, MapViewProps } from '../types';
+
+// A drawn map of Calgary in SVG, with no tiles to fetch: the city limits,
+// rivers, the reservoir, large parks, the airport, community outlines and
+// C-Train stations. Drag to pan, scroll or use the buttons to zoom.
+
+// Longitude is scaled by cos(latitude) so the city isn't stretched sideways
+const LNG_SCALE = Math.cos((51.05 * Math.PI) / 180);
+
+// Projected coordinates: x grows east, y grows south
+interface Point2 {
+    x: number;
+    y: number;
+}
+
+interface ViewBox extends Point2 {
+    width: number;
+    height: number;
+}
+
+const project = ({ lat, lng }: LatLng): Point2 => ({ x: lng * LNG_SCALE, y: -lat });
+
+const unproject = ({ x, y }: Point2): LatLng => ({ lat: -y, lng: x / LNG_SCALE });
+
+const viewOf = (bounds: Bounds): ViewBox => ({
+    x: bounds.west * LNG_SCALE,
+    y: -bounds.north,
+    width: (bounds.east - bounds.west) * LNG_SCALE,
+    height: bounds.north - bounds.south,
+});
+
+const pathData = (paths: LatLng[][]): string =>
+    paths.map(path => path.map(project).map(({ x, y }, i) => `${i === 0 ? 'M' : 'L'}${x} ${y}`).join(' ') + ' Z').join(' ');
+
+const linePoints = (path: LatLng[]): string =>
+    path.map(project).map(({ x, y }) => `${x},${y}`).join(' ');
+
+// Smallest area a single-point focus or a zoom-in may show, in degrees
+const MIN_SPAN = 0.01;
+// Furthest out the map zooms, as a multiple of the restriction or first view
+const MAX_ZOOM_OUT = 2;
+const CLICK_TOLERANCE = 4;
+
+const MARKER_COLORS: Record<Exclude<MapMarker['kind'], 'cursor' | undefined>, string> = {
+    answer: '#DC2626',
+    guess: '#2563EB',
+};
+
+const EXCLUSION_FILLS: Record<string, string> = {
+    water: '#93C5FD',
+    park: '#BBF7D0',
+    airport: '#D6D3D1',
+};
+
+// Roughly how many degrees of longitude a Google Maps zoom level shows across a
+// typical window, used to honour the difficulty's zoom limit
+const spanAtZoom = (zoom: number): number => (360 / 2 ** zoom) * 4;
+
+// Keeps the centre inside the limit and the zoom within range
+const constrain = (next: ViewBox, limit: ViewBox, minSpan: number = MIN_SPAN): ViewBox => {
+    const width = Math.min(Math.max(next.width, minSpan * LNG_SCALE), limit.width * MAX_ZOOM_OUT);
+    const height = width * (next.height / next.width);
+    const centerX = Math.min(Math.max(next.x + next.width / 2, limit.x), limit.x + limit.width);
+    const centerY = Math.min(Math.max(next.y + next.height / 2, limit.y), limit.y + limit.height);
+    return { x: centerX - width / 2, y: centerY - height / 2, width, height };
+};
+
+const boundary = geometryPaths(CALGARY_AREA.boundary);
+const exclusions = (CALGARY_AREA.exclusions?.features ?? []).map(feature => ({
+    id: feature.properties.name,
+    d: pathData(geometryPaths(feature.geometry)),
+    fill: EXCLUSION_FILLS[feature.properties.kind],
+}));
+const communities = CALGARY_COMMUNITIES.features.map(feature => ({
+    id: feature.properties.name,
+    d: pathData(geometryPaths(feature.geometry)),
+}));
+const rivers = CALGARY_RIVERS.features.map(feature => ({
+    id: feature.properties.name,
+    points: linePoints(feature.geometry.coordinates.map(([lng, lat]) => ({ lat, lng }))),
+}));
+const stations = CALGARY_LANDMARKS.features.map(feature => ({
+    id: String(feature.id),
+    name: feature.properties.name,
+    ...project({ lat: feature.geometry.coordinates[1], lng: feature.geometry.coordinates[0] }),
+}));
+
+const OfflineMapView: React.FC<MapViewProps> = ({
+    bounds,
+    restriction,
+    focus,
+    markers = [],
+    lines = [],
+    areas = [],
+    heatmap,
+    onClick,
+    crosshair,
+    highContrast,
+    appearance,
+    height,
+}) => {
+    const svgRef = useRef<SVGSVGElement | null>(null);
+    const [view, setView] = useState<ViewBox>(() => viewOf(bounds));
+    const [size, setSize] = useState<{ width: number; height: number }>({ width: 1, height: 1 });
+    const dragRef = useRef<{ x: number; y: number; view: ViewBox; moved: boolean } | null>(null);
+    const limit = useMemo(() => viewOf(restriction ?? bounds), [restriction, bounds]);
+    // The drawn map has no imagery or street names, so the difficulty only
+    // caps the zoom and hides the stations
+    const minSpan = appearance ? Math.max(MIN_SPAN, spanAtZoom(appearance.maxZoom)) : MIN_SPAN;
+
+    useLayoutEffect(() => {
+        const svg = svgRef.current;
+        if (!svg) {
+            return;
+        }
+        const observer = new ResizeObserver(() => setSize({ width: svg.clientWidth || 1, height: svg.clientHeight || 1 }));
+        observer.observe(svg);
+        return () => observer.disconnect();
+    }, []);
+
+    useEffect(() => {
+        if (!focus || focus.length === 0) {
+            return;
+        }
+        if (focus.length === 1) {
+            const { x, y } = project(focus[0]);
+            setView(prev => ({ ...prev, x: x - prev.width / 2, y: y - prev.height / 2 }));
+            return;
+        }
+        const framed = viewOf(boundsOf(focus));
+        // Leave a margin around the points
+        const margin = Math.max(framed.width, framed.height, MIN_SPAN) * 0.2;
+        setView(constrain({
+            x: framed.x - margin,
+            y: framed.y - margin,
+            width: framed.width + margin * 2,
+            height: framed.height + margin * 2,
+        }, limit, minSpan));
+    }, [focus, limit, minSpan]);
+
+    // Map units per screen pixel, allowing for the letterboxing of the view box
+    const unitsPerPixel = Math.max(view.width / size.width, view.height / size.height);
+    const px = (pixels: number): number => pixels * unitsPerPixel;
+
+    const toMap = (clientX: number, clientY: number): Point2 | null => {
+        const matrix = svgRef.current?.getScreenCTM();
+        if (!svgRef.current || !matrix) {
+            return null;
+        }
+        const point = svgRef.current.createSVGPoint();
+        point.x = clientX;
+        point.y = clientY;
+        const { x, y } = point.matrixTransform(matrix.inverse());
+        return { x, y };
+    };
+
+    const zoom = (factor: number, around?: Point2) => {
+        setView(prev => {
+            const anchor = around ?? { x: prev.x + prev.width / 2, y: prev.y + prev.height / 2 };
+            return constrain({
+                x: anchor.x - (anchor.x - prev.x) * factor,
+                y: anchor.y - (anchor.y - prev.y) * factor,
+                width: prev.width * factor,
+                height: prev.height * factor,
+            }, limit, minSpan);
+        });
+    };
+
+    const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+        dragRef.current = { x: e.clientX, y: e.clientY, view, moved: false };
+        e.currentTarget.setPointerCapture(e.pointerId);
+    };
+
+    const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+        const drag = dragRef.current;
+        if (!drag) {
+            return;
+        }
+        const dx = e.clientX - drag.x;
+        const dy = e.clientY - drag.y;
+        if (!drag.moved && Math.hypot(dx, dy) < CLICK_TOLERANCE) {
+            return;
+        }
+        drag.moved = true;
+        setView(constrain({ ...drag.view, x: drag.view.x - px(dx), y: drag.view.y - px(dy) }, limit, minSpan));
+    };
+
+    const handlePointerUp = (e: React.PointerEvent<SVGSVGElement>) => {
+        const drag = dragRef.current;
+        dragRef.current = null;
+        if (!drag || drag.moved || !onClick) {
+            return;
+        }
+        const point = toMap(e.clientX, e.clientY);
+        if (point) {
+            onClick(unproject(point));
+        }
+    };
+
+    // React's onWheel is passive, so preventDefault needs a native listener
+    useEffect(() => {
+        const svg = svgRef.current;
+        if (!svg) {
+            return;
+        }
+        const handleWheel = (e: WheelEvent) => {
+            e.preventDefault();
+            zoom(e.deltaY > 0 ? 1.25 : 0.8, toMap(e.clientX, e.clientY) ?? undefined);
+        };
+        svg.addEventListener('wheel', handleWheel, { passive: false });
+        return () => svg.removeEventListener('wheel', handleWheel);
+    });
+
+    const maxHeat = Math.max(1, ...(heatmap ?? []).map(point => point.weight));
+
+    return (
+        <div style={{ position: 'relative', width: '100%', height }}>
+            <svg
+                ref={svgRef}
+                viewBox={`${view.x} ${view.y} ${view.width} ${view.height}`}
+                style={{ width: '100%', height: '100%', background: '#E7E5E4', cursor: crosshair ? 'crosshair' : 'grab', touchAction: 'none' }}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={() => { dragRef.current = null; }}
+            >
+                <defs>
+                    <radialGradient id="offline-heat">
+                        <stop offset="0" stopColor="#DC2626" stopOpacity="0.8" />
+                        <stop offset="1" stopColor="#DC2626" stopOpacity="0" />
+                    </radialGradient>
+                </defs>
+
+                <path d={pathData(boundary)} fill="#FAFAF9" stroke="#A8A29E" strokeWidth={px(2)} />
+                {communities.map(community => (
+                    <path key={community.id} d={community.d} fill="none" stroke="#D6D3D1" strokeWidth={px(1)} />
+                ))}
+                {exclusions.map(exclusion => (
+                    <path key={exclusion.id} d={exclusion.d} fill={exclusion.fill} stroke="none" />
+                ))}
+                {rivers.map(river => (
+                    <polyline key={river.id} points={river.points} fill="none" stroke="#60A5FA" strokeWidth={px(3)} strokeLinejoin="round" />
+                ))}
+                {(appearance?.poiLabels ?? true) && stations.map(station => (
+                    <circle key={station.id} cx={station.x} cy={station.y} r={px(2.5)} fill="#78716C">
+                        <title>{station.name}</title>
+                    </circle>
+                ))}
+
+                {areas.map(area => (
+                    <path
+                        key={area.id}
+                        d={pathData(area.paths)}
+                        fill={area.color}
+                        fillOpacity={area.fillOpacity}
+                        stroke={area.color}
+                        strokeWidth={px(area.strokeWeight)}
+                        pointerEvents="none"
+                    />
+                ))}
+                {(heatmap ?? []).map((point, index) => {
+                    const { x, y } = project(point.location);
+                    return (
+                        <circle key={index} cx={x} cy={y} r={px(30)} fill="url(#offline-heat)" opacity={point.weight / maxHeat} pointerEvents="none" />
+                    );
+                })}
+                {lines.map(line => {
+                    const points = line.path.map(project);
+                    const mid = points.length >= 2 ? {
+                        x: (points[0].x + points[points.length - 1].x) / 2,
+                        y: (points[0].y + points[points.length - 1].y) / 2,
+                        angle: Math.atan2(points[points.length - 1].y - points[0].y, points[points.length - 1].x - points[0].x) * 180 / Math.PI,
+                    } : null;
+                    return (
+                        <g key={line.id} pointerEvents="none">
+                            <polyline
+                                points={points.map(({ x, y }) => `${x},${y}`).join(' ')}
+                                fill="none"
+                                stroke={line.color}
+                                strokeOpacity={highContrast ? 1 : 0.8}
+                                strokeWidth={px(highContrast ? 6 : 3)}
+                                strokeDasharray={line.dashed ? `${px(8)} ${px(6)}` : undefined}
+                            />
+                            {line.arrow && mid && (
+                                <polygon
+                                    points={highContrast
+                                        ? `${px(12)},0 ${px(-8)},${px(8)} ${px(-8)},${px(-8)}`
+                                        : `${px(7)},0 ${px(-5)},${px(5)} ${px(-5)},${px(-5)}`}
+                                    transform={`translate(${mid.x} ${mid.y}) rotate(${mid.angle})`}
+                                    fill={line.color}
+                                />
+                            )}
+                        </g>
+                    );
+                })}
+                {markers.map(marker => {
+                    const { x, y } = project(marker.position);
+                    if (marker.kind === 'cursor') {
+                        return (
+                            <path
+                                key={marker.id}
+                                d={`M${x - px(12)} ${y} h${px(8)} m${px(8)} 0 h${px(8)} M${x} ${y - px(12)} v${px(8)} m0 ${px(8)} v${px(8)}`}
+                                stroke="#111827"
+                                strokeWidth={px(3)}
+                                pointerEvents="none"
+                            />
+                        );
+                    }
+                    const color = marker.kind ? MARKER_COLORS[marker.kind] : marker.color ?? '#57534E';
+                    return (
+                        <g
+                            key={marker.id}
+                            opacity={marker.opacity}
+                            onPointerUp={(e) => {
+                                if (marker.onClick && !dragRef.current?.moved) {
+                                    e.stopPropagation();
+                                    dragRef.current = null;
+                                    marker.onClick();
+                                }
+                            }}
+                            style={{ cursor: marker.onClick ? 'pointer' : undefined }}
+                        >
+                            {marker.title && <title>{marker.title}</title>}
+                            <circle cx={x} cy={y} r={px(marker.label ? 10 : 8)} fill={color} stroke="#FFFFFF" strokeWidth={px(2)} />
+                            {marker.label && (
+                                <text x={x} y={y} dy={px(4)} fontSize={px(11)} textAnchor="middle" fill="#FFFFFF" fontWeight="bold" pointerEvents="none">
+                                    {marker.label}
+                                </text>
+                            )}
+                        </g>
+                    );
+                })}
+            </svg>
+
+            <div className="absolute right-2 bottom-6 flex flex-col gap-1">
+                <button onClick={() => zoom(0.8)} className="bg-white w-8 h-8 rounded shadow text-lg" aria-label="Zoom in">+</button>
+                <button onClick={() => zoom(1.25)} className="bg-white w-8 h-8 rounded shadow text-lg" aria-label="Zoom out">−</button>
+            </div>
+            <p className="absolute left-2 bottom-1 text-xs text-gray-500 pointer-events-none">Demo map &middot; Calgary</p>
+        </div>
+    );
+};
+
+export default OfflineMapView;
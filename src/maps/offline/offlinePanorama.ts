@@ -0,0 +1,114 @@
+import { MovementMode } from '../../game/movement';
+import { PanoramaPov, PanoramaView, PanoramaViewOptions } from '../types';
+
+// Shows a static equirectangular image as a panorama: dragging turns the
+// view, and the image repeats so turning past north wraps around. There are
+// no links between panoramas, so Moving only adds zooming.
+
+const DEFAULT_FOV = 100;
+const MIN_FOV = 40;
+const MAX_FOV = 100;
+const MAX_PITCH = 30;
+
+const wrapHeading = (heading: number): number => ((heading % 360) + 360) % 360;
+
+const clamp = (value: number, min: number, max: number): number => Math.min(max, Math.max(min, value));
+
+export const createOfflinePanorama = (
+    container: HTMLElement,
+    images: Record<string, string>,
+    { pano, pov, movement = 'moving' }: PanoramaViewOptions
+): PanoramaView => {
+    let current = pano;
+    let heading = wrapHeading(pov.heading);
+    let pitch = clamp(pov.pitch, -MAX_PITCH, MAX_PITCH);
+    let fov = DEFAULT_FOV;
+    let mode: MovementMode = movement;
+    const errorListeners = new Set<(pano: string) => void>();
+
+    const view = document.createElement('div');
+    view.style.cssText = 'position:absolute;inset:0;background-repeat:repeat-x;background-color:#1f2937;cursor:grab;touch-action:none;user-select:none';
+    container.replaceChildren(view);
+
+    const render = () => {
+        const width = view.clientWidth || 1;
+        const height = view.clientHeight || 1;
+        // Scale the image so `fov` degrees span the container
+        const imageWidth = (width * 360) / fov;
+        const imageHeight = imageWidth / 2;
+        const x = width / 2 - (heading / 360) * imageWidth;
+        const center = clamp(0.5 - pitch / 180, height / 2 / imageHeight, 1 - height / 2 / imageHeight);
+        const y = height / 2 - center * imageHeight;
+        view.style.backgroundSize = `${imageWidth}px ${imageHeight}px`;
+        view.style.backgroundPosition = `${x}px ${y}px`;
+    };
+
+    const show = (next: string) => {
+        current = next;
+        const image = images[next];
+        if (!image) {
+            view.style.backgroundImage = 'none';
+            // Report asynchronously, like the Street View status event
+            setTimeout(() => errorListeners.forEach(listener => listener(next)));
+            return;
+        }
+        view.style.backgroundImage = `url("${image}")`;
+        render();
+    };
+
+    let drag: { x: number; y: number; heading: number; pitch: number } | null = null;
+    view.addEventListener('pointerdown', (e) => {
+        drag = { x: e.clientX, y: e.clientY, heading, pitch };
+        view.setPointerCapture(e.pointerId);
+        view.style.cursor = 'grabbing';
+    });
+    view.addEventListener('pointermove', (e) => {
+        if (!drag) {
+            return;
+        }
+        const degreesPerPixel = fov / (view.clientWidth || 1);
+        heading = wrapHeading(drag.heading - (e.clientX - drag.x) * degreesPerPixel);
+        pitch = clamp(drag.pitch + (e.clientY - drag.y) * degreesPerPixel, -MAX_PITCH, MAX_PITCH);
+        render();
+    });
+    const endDrag = () => {
+        drag = null;
+        view.style.cursor = 'grab';
+    };
+    view.addEventListener('pointerup', endDrag);
+    view.addEventListener('pointercancel', endDrag);
+    view.addEventListener('wheel', (e) => {
+        if (mode !== 'moving') {
+            return;
+        }
+        e.preventDefault();
+        fov = clamp(fov + Math.sign(e.deltaY) * 10, MIN_FOV, MAX_FOV);
+        render();
+    }, { passive: false });
+    new ResizeObserver(render).observe(view);
+
+    show(pano);
+
+    return {
+        setPano: show,
+        getPano: () => current,
+        setPov: (next: PanoramaPov) => {
+            heading = wrapHeading(next.heading);
+            pitch = clamp(next.pitch, -MAX_PITCH, MAX_PITCH);
+            render();
+        },
+        getPov: () => ({ heading, pitch }),
+        setMovement: (next) => {
+            mode = next;
+            // Zoom back out in case the previous round allowed zooming
+            fov = DEFAULT_FOV;
+            render();
+        },
+        // Static images have nowhere to walk to
+        onMove: () => () => undefined,
+        onError: (listener) => {
+            errorListeners.add(listener);
+            return () => errorListeners.delete(listener);
+        },
+    };
+};
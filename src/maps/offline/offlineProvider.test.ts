@@ -0,0 +1,110 @@
+// @vitest-environment jsdom
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest';
+import { DEMO_PANORAMAS } from '../../data/demo';
+import { addRound, createSession } from '../../game/session';
+import { DEFAULT_GAME_SETTINGS } from '../../game/settings';
+import { initialRoundFlow, roundFlowReducer } from '../../game/roundFlow';
+import { scoreRound } from '../../game/scoring';
+import { createSeededRandom } from '../../game/random';
+import { boundsDiagonal } from '../../geo/distance';
+import { DEFAULT_REGION } from '../../regions';
+import { createPinLocationSource } from '../../streetview/locationSource';
+import { offlineProvider } from './offlineProvider';
+
+// Plays a round of demo mode the way the game does, with no network: deal a
+// bundled panorama, show it, look around, guess and score
+
+beforeAll(() => {
+    vi.stubGlobal('fetch', () => Promise.reject(new Error('No network in demo mode')));
+    // Not part of jsdom
+    vi.stubGlobal('ResizeObserver', class {
+        observe() {
+            return undefined;
+        }
+        disconnect() {
+            return undefined;
+        }
+    });
+    HTMLElement.prototype.setPointerCapture = () => undefined;
+});
+
+afterEach(() => {
+    document.body.replaceChildren();
+});
+
+afterAll(() => {
+    vi.unstubAllGlobals();
+});
+
+const pointer = (type: string, clientX: number, clientY = 0) =>
+    new MouseEvent(type, { clientX, clientY, bubbles: true });
+
+describe('offline provider', () => {
+    it('plays a round without the network', async () => {
+        const source = createPinLocationSource(offlineProvider.fixedLocations ?? [], createSeededRandom('demo'));
+        const location = await source.next();
+        expect(DEMO_PANORAMAS.map(demo => demo.pano)).toContain(location.pano);
+
+        // Finding the panorama again from its position, as the location pool does
+        const lookup = offlineProvider.createLookup();
+        expect(await lookup({ location: location.position, radius: 50 })).toEqual(location);
+
+        const container = document.createElement('div');
+        document.body.append(container);
+        const panorama = offlineProvider.createPanorama(container, { pano: location.pano, pov: { heading: 0, pitch: 0 } });
+        const view = container.firstElementChild as HTMLElement;
+        expect(view.style.backgroundImage).toContain('.svg');
+
+        // Dragging left turns the view right
+        view.dispatchEvent(pointer('pointerdown', 100));
+        view.dispatchEvent(pointer('pointermove', 50));
+        view.dispatchEvent(pointer('pointerup', 50));
+        expect(panorama.getPov().heading).toBeGreaterThan(0);
+
+        let flow = roundFlowReducer(initialRoundFlow, { type: 'start', timers: DEFAULT_GAME_SETTINGS.timers });
+        flow = roundFlowReducer(flow, { type: 'loaded' });
+        flow = roundFlowReducer(flow, { type: 'tick', elapsed: 4000 });
+        flow = roundFlowReducer(flow, { type: 'guess' });
+
+        const guess = { lat: location.position.lat + 0.01, lng: location.position.lng };
+        const distance = offlineProvider.distance(guess, location.position);
+        const { total } = scoreRound({
+            distance,
+            timeTaken: flow.roundElapsed,
+            hints: [],
+            regionDiagonal: boundsDiagonal(DEFAULT_REGION.bounds),
+            movement: DEFAULT_GAME_SETTINGS.movement,
+            difficulty: DEFAULT_GAME_SETTINGS.difficulty.preset,
+        });
+        flow = roundFlowReducer(flow, { type: 'reveal' });
+        expect(flow.phase).toBe('revealed');
+
+        const session = addRound(createSession(DEFAULT_REGION, DEFAULT_GAME_SETTINGS), {
+            pano: location.pano,
+            actual: location.position,
+            guess,
+            distance,
+            points: total,
+            timeTaken: flow.roundElapsed,
+            hintUsed: false,
+        });
+        expect(session.rounds[0].distance).toBeCloseTo(1112, -1);
+        expect(session.rounds[0].points).toBeGreaterThan(3000);
+    });
+
+    it('names the street near a demo panorama', async () => {
+        const [demo] = DEMO_PANORAMAS;
+        expect(await offlineProvider.streetName(demo.position)).toBe(demo.street);
+        expect(await offlineProvider.streetName({ lat: 0, lng: 0 })).toBeNull();
+    });
+
+    it('reports panoramas it has no image for', async () => {
+        const container = document.createElement('div');
+        const panorama = offlineProvider.createPanorama(container, { pano: DEMO_PANORAMAS[0].pano, pov: { heading: 0, pitch: 0 } });
+        const errors: string[] = [];
+        panorama.onError(pano => errors.push(pano));
+        panorama.setPano('expired-pano');
+        await new Promise(resolve => setTimeout(resolve));
+        expect(errors).toEqual(['expired-pano']);
+    });
+});
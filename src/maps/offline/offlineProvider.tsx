@@ -0,0 +1,46 @@
+import React, { useEffect } from 'react';
+import { DEMO_PANORAMAS, DemoPanorama } from '../../data/demo';
+import { haversineDistance } from '../../geo/distance';
+import { LatLng } from '../../geo/types';
+import { MapLoaderProps, MapProvider } from '../types';
+import OfflineMapView from './OfflineMapView';
+import { createOfflinePanorama } from './offlinePanorama';
+
+// Furthest a position can be from a demo panorama and still take its street name
+const STREET_RADIUS = 250;
+
+const images = Object.fromEntries(DEMO_PANORAMAS.map(demo => [demo.pano, demo.image]));
+
+const nearest = (position: LatLng, radius: number): DemoPanorama | null => {
+    let best: DemoPanorama | null = null;
+    let bestDistance = radius;
+    for (const demo of DEMO_PANORAMAS) {
+        const distance = haversineDistance(position, demo.position);
+        if (distance <= bestDistance) {
+            best = demo;
+            bestDistance = distance;
+        }
+    }
+    return best;
+};
+
+// Everything is bundled, so there's nothing to wait for
+const OfflineLoader: React.FC<MapLoaderProps> = ({ onLoad, children }) => {
+    useEffect(() => onLoad(), []);
+    return <>{children}</>;
+};
+
+export const offlineProvider: MapProvider = {
+    id: 'offline',
+    Loader: OfflineLoader,
+    // The panorama filter doesn't apply: every demo image is an outdoor scene
+    createLookup: () => async ({ location, radius }) => {
+        const demo = nearest(location, radius);
+        return demo ? { pano: demo.pano, position: demo.position } : null;
+    },
+    createPanorama: (container, options) => createOfflinePanorama(container, images, options),
+    streetName: async (position) => nearest(position, STREET_RADIUS)?.street ?? null,
+    distance: haversineDistance,
+    MapView: OfflineMapView,
+    fixedLocations: DEMO_PANORAMAS.map(({ pano, position }) => ({ pano, position })),
+};
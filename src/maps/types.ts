@@ -0,0 +1,130 @@
+import React from 'react';
+import { Bounds, LatLng } from '../geo/types';
+import { MovementMode } from '../game/movement';
+import { PanoramaLookup, PanoramaResult } from '../streetview/lookup';
+import { PanoramaFilter } from '../streetview/panoramaFilter';
+
+// Everything the game needs from a map provider. The Google provider wraps
+// the Maps JavaScript API; the offline one plays a few bundled panoramas on
+// a drawn map of Calgary so the game runs without an API key or network.
+
+export type MapProviderId = 'google' | 'offline';
+
+// Same shape as google.maps.StreetViewPov
+export interface PanoramaPov {
+    heading: number;
+    pitch: number;
+}
+
+export interface PanoramaViewOptions {
+    pano: string;
+    pov: PanoramaPov;
+    movement?: MovementMode;
+    // Small previews, e.g. in the location set editor, hide the extra controls
+    preview?: boolean;
+}
+
+// A panorama shown in a container element
+export interface PanoramaView {
+    setPano: (pano: string) => void;
+    getPano: () => string;
+    setPov: (pov: PanoramaPov) => void;
+    getPov: () => PanoramaPov;
+    setMovement: (movement: MovementMode) => void;
+    // Called with the new position when the player walks to another panorama
+    onMove: (listener: (position: LatLng) => void) => () => void;
+    // Called when a panorama can't be shown, e.g. an expired id
+    onError: (listener: (pano: string) => void) => () => void;
+}
+
+// 'answer' and 'guess' are the red and blue pins, 'cursor' is the crosshair
+// moved with the keyboard; a colour draws a dot in that colour
+export interface MapMarker {
+    id: string;
+    position: LatLng;
+    kind?: 'answer' | 'guess' | 'cursor';
+    color?: string;
+    label?: string;
+    title?: string;
+    opacity?: number;
+    onClick?: () => void;
+}
+
+export interface MapLine {
+    id: string;
+    path: LatLng[];
+    color: string;
+    dashed?: boolean;
+    // Arrowhead halfway along, pointing towards the end of the path
+    arrow?: boolean;
+}
+
+export interface MapArea {
+    id: string;
+    paths: LatLng[][];
+    color: string;
+    fillOpacity: number;
+    strokeWeight: number;
+}
+
+export interface HeatPoint {
+    location: LatLng;
+    weight: number;
+}
+
+// How much help the guess map gives, set by the game's difficulty
+export interface MapAppearance {
+    satellite: boolean;
+    roadLabels: boolean;
+    // Business, park and transit names
+    poiLabels: boolean;
+    // Google Maps zoom levels
+    minZoom: number;
+    maxZoom: number;
+    // Stop panning beyond the restriction altogether
+    strictBounds: boolean;
+}
+
+export interface MapViewProps {
+    // Area shown when the map first appears
+    bounds: Bounds;
+    // Panning is kept close to this area
+    restriction?: Bounds;
+    // Points to bring into view, e.g. the answer and the guesses once a round
+    // is revealed. Re-framed whenever this changes.
+    focus?: LatLng[] | null;
+    markers?: MapMarker[];
+    lines?: MapLine[];
+    areas?: MapArea[];
+    heatmap?: HeatPoint[];
+    onClick?: (position: LatLng) => void;
+    crosshair?: boolean;
+    // Opaque, thicker lines
+    highContrast?: boolean;
+    // Jump to the focus rather than panning
+    reducedMotion?: boolean;
+    appearance?: MapAppearance;
+    height: string;
+}
+
+export interface MapLoaderProps {
+    onLoad: () => void;
+    onError: (error: Error) => void;
+    children: React.ReactNode;
+}
+
+export interface MapProvider {
+    id: MapProviderId;
+    // Wraps the app, loading any scripts the provider needs before onLoad
+    Loader: React.FC<MapLoaderProps>;
+    createLookup: (filter?: PanoramaFilter) => PanoramaLookup;
+    createPanorama: (container: HTMLElement, options: PanoramaViewOptions) => PanoramaView;
+    // Name of the street at a position, null when there isn't one
+    streetName: (position: LatLng) => Promise<string | null>;
+    // Metres between two points
+    distance: (from: LatLng, to: LatLng) => number;
+    MapView: React.FC<MapViewProps>;
+    // Set when the provider only knows a handful of panoramas: rounds are dealt
+    // from these rather than sampled
+    fixedLocations?: PanoramaResult[];
+}
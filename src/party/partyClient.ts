@@ -0,0 +1,69 @@
+import { PARTY_PATH, PartyClientMessage, PartyServerMessage } from './protocol';
+
+// Browser side of a party room connection. Messages sent before the socket
+// opens are queued rather than dropped.
+
+export type PartyEvent = PartyServerMessage | { type: 'disconnected' };
+
+export interface PartyClient {
+    send: (message: PartyClientMessage) => void;
+    // Returns an unsubscribe function
+    subscribe: (listener: (event: PartyEvent) => void) => () => void;
+    close: () => void;
+}
+
+// The party server shares the page's host (see server/partyServer.ts)
+export const partyUrl = (): string =>
+    `${window.location.protocol === 'https:' ? 'wss' : 'ws'}://${window.location.host}${PARTY_PATH}`;
+
+export const connectParty = (url: string = partyUrl()): PartyClient => {
+    const socket = new WebSocket(url);
+    const listeners = new Set<(event: PartyEvent) => void>();
+    const queue: string[] = [];
+    let closedByUs = false;
+
+    const emit = (event: PartyEvent) => listeners.forEach(listener => listener(event));
+
+    socket.addEventListener('open', () => {
+        queue.splice(0).forEach(data => socket.send(data));
+    });
+    socket.addEventListener('message', (event) => {
+        try {
+            emit(JSON.parse(event.data) as PartyServerMessage);
+        } catch (error) {
+            console.warn('Ignoring malformed party message:', error);
+        }
+    });
+    socket.addEventListener('close', () => {
+        if (!closedByUs) {
+            emit({ type: 'disconnected' });
+        }
+    });
+
+    const send = (message: PartyClientMessage) => {
+        const data = JSON.stringify(message);
+        if (socket.readyState === WebSocket.OPEN) {
+            socket.send(data);
+        } else if (socket.readyState === WebSocket.CONNECTING) {
+            queue.push(data);
+        }
+    };
+
+    const subscribe = (listener: (event: PartyEvent) => void) => {
+        listeners.add(listener);
+        return () => {
+            listeners.delete(listener);
+        };
+    };
+
+    const close = () => {
+        closedByUs = true;
+        if (socket.readyState === WebSocket.OPEN) {
+            socket.send(JSON.stringify({ type: 'leave' } satisfies PartyClientMessage));
+        }
+        socket.close();
+        listeners.clear();
+    };
+
+    return { send, subscribe, close };
+};
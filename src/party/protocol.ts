@@ -0,0 +1,85 @@
+import { Bounds, LatLng } from '../geo/types';
+import { GameSettings } from '../game/settings';
+import { TimerSettings } from '../game/roundFlow';
+import { StoredRegion } from '../regions';
+import { LocationTrivia, PanoramaResult } from '../streetview/lookup';
+
+// Messages between the party server (server/) and the browser, as JSON over
+// a WebSocket at PARTY_PATH. The host's browser finds each panorama and sends
+// it to the server; the server times the rounds and does all the scoring.
+
+export const PARTY_PATH = '/party';
+
+export const MIN_PARTY_PLAYERS = 2;
+export const MAX_PARTY_PLAYERS = 8;
+
+// Party rounds always end: without a guess timer players get this long
+export const PARTY_GUESS_TIME = 60;
+
+// Four letters, avoiding ones that are easy to misread
+export const ROOM_CODE_PATTERN = /^[A-HJ-NP-Z]{4}$/;
+
+export interface PartyPlayer {
+    id: string;
+    name: string;
+    color: string;
+    total: number;
+    connected: boolean;
+    // Battle royale rooms only
+    lives?: number;
+}
+
+export type PartyStage = 'lobby' | 'playing' | 'revealed' | 'finished';
+
+export interface PartyRoomState {
+    code: string;
+    hostId: string;
+    region: StoredRegion;
+    settings: GameSettings;
+    players: PartyPlayer[];
+    stage: PartyStage;
+    // Rounds started so far
+    round: number;
+    // Players who have locked in a guess this round
+    locked: string[];
+}
+
+export interface PartyRound {
+    // 0-based
+    index: number;
+    pano: string;
+    heading?: number;
+    // Milliseconds until the server reveals the round, relative to when the
+    // message was sent so clocks don't need to agree
+    timeLimit: number;
+}
+
+export interface PartyResult {
+    playerId: string;
+    guess: LatLng | null;
+    distance: number | null;
+    points: number;
+    timeTaken: number;
+}
+
+export type PartyClientMessage =
+    | { type: 'create'; name: string; region: StoredRegion; bounds: Bounds; settings: GameSettings }
+    | { type: 'join'; code: string; name: string }
+    // Host only: start the next round at this panorama
+    | { type: 'next'; location: PanoramaResult }
+    | { type: 'guess'; guess: LatLng }
+    | { type: 'leave' };
+
+export type PartyServerMessage =
+    | { type: 'welcome'; playerId: string; room: PartyRoomState }
+    | { type: 'room'; room: PartyRoomState }
+    | { type: 'round'; round: PartyRound }
+    // Trivia is only sent for location pack rounds
+    | { type: 'reveal'; index: number; actual: LatLng; results: PartyResult[]; trivia?: LocationTrivia }
+    | { type: 'error'; message: string };
+
+// Total time from the panorama appearing until the server reveals the round
+export const partyRoundLimit = (timers: TimerSettings): number =>
+    ((timers.viewTime ?? 0) + (timers.guessTime ?? PARTY_GUESS_TIME)) * 1000;
+
+export const normalizeRoomCode = (code: string): string => code.trim().toUpperCase();
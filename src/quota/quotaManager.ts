@@ -0,0 +1,135 @@
+import { loadJSON, saveJSON } from '../storage';
+
+// Client-side quotas for the billable Google Maps APIs, one token bucket per
+// API. Buckets are kept in localStorage so a refresh doesn't reset them, and
+// are re-read on every call so several open tabs share the same budget.
+
+export type QuotaApi = 'streetView' | 'geocoding' | 'mapLoad';
+
+export interface BucketLimit {
+    // Most requests that can be made in a burst
+    capacity: number;
+    // Tokens added back per minute
+    refillPerMinute: number;
+}
+
+export const QUOTA_LIMITS: Record<QuotaApi, BucketLimit> = {
+    // Metadata lookups while searching for locations, plus panorama loads
+    streetView: { capacity: 150, refillPerMinute: 60 },
+    geocoding: { capacity: 10, refillPerMinute: 4 },
+    mapLoad: { capacity: 30, refillPerMinute: 12 },
+};
+
+export const QUOTA_LABELS: Record<QuotaApi, string> = {
+    streetView: 'Street View',
+    geocoding: 'Geocoding',
+    mapLoad: 'Map',
+};
+
+interface BucketState {
+    tokens: number;
+    updatedAt: number;
+}
+
+type QuotaState = Partial<Record<QuotaApi, BucketState>>;
+
+export interface QuotaManager {
+    // Takes a token if one is available
+    tryConsume: (api: QuotaApi) => boolean;
+    // Waits for a token, then takes it
+    acquire: (api: QuotaApi) => Promise<void>;
+    // Waits until a token is available without taking it
+    whenAvailable: (api: QuotaApi) => Promise<void>;
+    // Counts a request that has already been made, even if the bucket is empty
+    record: (api: QuotaApi) => void;
+    // Milliseconds until a token is available, 0 if one is available now
+    waitTime: (api: QuotaApi) => number;
+    // Called whenever a bucket changes; returns an unsubscribe function
+    subscribe: (listener: () => void) => () => void;
+}
+
+export interface QuotaManagerOptions {
+    limits?: Record<QuotaApi, BucketLimit>;
+    storageKey?: string;
+    now?: () => number;
+}
+
+export const createQuotaManager = ({
+    limits = QUOTA_LIMITS,
+    storageKey = 'quota',
+    now = Date.now,
+}: QuotaManagerOptions = {}): QuotaManager => {
+    const listeners = new Set<() => void>();
+
+    // Current bucket with tokens refilled up to now
+    const read = (api: QuotaApi): BucketState => {
+        const { capacity, refillPerMinute } = limits[api];
+        const stored = loadJSON<QuotaState>(storageKey, {})[api];
+        const time = now();
+        if (!stored) {
+            return { tokens: capacity, updatedAt: time };
+        }
+        const refilled = ((time - stored.updatedAt) / 60000) * refillPerMinute;
+        return { tokens: Math.min(capacity, stored.tokens + Math.max(0, refilled)), updatedAt: time };
+    };
+
+    const write = (api: QuotaApi, bucket: BucketState) => {
+        saveJSON(storageKey, { ...loadJSON<QuotaState>(storageKey, {}), [api]: bucket });
+        listeners.forEach(listener => listener());
+    };
+
+    const waitTime = (api: QuotaApi): number => {
+        const { tokens } = read(api);
+        return tokens >= 1 ? 0 : Math.ceil(((1 - tokens) / limits[api].refillPerMinute) * 60000);
+    };
+
+    const tryConsume = (api: QuotaApi): boolean => {
+        const bucket = read(api);
+        if (bucket.tokens < 1) {
+            return false;
+        }
+        write(api, { ...bucket, tokens: bucket.tokens - 1 });
+        return true;
+    };
+
+    const sleep = (ms: number) => new Promise(resolve => window.setTimeout(resolve, ms));
+
+    const whenAvailable = async (api: QuotaApi): Promise<void> => {
+        for (let wait = waitTime(api); wait > 0; wait = waitTime(api)) {
+            await sleep(wait);
+        }
+    };
+
+    const acquire = async (api: QuotaApi): Promise<void> => {
+        while (!tryConsume(api)) {
+            await sleep(waitTime(api));
+        }
+    };
+
+    const record = (api: QuotaApi) => {
+        const bucket = read(api);
+        write(api, { ...bucket, tokens: Math.max(0, bucket.tokens - 1) });
+    };
+
+    const subscribe = (listener: () => void) => {
+        listeners.add(listener);
+        return () => {
+            listeners.delete(listener);
+        };
+    };
+
+    return { tryConsume, acquire, whenAvailable, record, waitTime, subscribe };
+};
+
+export const QUOTA_APIS = Object.keys(QUOTA_LIMITS) as QuotaApi[];
+
+export const quotaWaits = (manager: QuotaManager): Record<QuotaApi, number> =>
+    Object.fromEntries(QUOTA_APIS.map(api => [api, manager.waitTime(api)])) as Record<QuotaApi, number>;
+
+export const formatWait = (ms: number): string => {
+    const seconds = Math.ceil(ms / 1000);
+    return seconds < 60 ? `${seconds} s` : `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+// Shared by everything that talks to Google
+export const quota = createQuotaManager();
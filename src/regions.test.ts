@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { REGIONS, StoredRegion, deserializeRegion, serializeRegion } from './regions';
+
+describe('deserializeRegion', () => {
+    it('restores built-in regions by id', () => {
+        expect(deserializeRegion(serializeRegion(REGIONS.edmonton))).toBe(REGIONS.edmonton);
+    });
+
+    it('rejects unknown and inherited ids', () => {
+        ['toString', 'constructor', '__proto__', 'winnipeg'].forEach((id) => {
+            expect(deserializeRegion({ id } as unknown as StoredRegion)).toBeNull();
+        });
+    });
+});
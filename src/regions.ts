@@ -0,0 +1,245 @@
+import { Bounds, LatLng, boundsCenter, boundsOf, padBounds } from './geo/types';
+import { RandomSource, Sampler, SamplingArea, createSampler, uniformInBounds } from './geo/sampling';
+import { CALGARY_AREA, CALGARY_COMMUNITIES, CALGARY_LANDMARKS } from './data/calgary';
+import { FeatureCollection, Point } from './geo/geojson';
+import { CommunityProperties } from './game/communities';
+import { LandmarkProperties } from './game/landmarks';
+import { LocationSet, isLocationSet } from './game/locationSets';
+import { geometryBounds } from './geo/polygon';
+import { loadJSON, saveJSON } from './storage';
+
+export type RegionId = 'calgary' | 'edmonton' | 'vancouver' | 'custom';
+
+export type Quadrant = 'northeast' | 'northwest' | 'southeast' | 'southwest';
+
+export interface RegionHints {
+    // Human readable name for each quadrant of the region
+    quadrants: Record<Quadrant, string>;
+    // Shown when only the quadrant is known. `{quadrant}` is substituted.
+    areaTemplate: string;
+    // Shown when a street address is available. `{street}` and `{quadrant}` are substituted.
+    streetTemplate: string;
+}
+
+export interface Region {
+    id: RegionId;
+    name: string;
+    // Area round locations are generated in
+    bounds: Bounds;
+    // Area the guess map is allowed to pan within
+    restriction: Bounds;
+    defaultZoom: number;
+    hints: RegionHints;
+    // City limits to sample from. Regions without one sample uniformly within `bounds`.
+    area?: SamplingArea;
+    // Neighbourhood boundaries for "Guess the community" games
+    communities?: FeatureCollection<CommunityProperties>;
+    // Stations and landmarks for the "nearest landmark" hint
+    landmarks?: FeatureCollection<LandmarkProperties, Point>;
+    // Custom regions built from a location set. Sets with pins play those
+    // pins rather than sampling.
+    locationSet?: LocationSet;
+}
+
+const COMPASS_QUADRANTS: Record<Quadrant, string> = {
+    northeast: 'Northeast',
+    northwest: 'Northwest',
+    southeast: 'Southeast',
+    southwest: 'Southwest',
+};
+
+// Calgary city boundaries (approximate)
+const CALGARY_BOUNDS: Bounds = {
+    north: 51.2,
+    south: 50.9,
+    west: -114.3,
+    east: -113.8,
+};
+
+const EDMONTON_BOUNDS: Bounds = {
+    north: 53.65,
+    south: 53.4,
+    west: -113.72,
+    east: -113.27,
+};
+
+const VANCOUVER_BOUNDS: Bounds = {
+    north: 49.317,
+    south: 49.198,
+    west: -123.225,
+    east: -123.023,
+};
+
+export const REGIONS: Record<Exclude<RegionId, 'custom'>, Region> = {
+    calgary: {
+        id: 'calgary',
+        name: 'Calgary',
+        bounds: CALGARY_BOUNDS,
+        restriction: padBounds(CALGARY_BOUNDS, 0.1),
+        defaultZoom: 11,
+        hints: {
+            quadrants: COMPASS_QUADRANTS,
+            areaTemplate: 'Location is in {quadrant} Calgary',
+            streetTemplate: 'Near {street} {quadrant}',
+        },
+        area: CALGARY_AREA,
+        communities: CALGARY_COMMUNITIES,
+        landmarks: CALGARY_LANDMARKS,
+    },
+    edmonton: {
+        id: 'edmonton',
+        name: 'Edmonton',
+        bounds: EDMONTON_BOUNDS,
+        restriction: padBounds(EDMONTON_BOUNDS, 0.1),
+        defaultZoom: 11,
+        hints: {
+            quadrants: COMPASS_QUADRANTS,
+            areaTemplate: 'Location is in {quadrant} Edmonton',
+            streetTemplate: 'Near {street} {quadrant}',
+        },
+    },
+    vancouver: {
+        id: 'vancouver',
+        name: 'Vancouver',
+        bounds: VANCOUVER_BOUNDS,
+        restriction: padBounds(VANCOUVER_BOUNDS, 0.05),
+        defaultZoom: 12,
+        hints: {
+            quadrants: {
+                northeast: 'East Vancouver',
+                northwest: 'Downtown and the West End',
+                southeast: 'South Vancouver',
+                southwest: 'the West Side',
+            },
+            areaTemplate: 'Location is in {quadrant}',
+            streetTemplate: 'Near {street}, {quadrant}',
+        },
+    },
+};
+
+export const DEFAULT_REGION = REGIONS.calgary;
+
+export const createCustomRegion = (name: string, bounds: Bounds): Region => ({
+    id: 'custom',
+    name,
+    bounds,
+    restriction: padBounds(bounds, 0.05),
+    defaultZoom: 11,
+    hints: {
+        quadrants: COMPASS_QUADRANTS,
+        areaTemplate: `Location is in the {quadrant} part of ${name}`,
+        streetTemplate: 'Near {street} ({quadrant})',
+    },
+});
+
+export const createSetRegion = (set: LocationSet): Region => {
+    const bounds = set.area ? geometryBounds(set.area) : padBounds(boundsOf(set.pins.map(pin => pin.position)), 0.005);
+    return {
+        ...createCustomRegion(set.name, bounds),
+        area: set.area ? { boundary: set.area } : undefined,
+        locationSet: set,
+    };
+};
+
+export const isValidBounds = (bounds: Bounds): boolean =>
+    [bounds.north, bounds.south, bounds.east, bounds.west].every(Number.isFinite) &&
+    bounds.north > bounds.south &&
+    bounds.east > bounds.west &&
+    bounds.north <= 90 &&
+    bounds.south >= -90 &&
+    bounds.west >= -180 &&
+    bounds.east <= 180;
+
+// Stable key for per-region caches. Custom regions are keyed by their set or bounds.
+export const regionKey = (region: Region): string => {
+    if (region.id !== 'custom') {
+        return region.id;
+    }
+    if (region.locationSet) {
+        return `set:${region.locationSet.id}`;
+    }
+    const { north, south, east, west } = region.bounds;
+    return `custom:${north},${south},${east},${west}`;
+};
+
+export const regionCenter = (region: Region): LatLng => boundsCenter(region.bounds);
+
+const samplers = new WeakMap<Region, Sampler>();
+
+export const getRegionSampler = (region: Region): Sampler => {
+    let sampler = samplers.get(region);
+    if (!sampler) {
+        sampler = region.area
+            ? createSampler(region.area)
+            : {
+                bounds: region.bounds,
+                contains: ({ lat, lng }) => lat >= region.bounds.south && lat <= region.bounds.north &&
+                    lng >= region.bounds.west && lng <= region.bounds.east,
+                sample: (random?: RandomSource) => uniformInBounds(region.bounds, random),
+            };
+        samplers.set(region, sampler);
+    }
+    return sampler;
+};
+
+export const getQuadrant = (region: Region, { lat, lng }: LatLng): Quadrant => {
+    const center = regionCenter(region);
+
+    if (lat > center.lat && lng > center.lng) return 'northeast';
+    if (lat > center.lat && lng < center.lng) return 'northwest';
+    if (lat < center.lat && lng > center.lng) return 'southeast';
+    return 'southwest';
+};
+
+export const formatAreaHint = (region: Region, position: LatLng): string =>
+    region.hints.areaTemplate.replace('{quadrant}', region.hints.quadrants[getQuadrant(region, position)]);
+
+export const formatStreetHint = (region: Region, position: LatLng, street: string): string =>
+    region.hints.streetTemplate
+        .replace('{street}', street)
+        .replace('{quadrant}', region.hints.quadrants[getQuadrant(region, position)]);
+
+// Serialised form of a region, used for persistence and challenge links.
+// Built-in regions are stored by id only; custom regions also keep their
+// name and bounds, or the whole location set they were built from.
+export interface StoredRegion {
+    id: RegionId;
+    name?: string;
+    bounds?: Bounds;
+    set?: LocationSet;
+}
+
+export const serializeRegion = (region: Region): StoredRegion => {
+    if (region.id !== 'custom') {
+        return { id: region.id };
+    }
+    return region.locationSet
+        ? { id: region.id, set: region.locationSet }
+        : { id: region.id, name: region.name, bounds: region.bounds };
+};
+
+export const deserializeRegion = (stored: StoredRegion): Region | null => {
+    if (stored.id === 'custom' && stored.set !== undefined) {
+        return isLocationSet(stored.set) ? createSetRegion(stored.set) : null;
+    }
+    if (stored.id === 'custom') {
+        return stored.name && stored.bounds && isValidBounds(stored.bounds)
+            ? createCustomRegion(stored.name, stored.bounds)
+            : null;
+    }
+    // The id comes from storage or a link, so ignore inherited keys like 'toString'
+    return Object.prototype.hasOwnProperty.call(REGIONS, stored.id)
+        ? REGIONS[stored.id as Exclude<RegionId, 'custom'>]
+        : null;
+};
+
+const ACTIVE_REGION_KEY = 'activeRegion';
+
+export const loadActiveRegion = (): Region => {
+    const stored = loadJSON<StoredRegion | null>(ACTIVE_REGION_KEY, null);
+    return (stored && deserializeRegion(stored)) ?? DEFAULT_REGION;
+};
+
+export const saveActiveRegion = (region: Region): void => {
+    saveJSON(ACTIVE_REGION_KEY, serializeRegion(region));
+};
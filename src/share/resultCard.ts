@@ -0,0 +1,158 @@
+import { GameSession, sessionTotal } from '../game/session';
+import { geometryPaths } from '../geo/polygon';
+import { LatLng, boundsOf, padBounds } from '../geo/types';
+import { REGIONS } from '../regions';
+import { GRADE_COLORS, gradeRound, shareTitle } from './shareSummary';
+
+// A 1200×630 PNG of a finished game (the usual link-preview size): the score
+// and round squares on the left, a mini map of the guesses and answers on
+// the right. Everything is drawn on a canvas, so no map tiles are needed.
+
+const WIDTH = 1200;
+const HEIGHT = 630;
+const MAP = { x: 640, y: 40, width: 520, height: 550 };
+const SQUARE = 56;
+const SQUARE_GAP = 12;
+const SQUARES_PER_ROW = 8;
+// Smallest area the mini map shows, in degrees, so one close guess isn't a blur
+const MIN_SPAN = 0.02;
+
+const ANSWER_COLOR = '#DC2626';
+const GUESS_COLOR = '#2563EB';
+
+interface Projection {
+    toCanvas: (point: LatLng) => [number, number];
+}
+
+// Equirectangular, with longitude scaled by cos(latitude) and the points
+// centred in the map panel
+const fitProjection = (points: LatLng[]): Projection => {
+    const bounds = padBounds(boundsOf(points), 0.005);
+    const centerLat = (bounds.north + bounds.south) / 2;
+    const centerLng = (bounds.east + bounds.west) / 2;
+    const lngScale = Math.cos((centerLat * Math.PI) / 180);
+    const width = Math.max((bounds.east - bounds.west) * lngScale, MIN_SPAN);
+    const height = Math.max(bounds.north - bounds.south, MIN_SPAN);
+    const scale = Math.min(MAP.width / width, MAP.height / height);
+    return {
+        toCanvas: ({ lat, lng }) => [
+            MAP.x + MAP.width / 2 + (lng - centerLng) * lngScale * scale,
+            MAP.y + MAP.height / 2 - (lat - centerLat) * scale,
+        ],
+    };
+};
+
+const drawDot = (ctx: CanvasRenderingContext2D, [x, y]: [number, number], radius: number, color: string) => {
+    ctx.beginPath();
+    ctx.arc(x, y, radius, 0, Math.PI * 2);
+    ctx.fillStyle = color;
+    ctx.fill();
+    ctx.lineWidth = 3;
+    ctx.strokeStyle = '#FFFFFF';
+    ctx.stroke();
+};
+
+const drawMiniMap = (ctx: CanvasRenderingContext2D, session: GameSession) => {
+    ctx.save();
+    ctx.beginPath();
+    ctx.roundRect(MAP.x, MAP.y, MAP.width, MAP.height, 16);
+    ctx.fillStyle = '#F5F5F4';
+    ctx.fill();
+    ctx.clip();
+
+    const points = session.rounds.flatMap(round => round.guess ? [round.actual, round.guess] : [round.actual]);
+    if (points.length === 0) {
+        ctx.restore();
+        return;
+    }
+    const { toCanvas } = fitProjection(points);
+
+    // Outline the city where the region has one, for a sense of scale
+    const area = session.regionId === 'custom' ? undefined : REGIONS[session.regionId].area;
+    if (area) {
+        ctx.beginPath();
+        geometryPaths(area.boundary).forEach(path => path.forEach((point, index) => {
+            const [x, y] = toCanvas(point);
+            if (index === 0) {
+                ctx.moveTo(x, y);
+            } else {
+                ctx.lineTo(x, y);
+            }
+        }));
+        ctx.closePath();
+        ctx.fillStyle = '#FFFFFF';
+        ctx.fill();
+        ctx.lineWidth = 2;
+        ctx.strokeStyle = '#A8A29E';
+        ctx.stroke();
+    }
+
+    session.rounds.forEach((round) => {
+        if (!round.guess) {
+            return;
+        }
+        ctx.beginPath();
+        ctx.moveTo(...toCanvas(round.guess));
+        ctx.lineTo(...toCanvas(round.actual));
+        ctx.lineWidth = 3;
+        ctx.strokeStyle = GRADE_COLORS[gradeRound(round)];
+        ctx.stroke();
+        drawDot(ctx, toCanvas(round.guess), 8, GUESS_COLOR);
+    });
+    ctx.font = 'bold 13px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    session.rounds.forEach((round, index) => {
+        const position = toCanvas(round.actual);
+        drawDot(ctx, position, 12, ANSWER_COLOR);
+        ctx.fillStyle = '#FFFFFF';
+        ctx.fillText(String(index + 1), position[0], position[1] + 1);
+    });
+    ctx.restore();
+};
+
+export const drawResultCard = (session: GameSession, maxScore: number): Promise<Blob> => {
+    const canvas = document.createElement('canvas');
+    canvas.width = WIDTH;
+    canvas.height = HEIGHT;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        return Promise.reject(new Error('Canvas is not supported.'));
+    }
+
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, WIDTH, HEIGHT);
+    ctx.fillStyle = '#2563EB';
+    ctx.fillRect(0, 0, WIDTH, 12);
+
+    ctx.textBaseline = 'alphabetic';
+    ctx.fillStyle = '#2563EB';
+    ctx.font = 'bold 44px sans-serif';
+    ctx.fillText('NeighbourGuessr', 48, 100);
+    ctx.fillStyle = '#4B5563';
+    ctx.font = '28px sans-serif';
+    ctx.fillText(shareTitle(session), 48, 148);
+
+    ctx.fillStyle = '#111827';
+    ctx.font = 'bold 96px sans-serif';
+    ctx.fillText(sessionTotal(session).toLocaleString(), 48, 280);
+    ctx.fillStyle = '#6B7280';
+    ctx.font = '28px sans-serif';
+    ctx.fillText(`out of ${maxScore.toLocaleString()} points`, 48, 326);
+
+    session.rounds.forEach((round, index) => {
+        const x = 48 + (index % SQUARES_PER_ROW) * (SQUARE + SQUARE_GAP);
+        const y = 380 + Math.floor(index / SQUARES_PER_ROW) * (SQUARE + SQUARE_GAP);
+        ctx.beginPath();
+        ctx.roundRect(x, y, SQUARE, SQUARE, 8);
+        ctx.fillStyle = GRADE_COLORS[gradeRound(round)];
+        ctx.fill();
+    });
+
+    drawMiniMap(ctx, session);
+
+    return new Promise((resolve, reject) => canvas.toBlob(
+        blob => blob ? resolve(blob) : reject(new Error('Could not create the image.')),
+        'image/png'
+    ));
+};
@@ -0,0 +1,42 @@
+// How a result ended up being shared, for the confirmation message
+export type ShareOutcome = 'shared' | 'copied' | 'downloaded' | 'cancelled';
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName;
+    link.click();
+    URL.revokeObjectURL(url);
+};
+
+const isAbort = (error: unknown): boolean => error instanceof DOMException && error.name === 'AbortError';
+
+// Prefers the Web Share API (with the card attached where files can be
+// shared), then copying the text, then downloading the card
+export const shareResult = async (text: string, card: Blob | null, fileName: string): Promise<ShareOutcome> => {
+    if (navigator.share) {
+        const files = card ? [new File([card], fileName, { type: card.type })] : [];
+        const data: ShareData = files.length > 0 && navigator.canShare?.({ files }) ? { text, files } : { text };
+        try {
+            await navigator.share(data);
+            return 'shared';
+        } catch (error) {
+            if (isAbort(error)) {
+                return 'cancelled';
+            }
+            console.warn('Web Share failed:', error);
+        }
+    }
+    try {
+        await navigator.clipboard.writeText(text);
+        return 'copied';
+    } catch (error) {
+        // Clipboard access can be denied, e.g. outside a secure context
+        if (!card) {
+            throw error;
+        }
+        downloadBlob(card, fileName);
+        return 'downloaded';
+    }
+};
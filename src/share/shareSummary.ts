@@ -0,0 +1,87 @@
+import { CommunityGuessResult } from '../game/communities';
+import { parseDailySeed } from '../game/daily';
+import { DEFAULT_DIFFICULTY, difficultyLabel } from '../game/difficulty';
+import { sessionRoundsSurvived } from '../game/elimination';
+import { GameMode, GameSession, RoundRecord, sessionTotal } from '../game/session';
+
+// A Wordle-style text summary of a finished game: one square per round,
+// coloured by how far off the guess was.
+
+export type RoundGrade = 'close' | 'near' | 'far' | 'miss' | 'skipped';
+
+export interface GradeBand {
+    grade: RoundGrade;
+    // Upper bound in metres (exclusive)
+    max: number;
+}
+
+export const GRADE_BANDS: GradeBand[] = [
+    { grade: 'close', max: 250 },
+    { grade: 'near', max: 1000 },
+    { grade: 'far', max: 3000 },
+    { grade: 'miss', max: Infinity },
+];
+
+export const GRADE_EMOJI: Record<RoundGrade, string> = {
+    close: '🟩',
+    near: '🟨',
+    far: '🟧',
+    miss: '🟥',
+    skipped: '⬛',
+};
+
+// Same colours for the squares drawn on the result card
+export const GRADE_COLORS: Record<RoundGrade, string> = {
+    close: '#16A34A',
+    near: '#EAB308',
+    far: '#F97316',
+    miss: '#DC2626',
+    skipped: '#374151',
+};
+
+const COMMUNITY_GRADES: Record<CommunityGuessResult, RoundGrade> = {
+    exact: 'close',
+    adjacent: 'near',
+    miss: 'miss',
+};
+
+const MODE_TITLES: Partial<Record<GameMode, string>> = {
+    challenge: 'Challenge',
+    community: 'Guess the Community',
+    elimination: 'Battle Royale',
+};
+
+export const gradeRound = (round: RoundRecord): RoundGrade => {
+    if (round.distance === null) {
+        return 'skipped';
+    }
+    if (round.community) {
+        return COMMUNITY_GRADES[round.community.result];
+    }
+    const distance = round.distance;
+    return GRADE_BANDS.find(band => distance < band.max)?.grade ?? 'miss';
+};
+
+// e.g. "Calgary · Daily 2026-10-18"
+export const shareTitle = (session: GameSession): string => {
+    const daily = session.mode === 'daily' && session.seed ? parseDailySeed(session.seed) : null;
+    const mode = daily ? `Daily ${daily.date}` : MODE_TITLES[session.mode];
+    const { preset } = session.settings.difficulty;
+    // Normal goes unsaid, as it did before difficulties existed
+    const difficulty = preset === DEFAULT_DIFFICULTY.preset ? null : difficultyLabel(preset);
+    return [session.regionName, mode, difficulty].filter(Boolean).join(' · ');
+};
+
+export const emojiGrid = (session: GameSession): string =>
+    session.rounds.map(round => GRADE_EMOJI[gradeRound(round)]).join('');
+
+export const shareText = (session: GameSession, maxScore: number, challengeLink: string | null): string => {
+    const survived = sessionRoundsSurvived(session)?.[0];
+    return [
+        `NeighbourGuessr · ${shareTitle(session)}`,
+        emojiGrid(session),
+        `${sessionTotal(session).toLocaleString()} / ${maxScore.toLocaleString()}`,
+        ...(survived !== undefined ? [`Survived ${survived} ${survived === 1 ? 'round' : 'rounds'}`] : []),
+        ...(challengeLink ? [`Beat my score: ${challengeLink}`] : []),
+    ].join('\n');
+};
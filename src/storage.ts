@@ -0,0 +1,30 @@
+// Small wrappers around localStorage. Storage can be unavailable (private
+// browsing, quota exceeded) so every access is best-effort.
+
+const STORAGE_PREFIX = 'neighbourguessr:';
+
+export const loadJSON = <T>(key: string, fallback: T): T => {
+    try {
+        const raw = window.localStorage.getItem(STORAGE_PREFIX + key);
+        return raw ? (JSON.parse(raw) as T) : fallback;
+    } catch (error) {
+        console.warn(`Failed to read "${key}" from storage:`, error);
+        return fallback;
+    }
+};
+
+export const saveJSON = <T>(key: string, value: T): void => {
+    try {
+        window.localStorage.setItem(STORAGE_PREFIX + key, JSON.stringify(value));
+    } catch (error) {
+        console.warn(`Failed to write "${key}" to storage:`, error);
+    }
+};
+
+export const removeKey = (key: string): void => {
+    try {
+        window.localStorage.removeItem(STORAGE_PREFIX + key);
+    } catch (error) {
+        console.warn(`Failed to remove "${key}" from storage:`, error);
+    }
+};
@@ -0,0 +1,48 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createLocationPool } from './locationPool';
+import { PanoramaResult } from './lookup';
+
+const LOCATION: PanoramaResult = { pano: 'pano-1', position: { lat: 51.05, lng: -114.07 } };
+
+beforeEach(() => {
+    const storage = new Map<string, string>();
+    vi.stubGlobal('window', {
+        localStorage: {
+            getItem: (key: string) => storage.get(key) ?? null,
+            setItem: (key: string, value: string) => storage.set(key, value),
+        },
+        setTimeout,
+    });
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('createLocationPool', () => {
+    it('hands out locations as lookups find them', async () => {
+        const pool = createLocationPool({
+            cacheKey: 'test',
+            lookup: async () => LOCATION,
+            sample: () => LOCATION.position,
+            contains: () => true,
+            size: 1,
+        });
+        await expect(pool.next()).resolves.toEqual(LOCATION);
+        pool.dispose();
+    });
+
+    it('rejects pending and later requests once disposed', async () => {
+        // Lookups never settle, so the first request has to wait
+        const pool = createLocationPool({
+            cacheKey: 'test',
+            lookup: () => new Promise(() => undefined),
+            sample: () => LOCATION.position,
+            contains: () => true,
+        });
+        const pending = pool.next();
+        pool.dispose();
+        await expect(pending).rejects.toThrow('disposed');
+        await expect(pool.next()).rejects.toThrow('disposed');
+    });
+});
@@ -0,0 +1,163 @@
+import { LatLng } from '../geo/types';
+import { loadJSON, saveJSON } from '../storage';
+import { PanoramaLookup, PanoramaResult } from './lookup';
+
+export interface LocationPoolOptions {
+    // Storage key for known-good panoramas, one per region
+    cacheKey: string;
+    lookup: PanoramaLookup;
+    // Candidate point generator, e.g. the region sampler
+    sample: () => LatLng;
+    // Rejects panoramas that snapped outside the playable area
+    contains: (position: LatLng) => boolean;
+    // Rejects cached panoramas that no longer match the current settings
+    accepts?: (location: PanoramaResult) => boolean;
+    // Number of validated locations to keep ready
+    size?: number;
+    // Candidate points to try before a fill attempt gives up
+    maxAttempts?: number;
+    // Search radius of the first attempt, doubled after every miss up to maxRadius
+    baseRadius?: number;
+    maxRadius?: number;
+    // Wait before retrying after a fill attempt exhausted its budget
+    retryDelay?: number;
+    maxCached?: number;
+}
+
+export interface LocationPool {
+    // Resolves with the next validated location, waiting for one if the pool is
+    // empty. Rejects once the pool is disposed.
+    next: () => Promise<PanoramaResult>;
+    // Drops a panorama that turned out to be unusable from the pool and cache
+    forget: (pano: string) => void;
+    readyCount: () => number;
+    dispose: () => void;
+}
+
+const CACHE_PREFIX = 'panoCache:';
+
+const shuffle = <T>(items: T[]): T[] => {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+};
+
+export const createLocationPool = (options: LocationPoolOptions): LocationPool => {
+    const {
+        cacheKey,
+        lookup,
+        sample,
+        contains,
+        accepts = () => true,
+        size = 5,
+        maxAttempts = 8,
+        baseRadius = 50,
+        maxRadius = 1000,
+        retryDelay = 5000,
+        maxCached = 200,
+    } = options;
+
+    let cached = loadJSON<PanoramaResult[]>(CACHE_PREFIX + cacheKey, []);
+    const ready: PanoramaResult[] = shuffle(cached.filter(accepts)).slice(0, size);
+    const waiting: { resolve: (location: PanoramaResult) => void; reject: (error: Error) => void }[] = [];
+    let filling = false;
+    let disposed = false;
+    let retryTimeout: number | null = null;
+
+    const remember = (location: PanoramaResult) => {
+        cached = [...cached.filter(entry => entry.pano !== location.pano), location].slice(-maxCached);
+        saveJSON(CACHE_PREFIX + cacheKey, cached);
+    };
+
+    const findLocation = async (): Promise<PanoramaResult | null> => {
+        for (let attempt = 0; attempt < maxAttempts && !disposed; attempt++) {
+            const radius = Math.min(baseRadius * 2 ** attempt, maxRadius);
+            try {
+                const result = await lookup({ location: sample(), radius });
+                if (result && contains(result.position) && !ready.some(entry => entry.pano === result.pano)) {
+                    return result;
+                }
+            } catch (error) {
+                console.warn('Street View lookup failed:', error);
+            }
+        }
+        return null;
+    };
+
+    const deliver = (location: PanoramaResult) => {
+        const waiter = waiting.shift();
+        if (waiter) {
+            waiter.resolve(location);
+        } else {
+            ready.push(location);
+        }
+    };
+
+    // Tops the pool up one location at a time so prefetching never floods the API
+    const fill = async () => {
+        if (filling || disposed || retryTimeout) {
+            return;
+        }
+        filling = true;
+        while (!disposed && (ready.length < size || waiting.length > 0)) {
+            const location = await findLocation();
+            if (disposed) {
+                break;
+            }
+            if (!location) {
+                console.warn(`No Street View found after ${maxAttempts} attempts, retrying in ${retryDelay}ms`);
+                retryTimeout = window.setTimeout(() => {
+                    retryTimeout = null;
+                    fill();
+                }, retryDelay);
+                break;
+            }
+            remember(location);
+            deliver(location);
+        }
+        filling = false;
+    };
+
+    const next = (): Promise<PanoramaResult> => {
+        if (disposed) {
+            return Promise.reject(new Error('Location pool was disposed'));
+        }
+        const location = ready.shift();
+        const result = location
+            ? Promise.resolve(location)
+            : new Promise<PanoramaResult>((resolve, reject) => waiting.push({ resolve, reject }));
+        fill();
+        return result;
+    };
+
+    const forget = (pano: string) => {
+        cached = cached.filter(entry => entry.pano !== pano);
+        saveJSON(CACHE_PREFIX + cacheKey, cached);
+        const index = ready.findIndex(entry => entry.pano === pano);
+        if (index >= 0) {
+            ready.splice(index, 1);
+            fill();
+        }
+    };
+
+    const dispose = () => {
+        disposed = true;
+        // Nothing will fill the pool any more, so don't leave callers hanging
+        waiting.splice(0).forEach(waiter => waiter.reject(new Error('Location pool was disposed')));
+        if (retryTimeout) {
+            clearTimeout(retryTimeout);
+        }
+    };
+
+    fill();
+
+    return {
+        next,
+        forget,
+        readyCount: () => ready.length,
+        dispose,
+    };
+};
@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { createSeededRandom } from '../game/random';
+import { REGIONS, getRegionSampler } from '../regions';
+import { PanoramaLookup } from './lookup';
+import { LocationSource, createSeededLocationSource } from './locationSource';
+
+// Snaps each request to a ~100 m grid and finds nothing in every third cell,
+// answering after a random delay so lookups finish out of order
+const fakeLookup: PanoramaLookup = async ({ location }) => {
+    await new Promise(resolve => setTimeout(resolve, Math.random() * 5));
+    const lat = Math.round(location.lat * 1000) / 1000;
+    const lng = Math.round(location.lng * 1000) / 1000;
+    if (Math.round((lat + lng) * 1000) % 3 === 0) {
+        return null;
+    }
+    return { pano: `${lat},${lng}`, position: { lat, lng } };
+};
+
+const playRounds = async (seed: string, rounds: number, regionId: 'calgary' | 'edmonton' = 'calgary'): Promise<string[]> => {
+    const source: LocationSource = createSeededLocationSource({
+        lookup: fakeLookup,
+        sampler: getRegionSampler(REGIONS[regionId]),
+        random: createSeededRandom(seed),
+    });
+    const panos: string[] = [];
+    for (let round = 0; round < rounds; round++) {
+        panos.push((await source.next()).pano);
+    }
+    return panos;
+};
+
+describe('createSeededLocationSource', () => {
+    it('gives the same rounds for the same seed and region', async () => {
+        const first = await playRounds('daily:calgary:2026-10-18', 5);
+        expect(new Set(first).size).toBe(5);
+        expect(await playRounds('daily:calgary:2026-10-18', 5)).toEqual(first);
+    });
+
+    it('gives different rounds for another seed or region', async () => {
+        const rounds = await playRounds('seed-a', 5);
+        expect(await playRounds('seed-b', 5)).not.toEqual(rounds);
+        expect(await playRounds('seed-a', 5, 'edmonton')).not.toEqual(rounds);
+    });
+
+    it('fails only the round whose candidates all miss', async () => {
+        let calls = 0;
+        const source = createSeededLocationSource({
+            // Nothing for the first round's candidates, then the usual grid
+            lookup: async (request) => ++calls <= 3 ? null : fakeLookup(request),
+            sampler: getRegionSampler(REGIONS.calgary),
+            random: createSeededRandom('seed-a'),
+            maxAttempts: 3,
+        });
+        await expect(source.next()).rejects.toThrow('No Street View found');
+        await expect(source.next()).resolves.toMatchObject({ pano: expect.any(String) });
+        await expect(source.next()).resolves.toMatchObject({ pano: expect.any(String) });
+    });
+});
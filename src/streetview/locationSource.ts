@@ -0,0 +1,168 @@
+import { LatLng } from '../geo/types';
+import { RandomSource, Sampler } from '../geo/sampling';
+import { PanoramaLookup, PanoramaResult } from './lookup';
+
+// Anything that can hand out round locations: the prefetching pool for
+// random games, or a deterministic sequence for seeded games.
+export interface LocationSource {
+    next: () => Promise<PanoramaResult>;
+    forget?: (pano: string) => void;
+    dispose?: () => void;
+}
+
+export interface SeededLocationOptions {
+    lookup: PanoramaLookup;
+    sampler: Sampler;
+    random: RandomSource;
+    // Locations to resolve ahead of the current round
+    prefetch?: number;
+    maxAttempts?: number;
+    baseRadius?: number;
+    maxRadius?: number;
+}
+
+const MAX_LOOKUP_RETRIES = 3;
+
+// Deterministic candidate stream: the n-th candidate depends only on the seed
+export const seededCandidates = function* (sampler: Sampler, random: RandomSource): Generator<LatLng, never> {
+    while (true) {
+        yield sampler.sample(random);
+    }
+};
+
+// Resolves locations strictly in order so every player with the same seed
+// validates the same candidates in the same sequence and gets the same rounds.
+export const createSeededLocationSource = (options: SeededLocationOptions): LocationSource => {
+    const {
+        lookup,
+        sampler,
+        random,
+        prefetch = 2,
+        maxAttempts = 30,
+        baseRadius = 50,
+        maxRadius = 1000,
+    } = options;
+
+    const candidates = seededCandidates(sampler, random);
+    const resolved: Promise<PanoramaResult>[] = [];
+    const seen = new Set<string>();
+    let chain: Promise<unknown> = Promise.resolve();
+    let consumed = 0;
+
+    // Transient errors retry the same candidate so they can't shift the sequence
+    const lookupWithRetry: PanoramaLookup = async (request) => {
+        for (let retry = 0; ; retry++) {
+            try {
+                return await lookup(request);
+            } catch (error) {
+                if (retry >= MAX_LOOKUP_RETRIES) {
+                    throw error;
+                }
+                console.warn('Street View lookup failed, retrying:', error);
+                await new Promise(resolve => setTimeout(resolve, 1000 * 2 ** retry));
+            }
+        }
+    };
+
+    const findNext = async (): Promise<PanoramaResult> => {
+        for (let attempt = 0; attempt < maxAttempts; attempt++) {
+            const radius = Math.min(baseRadius * 2 ** attempt, maxRadius);
+            const candidate = candidates.next().value;
+            const result = await lookupWithRetry({ location: candidate, radius });
+            if (result && sampler.contains(result.position) && !seen.has(result.pano)) {
+                seen.add(result.pano);
+                return result;
+            }
+        }
+        throw new Error(`No Street View found after ${maxAttempts} seeded candidates`);
+    };
+
+    // A round that finds nothing fails on its own; the rounds after it carry on
+    // from the next candidate
+    const enqueue = () => {
+        const promise = chain.then(findNext);
+        chain = promise.catch(() => undefined);
+        // Prefetched rounds may fail before anyone asks for them
+        promise.catch(() => undefined);
+        resolved.push(promise);
+    };
+
+    const next = (): Promise<PanoramaResult> => {
+        while (resolved.length < consumed + 1 + prefetch) {
+            enqueue();
+        }
+        return resolved[consumed++];
+    };
+
+    return { next };
+};
+
+// Deals a location set's pins in a shuffled order, reshuffling once every
+// pin has been played. A seeded random gives every player the same order.
+export const createPinLocationSource = (pins: PanoramaResult[], random: RandomSource = Math.random): LocationSource => {
+    let deck: PanoramaResult[] = [];
+    let last: PanoramaResult | null = null;
+
+    const shuffle = () => {
+        deck = [...pins];
+        for (let i = deck.length - 1; i > 0; i--) {
+            const j = Math.floor(random() * (i + 1));
+            [deck[i], deck[j]] = [deck[j], deck[i]];
+        }
+        // Don't play the same pin twice in a row across a reshuffle
+        if (deck.length > 1 && deck[0] === last) {
+            [deck[0], deck[deck.length - 1]] = [deck[deck.length - 1], deck[0]];
+        }
+    };
+
+    return {
+        next: () => {
+            if (pins.length === 0) {
+                return Promise.reject(new Error('This location set has no pins'));
+            }
+            if (deck.length === 0) {
+                shuffle();
+            }
+            const pin = deck.shift() as PanoramaResult;
+            last = pin;
+            return Promise.resolve(pin);
+        },
+    };
+};
+
+// Draws each round from `extra` with probability `share`, otherwise from
+// `base`, e.g. to mix location pack rounds into random ones. Rounds fall back
+// to the base source if the extra one runs dry.
+export const createMixedLocationSource = (
+    base: LocationSource,
+    extra: LocationSource,
+    share: number,
+    random: RandomSource = Math.random
+): LocationSource => ({
+    next: async () => {
+        if (random() < share) {
+            try {
+                return await extra.next();
+            } catch (error) {
+                console.warn('Falling back to a random location:', error);
+            }
+        }
+        return base.next();
+    },
+    forget: (pano) => {
+        base.forget?.(pano);
+        extra.forget?.(pano);
+    },
+    // The base source is usually the shared pool, so it's left alone
+    dispose: () => extra.dispose?.(),
+});
+
+// Plays a fixed list of known panoramas in order, e.g. from a challenge link
+export const createFixedLocationSource = (locations: PanoramaResult[]): LocationSource => {
+    let index = 0;
+    return {
+        next: () => index < locations.length
+            ? Promise.resolve(locations[index++])
+            : Promise.reject(new Error('No more locations in this set')),
+    };
+};
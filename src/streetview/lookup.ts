@@ -0,0 +1,56 @@
+import { LatLng } from '../geo/types';
+import { QuotaManager, quota } from '../quota/quotaManager';
+import { DEFAULT_PANORAMA_FILTER, PanoramaFilter, panoramaSources, passesPanoramaFilter } from './panoramaFilter';
+
+export interface PanoramaRequest {
+    location: LatLng;
+    radius: number;
+}
+
+// Shown on reveal for curated locations
+export interface LocationTrivia {
+    title: string;
+    text: string;
+}
+
+export interface PanoramaResult {
+    pano: string;
+    position: LatLng;
+    imageDate?: string;
+    // Direction the round starts facing, e.g. a location set pin's preferred view
+    heading?: number;
+    // Only set on locations from a location pack
+    trivia?: LocationTrivia;
+}
+
+// Resolves to null when there is no acceptable panorama near the requested location
+export type PanoramaLookup = (request: PanoramaRequest) => Promise<PanoramaResult | null>;
+
+export const createGoogleLookup = (
+    filter: PanoramaFilter = DEFAULT_PANORAMA_FILTER,
+    quotaManager: QuotaManager = quota
+): PanoramaLookup => {
+    const service = new google.maps.StreetViewService();
+    const sources = panoramaSources(filter);
+
+    return async ({ location, radius }) => {
+        // Each metadata request is billed, so wait out an empty bucket
+        await quotaManager.acquire('streetView');
+        try {
+            const { data } = await service.getPanorama({ location, radius, sources });
+            const pano = data.location?.pano;
+            const latLng = data.location?.latLng;
+            if (!pano || !latLng || !passesPanoramaFilter(data, filter)) {
+                return null;
+            }
+            return { pano, position: latLng.toJSON(), imageDate: data.imageDate };
+        } catch (error) {
+            // getPanorama rejects with ZERO_RESULTS when nothing is in range
+            const code = (error as { code?: string }).code;
+            if (code === google.maps.StreetViewStatus.ZERO_RESULTS) {
+                return null;
+            }
+            throw error;
+        }
+    };
+};
@@ -0,0 +1,67 @@
+import { loadJSON, saveJSON } from '../storage';
+
+export interface PanoramaFilter {
+    // Skip business interiors and other indoor imagery
+    outdoorOnly: boolean;
+    // Skip user photospheres and third-party uploads
+    googleOnly: boolean;
+    // Oldest acceptable capture date as "YYYY-MM", or null for any age
+    minImageDate: string | null;
+}
+
+export interface PanoramaMetadata {
+    copyright?: string;
+    imageDate?: string;
+}
+
+export const DEFAULT_PANORAMA_FILTER: PanoramaFilter = {
+    outdoorOnly: true,
+    googleOnly: true,
+    minImageDate: null,
+};
+
+const FILTER_KEY = 'panoramaFilter';
+
+export const loadPanoramaFilter = (): PanoramaFilter => ({
+    ...DEFAULT_PANORAMA_FILTER,
+    ...loadJSON<Partial<PanoramaFilter>>(FILTER_KEY, {}),
+});
+
+export const savePanoramaFilter = (filter: PanoramaFilter): void => {
+    saveJSON(FILTER_KEY, filter);
+};
+
+export const panoramaSources = (filter: PanoramaFilter): google.maps.StreetViewSource[] => {
+    const sources: google.maps.StreetViewSource[] = [];
+    if (filter.googleOnly) {
+        sources.push(google.maps.StreetViewSource.GOOGLE);
+    }
+    if (filter.outdoorOnly) {
+        sources.push(google.maps.StreetViewSource.OUTDOOR);
+    }
+    return sources.length > 0 ? sources : [google.maps.StreetViewSource.DEFAULT];
+};
+
+// imageDate comes back as "YYYY-MM" (occasionally "YYYY-MM-DD"), so string
+// comparison on the first 7 characters orders them correctly.
+const isRecentEnough = (imageDate: string | undefined, minImageDate: string | null): boolean => {
+    if (!minImageDate) {
+        return true;
+    }
+    return !!imageDate && imageDate.slice(0, 7) >= minImageDate;
+};
+
+// The sources request option already excludes most unwanted panoramas; this
+// catches user-contributed imagery that still slips through.
+export const passesPanoramaFilter = (metadata: PanoramaMetadata, filter: PanoramaFilter): boolean => {
+    if (filter.googleOnly && metadata.copyright !== undefined && !/google/i.test(metadata.copyright)) {
+        return false;
+    }
+    return isRecentEnough(metadata.imageDate, filter.minImageDate);
+};
+
+// Random starting view so players don't always face straight down the road
+export const randomPov = (random: () => number = Math.random): google.maps.StreetViewPov => ({
+    heading: random() * 360,
+    pitch: random() * 10 - 5,
+});